@@ -17,12 +17,12 @@ import {
   Animated,
   Platform,
 } from 'react-native';
-import LocationTracker, { LocationUpdate } from './src/NewArchitecture/LocationTracker';
+import { LocationUpdate } from './src/NewArchitecture/LocationTracker';
+import { LocationProvider, useIsTracking, useLocationTracker } from './src/NewArchitecture/LocationProvider';
 
 const { width } = Dimensions.get('window');
 
-function App(): React.JSX.Element {
-  const [isTracking, setIsTracking] = useState(false);
+function LocationScreen(): React.JSX.Element {
   const [currentLocation, setCurrentLocation] = useState<LocationUpdate | null>(null);
   const [lastLocation, setLastLocation] = useState<LocationUpdate | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -39,26 +39,15 @@ function App(): React.JSX.Element {
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const idlePulseAnim = useRef(new Animated.Value(1)).current;
   
-  // LocationTracker instance
-  const locationTrackerRef = useRef<LocationTracker | null>(null);
+  // Shared LocationTracker, owned by the LocationProvider
+  const tracker = useLocationTracker();
+  const isTracking = useIsTracking();
 
   useEffect(() => {
-    // Initialize LocationTracker
-    try {
-      locationTrackerRef.current = new LocationTracker();
-      console.log('[App] LocationTracker initialized successfully');
-    } catch (error) {
-      console.error('[App] Failed to initialize LocationTracker:', error);
-      setError(`Failed to initialize tracker: ${error}`);
-    }
-
-    // Cleanup on unmount
-    return () => {
-      if (locationTrackerRef.current) {
-        locationTrackerRef.current.cleanup();
-      }
-    };
-  }, []);
+    return tracker.on('error', (locationError) => {
+      Alert.alert('Location Error', `Location tracking error: ${locationError?.error || 'Unknown error'}`);
+    });
+  }, [tracker]);
 
   // Start pulse animation for tracking indicator
   useEffect(() => {
@@ -119,27 +108,37 @@ function App(): React.JSX.Element {
       setCurrentIdleTime(location.totalIdleTimeBelowThreshold);
     }
     
-    if (location.outsideVist_Total_IdleTime !== undefined) {
-      setTotalIdleTime(location.outsideVist_Total_IdleTime);
+    if (location.outsideVisitIdleTime !== undefined) {
+      setTotalIdleTime(location.outsideVisitIdleTime);
     }
     
     // Update service status
     setServiceStatus('Active - Receiving updates');
   };
 
+  // Subscribed rather than passed to startTracking() so fixes also arrive after the tracker
+  // resumes tracking on its own following an app restart
+  const locationHandler = useRef(handleLocationUpdate);
+  locationHandler.current = handleLocationUpdate;
+
+  useEffect(() => {
+    const unsubscribers = [
+      tracker.on('location', location => locationHandler.current(location)),
+      tracker.on('trackingResumed', ({ mode }) => {
+        setServiceStatus(mode === 'resumed' ? 'Active - Resumed' : 'Active - Restarted');
+      }),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [tracker]);
+
   const startTracking = async () => {
     try {
       setError(null);
       setServiceStatus('Starting...');
-      
-      if (!locationTrackerRef.current) {
-        throw new Error('LocationTracker not initialized');
-      }
 
-      const success = await locationTrackerRef.current.startTracking(handleLocationUpdate);
+      const success = await tracker.startTracking();
       
       if (success) {
-        setIsTracking(true);
         setServiceStatus('Active');
         console.log('[App] Location tracking started successfully');
       } else {
@@ -155,12 +154,7 @@ function App(): React.JSX.Element {
 
   const stopTracking = async () => {
     try {
-      if (!locationTrackerRef.current) {
-        throw new Error('LocationTracker not initialized');
-      }
-
-      await locationTrackerRef.current.stopTracking();
-      setIsTracking(false);
+      await tracker.stopTracking();
       setServiceStatus('Stopped');
       console.log('[App] Location tracking stopped successfully');
     } catch (err) {
@@ -173,12 +167,8 @@ function App(): React.JSX.Element {
     try {
       setError(null);
       setPermissionStatus('Requesting...');
-      
-      if (!locationTrackerRef.current) {
-        throw new Error('LocationTracker not initialized');
-      }
 
-      const hasPermissions = await locationTrackerRef.current.requestLocationPermissions();
+      const hasPermissions = await tracker.requestLocationPermissions();
       
       if (hasPermissions) {
         setPermissionStatus('Granted');
@@ -474,4 +464,12 @@ const styles = StyleSheet.create({
   },
 });
 
+function App(): React.JSX.Element {
+  return (
+    <LocationProvider>
+      <LocationScreen />
+    </LocationProvider>
+  );
+}
+
 export default App;
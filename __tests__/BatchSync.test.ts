@@ -0,0 +1,87 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { resolveSyncConfig, sendLocationBatchToServer } from '../src/NewArchitecture/LocationSync';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+const flush = () => new Promise(resolve => setImmediate(resolve));
+const config = resolveSyncConfig({ baseUrl: 'https://api.example.com/', userId: 'user-1', deviceId: 'device-1' });
+const fetchMock = jest.fn<Promise<Partial<Response>>, [string, RequestInit]>();
+// Typed stand-in for the fetch mock from jest.setup.js, which resets it before each test
+global.fetch = fetchMock as unknown as typeof fetch;
+
+const respond = (body: unknown): Partial<Response> => ({ ok: true, status: 200, json: async () => body });
+const point = (id: string) => ({ id, latitude: 12.97, longitude: 77.59, timestamp: new Date(START).toISOString() });
+const sentIds = (call: number) =>
+  JSON.parse(fetchMock.mock.calls[call][1].body as string).locations.map((location: { id: string }) => location.id);
+
+async function createTracker(batchSize: number) {
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), sync: { ...config, batchUpload: true, batchSize } });
+  // Let the startup sync run against the empty queue
+  await flush();
+  return tracker;
+}
+
+test('posts the batch with the configured identity and splits acknowledged from rejected IDs', async () => {
+  fetchMock.mockResolvedValue(respond({ acknowledgedIds: ['a', 'c', 'not-sent'] }));
+
+  expect(await sendLocationBatchToServer([point('a'), point('b'), point('c')], config)).toEqual({
+    acknowledgedIds: ['a', 'c'],
+    rejectedIds: ['b'],
+  });
+
+  const [url, request] = fetchMock.mock.calls[0];
+  expect(url).toBe('https://api.example.com/api/location/batch');
+  expect(JSON.parse(request.body as string)).toMatchObject({ userId: 'user-1', deviceId: 'device-1' });
+  expect(sentIds(0)).toEqual(['a', 'b', 'c']);
+});
+
+test('treats a 2xx without acknowledgements as accepting the whole batch', async () => {
+  fetchMock
+    .mockResolvedValueOnce(respond({}))
+    .mockResolvedValueOnce({ ok: true, status: 204, json: async () => Promise.reject(new SyntaxError('empty')) });
+
+  expect(await sendLocationBatchToServer([point('a')], config)).toEqual({ acknowledgedIds: ['a'], rejectedIds: [] });
+  expect(await sendLocationBatchToServer([point('b')], config)).toEqual({ acknowledgedIds: ['b'], rejectedIds: [] });
+});
+
+test('rejects the whole batch on a server error', async () => {
+  fetchMock.mockResolvedValue({ ok: false, status: 500, json: async () => ({}) });
+
+  await expect(sendLocationBatchToServer([point('a')], config)).rejects.toThrow('500');
+});
+
+test('removes acknowledged points from storage and keeps the rest for the next sync', async () => {
+  const tracker = await createTracker(3);
+  for (let i = 0; i < 5; i++) {
+    await tracker.storeBackgroundLocation(12.97 + i * 0.001, 77.59, new Date(START + i * 60000));
+  }
+  const [a, b, c, d, e] = (await tracker.debugStoredLocations()).map(location => location.id);
+  fetchMock.mockResolvedValueOnce(respond({ acknowledgedIds: [a, c] })).mockResolvedValueOnce(respond({ acknowledgedIds: [d] }));
+
+  await tracker.syncBackgroundLocations();
+
+  expect(sentIds(0)).toEqual([a, b, c]);
+  expect(sentIds(1)).toEqual([d, e]);
+  expect((await tracker.debugStoredLocations()).map(location => location.id)).toEqual([b, e]);
+
+  await tracker.cleanup();
+});
+
+test('keeps every point queued when a batch fails and stops sending the rest', async () => {
+  const tracker = await createTracker(2);
+  for (let i = 0; i < 4; i++) {
+    await tracker.storeBackgroundLocation(12.97 + i * 0.001, 77.59, new Date(START + i * 60000));
+  }
+  fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+
+  await tracker.syncBackgroundLocations();
+
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+  expect(await tracker.debugStoredLocations()).toHaveLength(4);
+
+  await tracker.cleanup();
+});
@@ -0,0 +1,78 @@
+/**
+ * @format
+ */
+
+import { GeofenceManager, GeofenceEvent } from '../src/NewArchitecture/GeofenceManager';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+
+const START = Date.parse('2024-05-01T08:00:00Z');
+const MINUTE = 60 * 1000;
+
+const fix = (minutes: number, latitude: number, longitude: number, accuracy = 5) => ({
+  latitude,
+  longitude,
+  accuracy,
+  timestamp: new Date(START + minutes * MINUTE).toISOString(),
+});
+
+const summarise = (events: GeofenceEvent[]) => events.map(event => `${event.type}:${event.geofence.id}`);
+
+test('fires enter, dwell and exit for circle and polygon geofences', async () => {
+  const manager = new GeofenceManager(new MemoryStorageAdapter(), { dwellMs: 5 * MINUTE, maxAccuracyMeters: 100 });
+  await manager.addGeofence({ id: 'depot', type: 'circle', latitude: 12.97, longitude: 77.59, radiusMeters: 100 });
+  await manager.addGeofence({
+    id: 'site',
+    type: 'polygon',
+    dwellMs: 2 * MINUTE,
+    vertices: [
+      { latitude: 12.9695, longitude: 77.5895 },
+      { latitude: 12.9695, longitude: 77.5915 },
+      { latitude: 12.9705, longitude: 77.5915 },
+      { latitude: 12.9705, longitude: 77.5895 },
+    ],
+  });
+
+  expect(summarise(await manager.process(fix(0, 12.98, 77.59)))).toEqual([]);
+  expect(summarise(await manager.process(fix(1, 12.97, 77.59)))).toEqual(['enter:depot', 'enter:site']);
+  expect(summarise(await manager.process(fix(3, 12.9701, 77.5901)))).toEqual(['dwell:site']);
+  // A wildly inaccurate fix can't cause an exit
+  expect(summarise(await manager.process(fix(4, 12.99, 77.59, 500)))).toEqual([]);
+  expect(summarise(await manager.process(fix(6, 12.9702, 77.5908)))).toEqual(['dwell:depot']);
+
+  const exits = await manager.process(fix(8, 12.98, 77.59));
+  expect(summarise(exits)).toEqual(['exit:depot', 'exit:site']);
+  expect(exits[0].dwellTimeMs).toBe(7 * MINUTE);
+});
+
+test('persists inside state so a relaunch does not repeat enter', async () => {
+  const storage = new MemoryStorageAdapter();
+  const first = new GeofenceManager(storage);
+  await first.addGeofence({ id: 'home', type: 'circle', latitude: 12.97, longitude: 77.59, radiusMeters: 50 });
+  expect(summarise(await first.process(fix(0, 12.97, 77.59)))).toEqual(['enter:home']);
+
+  const relaunched = new GeofenceManager(storage);
+  expect(await relaunched.getGeofences()).toHaveLength(1);
+  expect(summarise(await relaunched.process(fix(1, 12.97, 77.59)))).toEqual([]);
+  expect(await relaunched.getState('home')).toMatchObject({ inside: true, enteredAt: fix(0, 0, 0).timestamp });
+});
+
+test('rejects invalid definitions', async () => {
+  const manager = new GeofenceManager(new MemoryStorageAdapter());
+  await expect(
+    manager.addGeofence({ id: 'bad', type: 'circle', latitude: 12.97, longitude: 77.59, radiusMeters: 0 }),
+  ).rejects.toThrow('positive radius');
+  await expect(
+    manager.addGeofence({ id: 'line', type: 'polygon', vertices: [{ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 1 }] }),
+  ).rejects.toThrow('at least 3 vertices');
+  await expect(
+    manager.addGeofence({ id: 'adrift', type: 'circle', latitude: NaN, longitude: 77.59, radiusMeters: 100 }),
+  ).rejects.toThrow('invalid coordinates');
+  await expect(
+    manager.addGeofence({
+      id: 'torn',
+      type: 'polygon',
+      vertices: [{ latitude: 0, longitude: 0 }, { latitude: 1, longitude: Infinity }, { latitude: 1, longitude: 0 }],
+    }),
+  ).rejects.toThrow('invalid coordinates');
+  expect(await manager.getGeofences()).toEqual([]);
+});
@@ -0,0 +1,91 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+
+let simulator: SimulatedLocationModule;
+let tracker: LocationTracker;
+
+beforeEach(() => {
+  // Standing still for five minutes, one fix every 10 seconds
+  simulator = new SimulatedLocationModule({
+    track: Array.from({ length: 31 }, (_, step) => ({
+      latitude: 12.97 + (step % 2) * 0.00001,
+      longitude: 77.59,
+      time: START + step * 10000,
+    })),
+  });
+  tracker = new LocationTracker({
+    storage: new MemoryStorageAdapter(),
+    nativeModule: simulator,
+    config: { idleThresholdMs: 2 * 60 * 1000, idleReportIntervalMs: 2 * 60 * 1000 },
+  });
+});
+
+afterEach(async () => {
+  await tracker.cleanup();
+});
+
+async function replay(steps = 30) {
+  await tracker.startTracking();
+  for (let step = 0; step < steps; step++) {
+    simulator.advanceBy(10000);
+    await flush();
+  }
+}
+
+test('queues an idle event once the threshold is crossed, then once per report interval', async () => {
+  await replay();
+
+  const idleReports = (await tracker.debugStoredLocations()).filter(location => location.isIdle);
+  expect(idleReports).toHaveLength(2);
+  expect(idleReports[0]).toMatchObject({ latitude: 12.97, longitude: 77.59 });
+  expect(idleReports[0].idleDuration).toBeGreaterThanOrEqual(2 * 60 * 1000);
+  expect(Date.parse(idleReports[0].timestamp)).toBeLessThan(START + 60 * 1000);
+  expect(idleReports[1].idleDuration).toBeGreaterThanOrEqual(4 * 60 * 1000);
+});
+
+test('uploads idle events with their start time and duration', async () => {
+  await replay();
+  await tracker.syncBackgroundLocations();
+
+  const bodies = (global.fetch as jest.Mock).mock.calls.map(([, init]) => JSON.parse(init.body));
+  const idle = bodies.filter(body => body.isIdle);
+  expect(idle).toHaveLength(2);
+  expect(idle[0]).toEqual(
+    expect.objectContaining({
+      latitude: 12.97,
+      longitude: 77.59,
+      timestamp: expect.any(String),
+      idleDuration: expect.any(Number),
+    })
+  );
+  expect(await tracker.debugStoredLocations()).toHaveLength(0);
+});
+
+test('dates every report of a stop from its first stationary fix or idle event, and starts over after a move', async () => {
+  // Two stops of four minutes each, 220 m apart. The simulator forces a fix every 15 s and sends
+  // idle events in between, so both report paths see each stop.
+  simulator.loadTrack(
+    Array.from({ length: 49 }, (_, step) => ({
+      latitude: (step < 25 ? 12.97 : 12.972) + (step % 2) * 0.00001,
+      longitude: 77.59,
+      time: START + step * 10000,
+    })),
+  );
+  await replay(48);
+
+  const idleReports = (await tracker.debugStoredLocations()).filter(location => location.isIdle);
+  expect(idleReports.map(location => [location.timestamp, location.idleDuration])).toEqual([
+    ['2024-05-01T08:00:10.000Z', 2 * 60 * 1000],
+    ['2024-05-01T08:04:20.000Z', 2 * 60 * 1000],
+  ]);
+  expect(idleReports[1].latitude).toBeCloseTo(12.972, 4);
+});
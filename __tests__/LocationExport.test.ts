@@ -0,0 +1,86 @@
+/**
+ * @format
+ */
+
+import LocationTracker, { LocationUpdate } from '../src/NewArchitecture/LocationTracker';
+import { exportLocations } from '../src/NewArchitecture/LocationExport';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+
+const locations: LocationUpdate[] = [
+  {
+    latitude: 12.9716,
+    longitude: 77.5946,
+    altitude: 920,
+    timestamp: '2024-05-01T08:00:00.000Z',
+    accuracy: 5,
+    speed: 0,
+    updateReason: 'first_location',
+    isCurrentlyIdle: false,
+    totalIdleTimeBelowThreshold: 0,
+  },
+  {
+    latitude: 12.9726,
+    longitude: 77.5946,
+    timestamp: '2024-05-01T08:00:30.000Z',
+    accuracy: 8,
+    speed: 3.7,
+    updateReason: 'force_update, "stale"',
+    isCurrentlyIdle: true,
+    totalIdleTimeBelowThreshold: 25000,
+    outsideVisitIdleTime: 25000,
+  },
+];
+
+test('CSV keeps metadata columns and quotes awkward values', () => {
+  const [header, first, second] = exportLocations(locations, 'csv').trim().split('\n');
+
+  expect(header).toBe(
+    'timestamp,latitude,longitude,altitude,accuracy,speed,updateReason,isCurrentlyIdle,' +
+      'totalIdleTimeBelowThreshold,outsideVisitIdleTime,isBelowDistanceThreshold,displacement',
+  );
+  expect(first).toBe('2024-05-01T08:00:00.000Z,12.9716,77.5946,920,5,0,first_location,false,0,,,');
+  expect(second).toBe('2024-05-01T08:00:30.000Z,12.9726,77.5946,,8,3.7,"force_update, ""stale""",true,25000,25000,,');
+});
+
+test('GeoJSON exports a LineString with per-vertex metadata or one feature per point', () => {
+  const line = JSON.parse(exportLocations(locations, 'geojson', { geoJsonType: 'LineString' }));
+  expect(line.geometry.coordinates).toEqual([[77.5946, 12.9716, 920], [77.5946, 12.9726]]);
+  expect(line.properties.coordTimes).toEqual(locations.map(location => location.timestamp));
+  expect(line.properties.speed).toEqual([0, 3.7]);
+
+  const collection = JSON.parse(exportLocations(locations, 'geojson'));
+  expect(collection.features).toHaveLength(2);
+  expect(collection.features[1].properties).toMatchObject({ time: locations[1].timestamp, isCurrentlyIdle: true });
+});
+
+test('GPX and KML carry timestamps and escaped metadata', () => {
+  const gpx = exportLocations(locations, 'gpx', { name: 'Morning <walk>' });
+  expect(gpx).toContain('<name>Morning &lt;walk&gt;</name>');
+  expect(gpx).toContain('<trkpt lat="12.9716" lon="77.5946">');
+  expect(gpx).toContain('<ele>920</ele>');
+  expect(gpx).toContain('<lt:updateReason>force_update, &quot;stale&quot;</lt:updateReason>');
+
+  const kml = exportLocations(locations, 'kml');
+  expect(kml).toContain('<when>2024-05-01T08:00:30.000Z</when>');
+  expect(kml).toContain('<gx:coord>77.5946 12.9726</gx:coord>');
+  expect(kml).toContain('<gx:SimpleArrayData name="totalIdleTimeBelowThreshold">');
+});
+
+test('tracker exports recorded history within a time range', async () => {
+  const start = Date.now();
+  const simulator = new SimulatedLocationModule({
+    track: [0, 1, 2, 3].map(step => ({ latitude: 12.97 + step * 0.001, longitude: 77.59, time: start + step * 20000 })),
+  });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+
+  await tracker.startTracking(() => {});
+  simulator.advanceToEnd();
+  await new Promise(resolve => setImmediate(resolve));
+
+  expect(await tracker.getLocationHistory()).toHaveLength(4);
+  const csv = await tracker.exportLocationHistory('csv', { from: start + 20000, to: start + 40000 });
+  expect(csv.trim().split('\n')).toHaveLength(3);
+
+  await tracker.cleanup();
+});
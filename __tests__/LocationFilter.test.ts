@@ -0,0 +1,113 @@
+/**
+ * @format
+ */
+
+import LocationTracker, { RejectedFixEvent } from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+import { LocationFilter, resolveFilterConfig } from '../src/NewArchitecture/LocationFilter';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+
+const fix = (seconds: number, latitude: number, accuracy = 5) => ({
+  latitude,
+  longitude: 77.59,
+  timestamp: new Date(START + seconds * 1000).toISOString(),
+  accuracy,
+});
+
+test('rejects inaccurate, out-of-order, stale and impossibly fast fixes', () => {
+  const filter = new LocationFilter(resolveFilterConfig({ maxFixAgeMs: 60000 }), () => START + 100000);
+
+  expect(filter.process(fix(50, 12.97)).accepted).toBe(true);
+  expect(filter.process(fix(60, 12.9701, 500))).toMatchObject({ accepted: false, reason: 'accuracy' });
+  expect(filter.process(fix(40, 12.9701))).toMatchObject({ accepted: false, reason: 'stale' });
+  expect(filter.process(fix(10, 12.9701))).toMatchObject({ accepted: false, reason: 'stale' });
+  // ~11 km in 10 s
+  expect(filter.process(fix(60, 13.07))).toMatchObject({ accepted: false, reason: 'speed' });
+  expect(filter.process(fix(70, 12.9705)).accepted).toBe(true);
+
+  expect(filter.getStats()).toMatchObject({
+    accepted: 2,
+    rejected: { accuracy: 1, speed: 1, stale: 2 },
+    totalRejected: 4,
+  });
+});
+
+test('accepts a new position after repeated speed rejections', () => {
+  const filter = new LocationFilter(resolveFilterConfig({ maxConsecutiveSpeedRejections: 2 }));
+
+  filter.process(fix(0, 13.07)); // bad first fix
+  expect(filter.process(fix(10, 12.97)).accepted).toBe(false);
+  expect(filter.process(fix(20, 12.97)).accepted).toBe(true);
+  expect(filter.process(fix(30, 12.9701)).accepted).toBe(true);
+});
+
+test('smooths noisy positions towards the accurate ones', () => {
+  const filter = new LocationFilter(resolveFilterConfig({ smoothing: true }));
+
+  filter.process(fix(0, 12.97, 5));
+  const result = filter.process(fix(1, 12.9702, 50)); // ~22 m jump reported with 50 m accuracy
+
+  expect(result.accepted).toBe(true);
+  if (result.accepted) {
+    expect(result.fix.latitude).toBeGreaterThan(12.97);
+    expect(result.fix.latitude).toBeLessThan(12.97001);
+  }
+});
+
+test('reports rejected fixes from the tracker instead of storing them', async () => {
+  const simulator = new SimulatedLocationModule({
+    track: [
+      { latitude: 12.97, longitude: 77.59, time: START },
+      { latitude: 12.98, longitude: 77.59, time: START + 60000, accuracy: 500 },
+      { latitude: 12.971, longitude: 77.59, time: START + 120000 },
+    ],
+  });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+  const rejected: RejectedFixEvent[] = [];
+  const accepted = jest.fn();
+  tracker.on('fixRejected', event => rejected.push(event));
+  tracker.on('location', accepted);
+
+  await tracker.startTracking();
+  simulator.advanceToEnd();
+  await new Promise(resolve => setImmediate(resolve));
+
+  expect(rejected).toHaveLength(1);
+  expect(rejected[0]).toMatchObject({ reason: 'accuracy', location: { latitude: 12.98 } });
+  expect(accepted).toHaveBeenCalledTimes(2);
+  expect(tracker.getFilterStats()).toMatchObject({ accepted: 2, totalRejected: 1 });
+  expect(await tracker.debugStoredLocations()).toHaveLength(2);
+
+  await tracker.cleanup();
+});
+
+test('processes accepted fixes one at a time, in arrival order', async () => {
+  // Saving the first fix as the last location is slow; a later fix must not overtake it
+  class SlowFirstSaveStorage extends MemoryStorageAdapter {
+    private delayed = false;
+
+    async setItem(key: string, value: string): Promise<void> {
+      if (key === 'last_location' && !this.delayed) {
+        this.delayed = true;
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      return super.setItem(key, value);
+    }
+  }
+  const storage = new SlowFirstSaveStorage();
+  const simulator = new SimulatedLocationModule({
+    track: [12.97, 12.971, 12.972].map((latitude, step) => ({ latitude, longitude: 77.59, time: START + step * 60000 })),
+  });
+  const tracker = new LocationTracker({ storage, nativeModule: simulator });
+
+  await tracker.startTracking();
+  simulator.advanceToEnd();
+  await new Promise(resolve => setTimeout(resolve, 50));
+
+  expect(JSON.parse((await storage.getItem('last_location'))!)).toMatchObject({ latitude: 12.972 });
+  expect((await tracker.debugStoredLocations()).map(location => location.latitude)).toEqual([12.97, 12.971, 12.972]);
+
+  await tracker.cleanup();
+});
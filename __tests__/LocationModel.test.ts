@@ -0,0 +1,81 @@
+/**
+ * @format
+ */
+
+import { DeviceEventEmitter } from 'react-native';
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import {
+  LocationValidationError,
+  normalizeLocation,
+  validateLocation,
+} from '../src/NewArchitecture/LocationModel';
+
+const TIME = Date.parse('2024-05-01T08:00:00.000Z');
+
+test('normalizes native payloads from either platform', () => {
+  expect(
+    normalizeLocation({
+      latitude: 12.97,
+      longitude: 77.59,
+      timestamp: TIME,
+      accuracy: 8,
+      speed: -1,
+      heading: -1,
+      altitude: 920,
+      isCurrentlyIdle: false,
+      outsideVist_Total_IdleTime: 4000,
+      updateReason: 'location_update',
+      provider: 'fused',
+    }),
+  ).toEqual({
+    latitude: 12.97,
+    longitude: 77.59,
+    timestamp: '2024-05-01T08:00:00.000Z',
+    accuracy: 8,
+    altitude: 920,
+    isCurrentlyIdle: false,
+    outsideVisitIdleTime: 4000,
+    updateReason: 'location_update',
+  });
+
+  expect(normalizeLocation({ latitude: 0, longitude: 0, timestamp: '2024-05-01T08:00:00Z', accuracy: 'n/a' })).toEqual({
+    latitude: 0,
+    longitude: 0,
+    timestamp: '2024-05-01T08:00:00.000Z',
+  });
+});
+
+test('reports malformed payloads as typed errors', () => {
+  const cases: Array<[unknown, string, string | undefined]> = [
+    ['nope', 'NOT_AN_OBJECT', undefined],
+    [{ latitude: -999, longitude: -999, timestamp: TIME }, 'INVALID_COORDINATES', 'latitude'],
+    [{ latitude: 12.97, longitude: '77.59', timestamp: TIME }, 'INVALID_COORDINATES', 'longitude'],
+    [{ latitude: 12.97, longitude: 77.59, timestamp: 'yesterday' }, 'INVALID_TIMESTAMP', 'timestamp'],
+  ];
+
+  for (const [payload, code, field] of cases) {
+    const result = validateLocation(payload);
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.error).toBeInstanceOf(LocationValidationError);
+      expect(result.error).toMatchObject({ code, field, payload });
+    }
+  }
+});
+
+test('the tracker drops invalid fixes and reports them', async () => {
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: new SimulatedLocationModule() });
+  const invalid = jest.fn();
+  const location = jest.fn();
+  tracker.on('invalidPayload', invalid);
+  tracker.on('location', location);
+
+  DeviceEventEmitter.emit('onLocationUpdate', { kind: 'fix', version: 1, latitude: 91, longitude: 77.59, timestamp: TIME });
+
+  expect(location).not.toHaveBeenCalled();
+  expect(invalid).toHaveBeenCalledWith(expect.objectContaining({ code: 'INVALID_COORDINATES', field: 'latitude' }));
+
+  await tracker.cleanup();
+});
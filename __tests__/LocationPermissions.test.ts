@@ -0,0 +1,107 @@
+/**
+ * @format
+ */
+
+import { Linking } from 'react-native';
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import {
+  decodeAccuracyAuthorization,
+  decodePermission,
+  nextPermissionAction,
+} from '../src/NewArchitecture/LocationPermissions';
+import type { PermissionStatus } from '../src/NewArchitecture/LocationPermissions';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+
+test('decodes current and legacy native payloads into typed states', () => {
+  expect(decodePermission({ status: 'foreground', accuracy: 'reduced', canAskAgain: true })).toEqual({
+    status: 'foreground',
+    accuracy: 'reduced',
+    canAskAgain: true,
+  });
+  // Older Android builds
+  expect(decodePermission({ status: 'granted', accuracy: 'full', accuracyStatus: 1 })).toMatchObject({
+    status: 'foreground',
+    accuracy: 'precise',
+  });
+  // Older iOS builds: CLAuthorizationStatus names and raw values
+  expect(decodePermission({ status: 'authorizedAlways' })).toMatchObject({ status: 'background', canAskAgain: false });
+  expect(decodePermission({ status: 4, accuracyStatus: 2 })).toMatchObject({ status: 'foreground', accuracy: 'reduced' });
+  expect(decodePermission({ status: 2 })).toEqual({ status: 'denied', accuracy: 'none', canAskAgain: false });
+  expect(decodePermission({ status: 'maybe' })).toBeNull();
+  expect(decodePermission(null)).toBeNull();
+});
+
+test('reads accuracy authorization the same way on both platforms', () => {
+  expect(decodeAccuracyAuthorization(1)).toBe('precise');
+  expect(decodeAccuracyAuthorization(0)).toBe('reduced'); // iOS
+  expect(decodeAccuracyAuthorization(2)).toBe('reduced'); // Android
+  expect(decodeAccuracyAuthorization(undefined)).toBeNull();
+});
+
+test('guides from not determined to background, then to settings once prompts are used up', () => {
+  const state = (status: PermissionStatus, canAskAgain = true) => ({ status, accuracy: 'precise' as const, canAskAgain });
+
+  expect(nextPermissionAction(state('notDetermined'), true)).toBe('request');
+  expect(nextPermissionAction(state('foreground'), false)).toBe('none');
+  expect(nextPermissionAction(state('foreground'), true)).toBe('requestBackground');
+  expect(nextPermissionAction(state('foreground', false), true)).toBe('openSettings');
+  expect(nextPermissionAction(state('denied', false), false)).toBe('openSettings');
+  expect(nextPermissionAction(state('restricted', false), false)).toBe('unavailable');
+  expect(nextPermissionAction(state('background', false), true)).toBe('none');
+});
+
+test('ensureLocationPermission explains each step before prompting', async () => {
+  const simulator = new SimulatedLocationModule({ permission: 'notDetermined' });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+  const changes = jest.fn();
+  tracker.on('permissionChange', changes);
+  const explain = jest.fn().mockResolvedValue(true);
+
+  const state = await tracker.ensureLocationPermission({ background: true, explain });
+
+  expect(state).toEqual({ status: 'background', accuracy: 'precise', canAskAgain: false });
+  expect(explain.mock.calls.map(([action]) => action)).toEqual(['request', 'requestBackground']);
+  expect(changes.mock.calls.map(([next, previous]) => [previous?.status ?? null, next.status])).toEqual([
+    [null, 'notDetermined'],
+    ['notDetermined', 'foreground'],
+    ['foreground', 'background'],
+  ]);
+
+  await tracker.cleanup();
+});
+
+test('sends a permanently denied user to settings', async () => {
+  const openSettings = jest.spyOn(Linking, 'openSettings').mockResolvedValue(undefined);
+  const simulator = new SimulatedLocationModule({ permission: 'denied', canAskAgain: false });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+
+  const state = await tracker.ensureLocationPermission();
+
+  expect(state).toMatchObject({ status: 'denied', canAskAgain: false });
+  expect(openSettings).toHaveBeenCalledTimes(1);
+  expect(await tracker.startTracking()).toBe(false);
+
+  await tracker.cleanup();
+});
+
+test('stops tracking when permission is revoked mid-session', async () => {
+  const simulator = new SimulatedLocationModule({
+    track: [{ latitude: 12.97, longitude: 77.59, time: Date.parse('2024-05-01T08:00:00.000Z') }],
+  });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+  const trackingChanges = jest.fn();
+  tracker.on('trackingChange', trackingChanges);
+
+  await tracker.startTracking();
+  simulator.setPermission('foreground', 'reduced');
+  expect(tracker.isCurrentlyTracking).toBe(true);
+
+  simulator.setPermission('denied');
+
+  expect(tracker.isCurrentlyTracking).toBe(false);
+  expect(trackingChanges.mock.calls).toEqual([[true], [false]]);
+  expect(tracker.getPermissionState()).toMatchObject({ status: 'denied', accuracy: 'none' });
+
+  await tracker.cleanup();
+});
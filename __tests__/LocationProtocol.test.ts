@@ -0,0 +1,57 @@
+/**
+ * @format
+ */
+
+import { decodeLocationEvent, EVENT_PROTOCOL_VERSION } from '../src/NewArchitecture/LocationProtocol';
+import { LocationValidationError } from '../src/NewArchitecture/LocationModel';
+
+const TIME = Date.parse('2024-05-01T08:00:00.000Z');
+
+test('decodes each event kind', () => {
+  expect(
+    decodeLocationEvent({ kind: 'fix', version: 1, latitude: 12.97, longitude: 77.59, accuracy: 5, timestamp: TIME }),
+  ).toMatchObject({ kind: 'fix', version: 1, timestamp: TIME, location: { latitude: 12.97, accuracy: 5 } });
+
+  expect(
+    decodeLocationEvent({ kind: 'idle', version: 1, reason: 'periodic', idleTime: 60000, isCurrentlyIdle: true, timestamp: TIME }),
+  ).toMatchObject({ kind: 'idle', idleTime: 60000, outsideVisitIdleTime: 60000, reason: 'periodic' });
+
+  expect(decodeLocationEvent({ kind: 'heartbeat', version: 1, timestamp: TIME, lastLocationUpdateTime: TIME - 1000 })).toEqual({
+    kind: 'heartbeat',
+    version: 1,
+    timestamp: TIME,
+    lastLocationUpdateTime: TIME - 1000,
+  });
+
+  expect(decodeLocationEvent({ kind: 'status', status: 'started', timestamp: TIME })).toMatchObject({
+    kind: 'status',
+    version: EVENT_PROTOCOL_VERSION,
+    status: 'started',
+  });
+});
+
+test('decodes payloads from native builds without a kind', () => {
+  expect(
+    decodeLocationEvent({ latitude: -999, longitude: -999, type: 'idle_time_only', idleTime: 30000, timestamp: TIME }),
+  ).toMatchObject({ kind: 'idle', version: 0, reason: 'stationary', idleTime: 30000 });
+
+  expect(
+    decodeLocationEvent({ latitude: NaN, longitude: NaN, totalIdleTimeBelowThreshold: 5000, outsideVist_Total_IdleTime: 2000 }),
+  ).toMatchObject({ kind: 'idle', reason: 'periodic', idleTime: 5000, outsideVisitIdleTime: 2000 });
+
+  expect(decodeLocationEvent({ latitude: 12.97, longitude: 77.59, timestamp: TIME })).toMatchObject({ kind: 'fix', version: 0 });
+});
+
+test('ignores unknown kinds and rejects fixes without coordinates', () => {
+  expect(decodeLocationEvent({ kind: 'teleport', version: 2 })).toBeNull();
+  expect(decodeLocationEvent(null)).toBeNull();
+  expect(() => decodeLocationEvent({ kind: 'fix', latitude: NaN, longitude: 77.59, timestamp: TIME })).toThrow(
+    LocationValidationError,
+  );
+  // Without a kind, only the idle placeholders mark idle time; a missing coordinate is a bad fix
+  expect(() => decodeLocationEvent({ longitude: 77.59, timestamp: TIME })).toThrow(LocationValidationError);
+  expect(() => decodeLocationEvent({ latitude: 12.97, longitude: Infinity, timestamp: TIME })).toThrow(
+    LocationValidationError,
+  );
+
+});
@@ -0,0 +1,171 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+import {
+  LocationProvider,
+  useIdleState,
+  useLastLocation,
+  useLocationTracker,
+  useSyncStatus,
+} from '../src/NewArchitecture/LocationProvider';
+import { useLocationTracking, UseLocationTrackingReturn } from '../src/NewArchitecture/useLocationTracking';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+
+test('components under one provider share the tracker state', async () => {
+  const simulator = new SimulatedLocationModule({
+    track: [
+      { latitude: 12.97, longitude: 77.59, time: START },
+      { latitude: 12.971, longitude: 77.59, time: START + 60000 },
+    ],
+  });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+
+  let controls: UseLocationTrackingReturn | undefined;
+  const seen: Record<string, unknown> = {};
+  const Controls = () => {
+    controls = useLocationTracking();
+    return null;
+  };
+  const Badge = () => {
+    seen.lastLocation = useLastLocation();
+    seen.idle = useIdleState();
+    seen.sync = useSyncStatus();
+    return null;
+  };
+
+  await ReactTestRenderer.act(async () => {
+    ReactTestRenderer.create(
+      <LocationProvider tracker={tracker}>
+        <Controls />
+        <Badge />
+      </LocationProvider>,
+    );
+  });
+
+  await ReactTestRenderer.act(async () => {
+    await controls!.startTracking();
+  });
+  expect(controls!.isTracking).toBe(true);
+
+  await ReactTestRenderer.act(async () => {
+    simulator.advanceToEnd();
+    await new Promise(resolve => setImmediate(resolve));
+  });
+
+  expect(controls!.lastLocation).toMatchObject({ latitude: 12.971 });
+  expect(seen.lastLocation).toBe(controls!.lastLocation);
+  expect(seen.idle).toMatchObject({ isCurrentlyIdle: false });
+  expect(seen.sync).toMatchObject({ isSyncing: false, pendingCount: expect.any(Number) });
+
+  await ReactTestRenderer.act(async () => {
+    await tracker.stopTracking();
+  });
+  expect(controls!.isTracking).toBe(false);
+
+  await tracker.cleanup();
+});
+
+test('a provider that owns its tracker survives a StrictMode remount', async () => {
+  const cleanup = jest.spyOn(LocationTracker.prototype, 'cleanup');
+  const options = { storage: new MemoryStorageAdapter(), nativeModule: new SimulatedLocationModule() };
+
+  let tracker: LocationTracker | undefined;
+  let controls: UseLocationTrackingReturn | undefined;
+  const Controls = () => {
+    tracker = useLocationTracker();
+    controls = useLocationTracking();
+    return null;
+  };
+
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(
+      <React.StrictMode>
+        <LocationProvider options={options}>
+          <Controls />
+        </LocationProvider>
+      </React.StrictMode>,
+    );
+  });
+
+  // The first tracker went with the first mount; the one children see is still live
+  expect(cleanup).toHaveBeenCalledTimes(1);
+  expect(cleanup.mock.contexts[0]).not.toBe(tracker);
+  await ReactTestRenderer.act(async () => {
+    await controls!.startTracking();
+  });
+  expect(controls!.isTracking).toBe(true);
+
+  await ReactTestRenderer.act(async () => {
+    renderer.unmount();
+  });
+  expect(cleanup).toHaveBeenCalledTimes(2);
+  expect(cleanup.mock.contexts[1]).toBe(tracker);
+});
+
+test('hooks outside a provider fail loudly', () => {
+  const Orphan = () => {
+    useLastLocation();
+    return null;
+  };
+
+  expect(() => ReactTestRenderer.act(() => {
+    ReactTestRenderer.create(<Orphan />);
+  })).toThrow('inside a <LocationProvider>');
+});
+
+test('handlers passed to the hook fire without re-subscribing on re-render', async () => {
+  const simulator = new SimulatedLocationModule({
+    track: [
+      { latitude: 12.97, longitude: 77.59, time: START },
+      { latitude: 12.971, longitude: 77.59, time: START + 60000 },
+    ],
+  });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+  const on = jest.spyOn(tracker, 'on');
+  const first = jest.fn();
+  const latest = jest.fn();
+
+  const Listener = ({ onLocationUpdate }: { onLocationUpdate: (location: unknown) => void }) => {
+    useLocationTracking({ onLocationUpdate });
+    return null;
+  };
+
+  let renderer: ReactTestRenderer.ReactTestRenderer;
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(
+      <LocationProvider tracker={tracker}>
+        <Listener onLocationUpdate={first} />
+      </LocationProvider>,
+    );
+  });
+  const subscriptions = on.mock.calls.length;
+
+  await ReactTestRenderer.act(async () => {
+    renderer.update(
+      <LocationProvider tracker={tracker}>
+        <Listener onLocationUpdate={latest} />
+      </LocationProvider>,
+    );
+  });
+  expect(on.mock.calls.length).toBe(subscriptions);
+
+  await ReactTestRenderer.act(async () => {
+    await tracker.startTracking();
+    simulator.advanceToEnd();
+    await new Promise(resolve => setImmediate(resolve));
+  });
+
+  expect(first).not.toHaveBeenCalled();
+  expect(latest).toHaveBeenCalledTimes(2);
+  expect(latest).toHaveBeenLastCalledWith(expect.objectContaining({ latitude: 12.971 }));
+
+  await tracker.cleanup();
+});
@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import { LocationQueue } from '../src/NewArchitecture/LocationQueue';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+
+interface Item {
+  id: string;
+  value: number;
+}
+
+const items = (from: number, to: number): Item[] =>
+  Array.from({ length: to - from }, (_, i) => ({ id: `item-${from + i}`, value: from + i }));
+
+const ids = (list: Item[]) => list.map(item => item.id);
+
+test('appends, peeks and removes across chunk boundaries', async () => {
+  const storage = new MemoryStorageAdapter();
+  const queue = new LocationQueue<Item>(storage, 'test_queue', 3);
+
+  expect(await queue.append(items(0, 2))).toBe(2);
+  expect(await queue.append(items(2, 8))).toBe(8);
+  // 8 items at 3 per chunk: the tail chunk was filled before new chunks were opened
+  expect((await storage.getAllKeys()).filter(key => key.startsWith('test_queue_chunk_'))).toHaveLength(3);
+
+  expect(ids(await queue.peek(4))).toEqual(ids(items(0, 4)));
+  expect(ids(await queue.peek(4, 2))).toEqual(ids(items(2, 6)));
+  expect(await queue.peek(10, 7)).toEqual(items(7, 8));
+
+  // Removing a whole chunk and part of the next one
+  expect(await queue.remove(ids(items(0, 4)))).toBe(4);
+  expect(ids(await queue.peek(10))).toEqual(ids(items(4, 8)));
+  expect(await storage.getItem('test_queue_chunk_0')).toBeNull();
+
+  // Items past the head keep their position when others are removed
+  expect(await queue.remove(['item-6'])).toBe(3);
+  expect(ids(await queue.peek(10))).toEqual(['item-4', 'item-5', 'item-7']);
+
+  // A second queue on the same storage sees the persisted state
+  const reopened = new LocationQueue<Item>(storage, 'test_queue', 3);
+  expect(await reopened.size()).toBe(3);
+  expect(ids(await reopened.peek(1))).toEqual(['item-4']);
+
+  await reopened.clear();
+  expect(await reopened.size()).toBe(0);
+  expect(await storage.getAllKeys()).toEqual([]);
+});
+
+test('keeps operations in call order', async () => {
+  const queue = new LocationQueue<Item>(new MemoryStorageAdapter(), 'test_queue', 2);
+
+  const results = await Promise.all([
+    queue.append(items(0, 3)),
+    queue.remove(['item-0']),
+    queue.append(items(3, 4)),
+    queue.peek(10),
+  ]);
+
+  expect(results.slice(0, 3)).toEqual([3, 2, 3]);
+  expect(ids(results[3] as Item[])).toEqual(['item-1', 'item-2', 'item-3']);
+});
+
+test('migrates a legacy array once, assigning missing ids and dropping entries that are not objects', async () => {
+  const storage = new MemoryStorageAdapter();
+  await storage.setItem(
+    'legacy_locations',
+    JSON.stringify([{ id: 'kept', value: 1 }, null, { value: 2 }, 'junk', { id: '', value: 3 }]),
+  );
+  const queue = new LocationQueue<Item>(storage, 'test_queue', 2);
+  let next = 0;
+
+  expect(await queue.migrateFromArray('legacy_locations', item => ({ ...item, id: `new-${next++}` }) as Item)).toBe(3);
+  expect(await queue.peek(10)).toEqual([
+    { id: 'kept', value: 1 },
+    { id: 'new-0', value: 2 },
+    { id: 'new-1', value: 3 },
+  ]);
+  expect(await storage.getItem('legacy_locations')).toBeNull();
+
+  expect(await queue.migrateFromArray('legacy_locations', item => item as Item)).toBe(0);
+  expect(await queue.size()).toBe(3);
+});
+
+test('discards corrupt legacy data instead of failing on every launch', async () => {
+  const storage = new MemoryStorageAdapter();
+  await storage.setItem('legacy_locations', '[{"value": 1},');
+  await storage.setItem('legacy_object', JSON.stringify({ value: 1 }));
+  const queue = new LocationQueue<Item>(storage, 'test_queue', 2);
+
+  expect(await queue.migrateFromArray('legacy_locations', item => item as Item)).toBe(0);
+  expect(await queue.migrateFromArray('legacy_object', item => item as Item)).toBe(0);
+  expect(await queue.size()).toBe(0);
+  expect(await storage.getItem('legacy_locations')).toBeNull();
+  expect(await storage.getItem('legacy_object')).toBeNull();
+  expect(console.error).toHaveBeenCalledTimes(1);
+});
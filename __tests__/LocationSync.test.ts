@@ -0,0 +1,77 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { SyncConfig, resolveSyncConfig, sendLocationToServer } from '../src/NewArchitecture/LocationSync';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+const flush = () => new Promise(resolve => setImmediate(resolve));
+const fetchMock = jest.fn<Promise<Partial<Response>>, [string, RequestInit]>();
+// Typed stand-in for the fetch mock from jest.setup.js, which resets it before each test
+global.fetch = fetchMock as unknown as typeof fetch;
+
+const respond = (status: number): Partial<Response> => ({ ok: status < 300, status, json: async () => ({}) });
+const headersOf = (call: number) => fetchMock.mock.calls[call][1].headers as Record<string, string>;
+
+function configWith(overrides: Partial<SyncConfig>): SyncConfig {
+  return resolveSyncConfig({ baseUrl: 'https://api.example.com/', userId: 'user-1', deviceId: 'device-1', ...overrides });
+}
+
+test('builds the request from the configured endpoint, identity and headers', async () => {
+  fetchMock.mockResolvedValue(respond(200));
+  const config = configWith({ headers: { 'X-Tenant': 'acme' }, getAuthToken: async () => 'token-1' });
+
+  await sendLocationToServer(12.97, 77.59, new Date(START), false, undefined, config);
+
+  const [url, request] = fetchMock.mock.calls[0];
+  expect(url).toBe('https://api.example.com/api/location/update');
+  expect(request.method).toBe('POST');
+  expect(headersOf(0)).toMatchObject({ 'X-Tenant': 'acme', Authorization: 'Bearer token-1' });
+  expect(JSON.parse(request.body as string)).toMatchObject({
+    userId: 'user-1',
+    deviceId: 'device-1',
+    latitude: 12.97,
+    longitude: 77.59,
+    timestamp: '2024-05-01T08:00:00.000Z',
+  });
+});
+
+test('refreshes the token once after a 401 and retries with the new one', async () => {
+  fetchMock.mockResolvedValueOnce(respond(401)).mockResolvedValueOnce(respond(200));
+  const getAuthToken = jest.fn(async (forceRefresh: boolean) => (forceRefresh ? 'fresh' : 'expired'));
+
+  await sendLocationToServer(12.97, 77.59, new Date(START), false, undefined, configWith({ getAuthToken }));
+
+  expect(getAuthToken.mock.calls).toEqual([[false], [true]]);
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+  expect(headersOf(0).Authorization).toBe('Bearer expired');
+  expect(headersOf(1).Authorization).toBe('Bearer fresh');
+  expect(fetchMock.mock.calls[1][1].body).toBe(fetchMock.mock.calls[0][1].body);
+});
+
+test('keeps the batch queued when the token refresh fails', async () => {
+  fetchMock.mockResolvedValue(respond(401));
+  const getAuthToken = jest.fn(async (forceRefresh: boolean) => {
+    if (forceRefresh) {
+      throw new Error('refresh token revoked');
+    }
+    return 'expired';
+  });
+  const tracker = new LocationTracker({
+    storage: new MemoryStorageAdapter(),
+    sync: configWith({ getAuthToken, batchUpload: true }),
+  });
+  await flush();
+  await tracker.storeBackgroundLocation(12.97, 77.59, new Date(START));
+  await tracker.storeBackgroundLocation(12.971, 77.59, new Date(START + 60000));
+
+  expect(await tracker.forceSync()).toBe(2);
+
+  // The request was never retried, so nothing counts against the points
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+  expect((await tracker.peekPendingLocations()).map(location => location.attempts)).toEqual([undefined, undefined]);
+
+  await tracker.cleanup();
+});
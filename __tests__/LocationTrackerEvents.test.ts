@@ -0,0 +1,96 @@
+/**
+ * @format
+ */
+
+import LocationTracker, {
+  IdleUpdate,
+  LocationUpdate,
+  SyncCompletedEvent,
+  SyncFailedEvent,
+} from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+let simulator: SimulatedLocationModule;
+let tracker: LocationTracker;
+
+beforeEach(() => {
+  const start = Date.now();
+  simulator = new SimulatedLocationModule({
+    // A fix, two stationary idle-only updates, then a fix 220 m away
+    track: [0, 0.00001, 0.00002, 0.002].map((offset, step) => ({
+      latitude: 12.97 + offset,
+      longitude: 77.59,
+      time: start + step * 5000,
+    })),
+  });
+  tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+});
+
+afterEach(async () => {
+  await tracker.cleanup();
+});
+
+test('delivers location and idle updates to every subscriber', async () => {
+  const screen: LocationUpdate[] = [];
+  const service: LocationUpdate[] = [];
+  const idle: IdleUpdate[] = [];
+  tracker.on('location', location => screen.push(location));
+  const unsubscribe = tracker.on('location', location => service.push(location));
+  tracker.on('idle', update => idle.push(update));
+
+  await tracker.startTracking();
+  simulator.advanceBy(5000);
+  unsubscribe();
+  simulator.advanceToEnd();
+  await flush();
+
+  expect(screen).toHaveLength(2);
+  expect(service).toHaveLength(1);
+  expect(idle).toHaveLength(2);
+  expect(idle[1]).toMatchObject({ idleTimeMs: 5000, isCurrentlyIdle: true });
+});
+
+test('forwards native errors and permission changes', async () => {
+  const errors = jest.fn();
+  const permissions = jest.fn();
+  tracker.on('error', errors);
+  tracker.on('permissionChange', permissions);
+
+  await tracker.startTracking();
+  simulator.emitError({ error: 'GPS signal lost' });
+  simulator.setPermission('denied');
+
+  expect(errors).toHaveBeenCalledWith(expect.objectContaining({ error: 'GPS signal lost' }));
+  expect(errors).toHaveBeenCalledWith(expect.objectContaining({ error: 'Location permission revoked' }));
+  expect(permissions).toHaveBeenLastCalledWith(
+    expect.objectContaining({ status: 'denied' }),
+    expect.objectContaining({ status: 'background' }),
+  );
+});
+
+test('reports sync start, completion and failure', async () => {
+  const started = jest.fn();
+  const completed: SyncCompletedEvent[] = [];
+  const failed: SyncFailedEvent[] = [];
+  tracker.on('syncStarted', started);
+  tracker.on('syncCompleted', event => completed.push(event));
+  tracker.on('syncFailed', event => failed.push(event));
+
+  await tracker.storeBackgroundLocation(12.97, 77.59, new Date());
+  await tracker.storeBackgroundLocation(12.98, 77.59, new Date());
+  await tracker.syncBackgroundLocations();
+
+  expect(started).toHaveBeenCalledWith({ pendingCount: 2 });
+  expect(completed).toEqual([{ syncedCount: 2, remainingCount: 0 }]);
+
+  (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500, json: async () => ({}) });
+  await tracker.storeBackgroundLocation(12.99, 77.59, new Date());
+  await tracker.syncBackgroundLocations();
+
+  expect(failed).toHaveLength(1);
+  expect(failed[0]).toMatchObject({ pendingCount: 1, consecutiveFailures: 1 });
+  expect(failed[0].nextAttemptAt).toBeGreaterThan(Date.now());
+});
@@ -0,0 +1,64 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { Logger } from '../src/NewArchitecture/Logger';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+
+test('drops entries below the level and keeps only the most recent ones', () => {
+  const logger = new Logger({ level: 'info', bufferSize: 3, console: false });
+
+  logger.debug('Tracker', 'not kept');
+  for (let i = 1; i <= 5; i++) {
+    logger.info('Background', `entry ${i}`);
+  }
+  logger.error('API', 'failed', new Error('boom'));
+
+  expect(logger.getEntries().map(entry => entry.message)).toEqual(['entry 4', 'entry 5', 'failed']);
+  expect(logger.getEntries()[2]).toMatchObject({
+    level: 'error',
+    tag: 'API',
+    data: [{ name: 'Error', message: 'boom' }],
+  });
+  expect(console.log).not.toHaveBeenCalled();
+});
+
+test('redacts coordinates, ids and tokens before printing or buffering', () => {
+  const logger = new Logger({ redact: true });
+
+  logger.info('API', 'Request body:', {
+    userId: 'driver-42',
+    latitude: 12.971598,
+    longitude: 77.594566,
+    headers: { Authorization: 'Bearer secret' },
+  });
+
+  const redacted = { userId: '[redacted]', latitude: 12.97, longitude: 77.59, headers: { Authorization: '[redacted]' } };
+  expect(logger.getEntries()[0].data).toEqual([redacted]);
+  expect(console.log).toHaveBeenCalledWith('[API] Request body:', redacted);
+});
+
+test('diagnostics bundle logs, config, queue stats and platform', async () => {
+  const logger = new Logger({ redact: true, console: false });
+  const tracker = new LocationTracker({
+    storage: new MemoryStorageAdapter(),
+    logger,
+    sync: { userId: 'driver-42', getAuthToken: async () => 'secret', headers: { 'X-Api-Key': 'key-123' } },
+  });
+  await tracker.storeBackgroundLocation(12.971598, 77.594566, new Date('2024-05-01T08:00:00.000Z'));
+
+  const report = await tracker.getDiagnostics();
+
+  expect(report.platform.os).toBe('ios');
+  expect(report.queue).toMatchObject({ pendingCount: 1, oldestTimestamp: '2024-05-01T08:00:00.000Z' });
+  expect(report.config.sync).toMatchObject({ userId: '[redacted]', headerNames: ['X-Api-Key'] });
+  expect(report.logs.length).toBeGreaterThan(0);
+
+  const json = JSON.stringify(report);
+  expect(json).not.toContain('12.971598');
+  expect(json).not.toContain('driver-42');
+  expect(json).not.toContain('key-123');
+
+  await tracker.cleanup();
+});
@@ -0,0 +1,108 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { Odometer } from '../src/NewArchitecture/Odometer';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+const METERS_PER_DEGREE = 111195;
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// A fix `north` metres north of the start point, `seconds` after START
+const fix = (north: number, seconds: number, accuracy = 5) => ({
+  latitude: 12.97 + north / METERS_PER_DEGREE,
+  longitude: 77.59,
+  timestamp: new Date(START + seconds * 1000).toISOString(),
+  accuracy,
+});
+
+test('counts no distance for GPS jitter around a parked car', async () => {
+  const odometer = new Odometer(new MemoryStorageAdapter());
+  const jitter = [0, 8, -6, 12, -11, 4, 15, -3, 9, -14];
+
+  // 30 minutes parked, one fix every 10 s, wandering up to 15 m
+  for (let step = 0; step <= 180; step++) {
+    await odometer.process(fix(jitter[step % jitter.length], step * 10), 'session-1');
+  }
+
+  const { allTime } = await odometer.getSummary('session-1');
+  expect(allTime.distanceMeters).toBe(0);
+  expect(allTime.movingTimeMs).toBe(0);
+  expect(allTime.idleTimeMs).toBe(30 * 60000);
+});
+
+test('adds up distance, moving time and speeds while driving, with a long stop in between', async () => {
+  const odometer = new Odometer(new MemoryStorageAdapter());
+  const fixes = [
+    ...[0, 1, 2, 3, 4, 5].map(step => fix(step * 150, step * 10)), // 750 m at 15 m/s
+    ...[1, 2, 3, 4, 5].map(minute => fix(750, 50 + minute * 60)), // five minutes at a delivery
+    ...[1, 2].map(step => fix(750 + step * 100, 350 + step * 10)), // 200 m at 10 m/s
+  ];
+  for (const location of fixes) {
+    await odometer.process(location, null);
+  }
+
+  const { allTime } = await odometer.getSummary(null);
+  expect(allTime.distanceMeters).toBeCloseTo(950, 0);
+  expect(allTime.movingTimeMs).toBe(70000);
+  expect(allTime.idleTimeMs).toBe(5 * 60000);
+  expect(allTime.maxSpeed).toBeCloseTo(15, 1);
+  expect(allTime.averageSpeed).toBeCloseTo(950 / 70, 1);
+});
+
+test('ignores inaccurate fixes and movement across a lost track', async () => {
+  const odometer = new Odometer(new MemoryStorageAdapter());
+
+  await odometer.process(fix(0, 0), null);
+  expect(await odometer.process(fix(500, 10, 250), null)).toBeNull();
+  await odometer.process(fix(3000, 20 * 60), null); // twenty minutes without a fix
+
+  expect((await odometer.getSummary(null)).allTime).toMatchObject({ distanceMeters: 0, movingTimeMs: 0 });
+});
+
+test('keeps per-day and per-session totals across restarts', async () => {
+  const storage = new MemoryStorageAdapter();
+  const first = new Odometer(storage);
+  await first.process(fix(0, 0), 'morning');
+  await first.process(fix(100, 10), 'morning');
+
+  const second = new Odometer(storage);
+  await second.process(fix(300, 20), 'morning');
+  await second.process(fix(300 + 500, 24 * 3600), 'next-day'); // after a full day: a lost track
+  await second.process(fix(900, 24 * 3600 + 10), 'next-day');
+
+  expect(await second.getSessionStats('morning')).toMatchObject({ distanceMeters: expect.closeTo(300, 0) });
+  expect(await second.getSessionStats('next-day')).toMatchObject({ distanceMeters: expect.closeTo(100, 0) });
+  const days = await second.getDailyStats();
+  expect(days).toHaveLength(2);
+  expect(days[0].distanceMeters).toBeCloseTo(300, 0);
+  expect((await second.getSummary(null)).allTime.distanceMeters).toBeCloseTo(400, 0);
+
+  await second.clear();
+  expect(await second.getDailyStats()).toEqual([]);
+  expect((await second.getSummary(null)).allTime.distanceMeters).toBe(0);
+});
+
+test('tracker reports the active session totals as fixes arrive', async () => {
+  const simulator = new SimulatedLocationModule({
+    track: [0, 1, 2].map(step => ({ latitude: 12.97 + (step * 200) / METERS_PER_DEGREE, longitude: 77.59, time: START + step * 20000 })),
+  });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+  const updates = jest.fn();
+  tracker.on('travelStats', updates);
+
+  await tracker.startTracking();
+  simulator.advanceToEnd();
+  await flush();
+
+  expect(updates).toHaveBeenCalledTimes(3);
+  const stats = await tracker.getTravelStats();
+  expect(stats.session?.distanceMeters).toBeCloseTo(400, 0);
+  expect(stats.session?.maxSpeed).toBeCloseTo(10, 1);
+  expect(await tracker.getSessionTravelStats(tracker.getCurrentSession()!.id)).toEqual(stats.session);
+
+  await tracker.cleanup();
+});
@@ -0,0 +1,87 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+
+// Three days offline, one fix an hour
+async function offlineTracker(options: ConstructorParameters<typeof LocationTracker>[0] = {}) {
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), ...options });
+  for (let hour = 0; hour < 72; hour++) {
+    await tracker.storeBackgroundLocation(12.97 + hour * 0.001, 77.59, new Date(START + hour * 3600000));
+  }
+  return tracker;
+}
+
+test('reports and pages through what is waiting to upload', async () => {
+  const tracker = await offlineTracker();
+
+  expect(await tracker.getQueueStats()).toEqual({
+    pendingCount: 72,
+    oldestTimestamp: '2024-05-01T08:00:00.000Z',
+    newestTimestamp: '2024-05-04T07:00:00.000Z',
+    deadLetterCount: 0,
+  });
+
+  const page = await tracker.peekPendingLocations(10, 20);
+  expect(page).toHaveLength(10);
+  expect(page[0].timestamp).toBe('2024-05-02T04:00:00.000Z');
+
+  await tracker.cleanup();
+});
+
+test('purges everything, or only what is older than a cutoff', async () => {
+  const tracker = await offlineTracker();
+
+  expect(await tracker.purgePendingLocations({ olderThan: START + 2 * DAY })).toBe(48);
+  expect(await tracker.getQueueStats()).toMatchObject({ pendingCount: 24, oldestTimestamp: '2024-05-03T08:00:00.000Z' });
+
+  expect(await tracker.purgePendingLocations()).toBe(24);
+  expect(await tracker.getQueueStats()).toMatchObject({ pendingCount: 0, oldestTimestamp: null, newestTimestamp: null });
+
+  await expect(tracker.purgePendingLocations({ olderThan: 'last week' })).rejects.toThrow('Invalid purge cutoff');
+  await tracker.cleanup();
+});
+
+test('force-syncs and re-queues dead-lettered items', async () => {
+  jest.mocked(fetch).mockResolvedValue({ ok: false, status: 500, json: async () => ({}) } as Response);
+  const tracker = await offlineTracker({ sync: { batchUpload: true, batchSize: 100 }, retry: { maxAttempts: 1 } });
+
+  expect(await tracker.forceSync()).toBe(0);
+  expect(await tracker.getQueueStats()).toMatchObject({ pendingCount: 0, deadLetterCount: 72 });
+
+  const [first, second] = await tracker.getDeadLetterLocations();
+  expect(await tracker.requeueDeadLetterLocations([first.id, second.id])).toBe(2);
+  const requeued = await tracker.peekPendingLocations();
+  expect(requeued.map(location => location.id)).toEqual([first.id, second.id]);
+  expect(requeued[0]).not.toHaveProperty('attempts');
+  expect(requeued[0]).not.toHaveProperty('deadLetteredAt');
+
+  (global.fetch as jest.Mock).mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+  expect(await tracker.requeueDeadLetterLocations()).toBe(70);
+  expect(await tracker.forceSync()).toBe(0);
+  expect(await tracker.getQueueStats()).toMatchObject({ pendingCount: 0, deadLetterCount: 0 });
+
+  await tracker.cleanup();
+});
+
+test('uploads points on the equator and dead-letters invalid ones without blocking the queue', async () => {
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter() });
+  await tracker.storeBackgroundLocation(0, 32.58, new Date(START));
+  await tracker.storeBackgroundLocation(NaN, 32.58, new Date(START + 60000));
+  await tracker.storeBackgroundLocation(0.001, 32.58, new Date(START + 120000));
+
+  expect(await tracker.forceSync()).toBe(0);
+
+  const sent = (global.fetch as jest.Mock).mock.calls.map(([, init]) => JSON.parse(init.body).latitude);
+  expect(sent).toEqual([0, 0.001]);
+  const [rejected] = await tracker.getDeadLetterLocations();
+  expect(rejected).toMatchObject({ attempts: 1, lastError: 'Invalid location data provided' });
+  expect(await tracker.getQueueStats()).toMatchObject({ pendingCount: 0, deadLetterCount: 1 });
+
+  await tracker.cleanup();
+});
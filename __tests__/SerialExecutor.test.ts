@@ -0,0 +1,35 @@
+/**
+ * @format
+ */
+
+import { SerialExecutor } from '../src/NewArchitecture/SerialExecutor';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+test('runs operations one at a time in call order', async () => {
+  const serial = new SerialExecutor();
+  const log: string[] = [];
+  const step = (name: string) => async () => {
+    log.push(`${name} start`);
+    await tick();
+    log.push(`${name} end`);
+    return name;
+  };
+
+  expect(await Promise.all([serial.run(step('a')), serial.run(step('b'))])).toEqual(['a', 'b']);
+  expect(log).toEqual(['a start', 'a end', 'b start', 'b end']);
+});
+
+test('resets state after a failure and keeps going', async () => {
+  const onError = jest.fn();
+  const serial = new SerialExecutor(onError);
+
+  const failed = serial.run(async () => {
+    throw new Error('write failed');
+  });
+  const next = serial.run(async () => onError.mock.calls.length);
+
+  await expect(failed).rejects.toThrow('write failed');
+  // The reset happens before the next operation starts
+  expect(await next).toBe(1);
+});
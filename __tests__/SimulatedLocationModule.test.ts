@@ -0,0 +1,133 @@
+/**
+ * @format
+ */
+
+import LocationTracker, { LocationUpdate } from '../src/NewArchitecture/LocationTracker';
+import { LocationQueue } from '../src/NewArchitecture/LocationQueue';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import {
+  SimulatedLocationModule,
+  parseGpx,
+  parseGeoJson,
+} from '../src/NewArchitecture/SimulatedLocationModule';
+
+const START = Date.parse('2024-05-01T08:00:00Z');
+
+// Five fixes within a few metres of each other, then a walk north in ~110 m steps
+const track = {
+  type: 'Feature',
+  properties: {
+    coordTimes: [0, 5, 10, 20, 25, 30, 40, 50].map(s => new Date(START + s * 1000).toISOString()),
+  },
+  geometry: {
+    type: 'LineString',
+    coordinates: [
+      [77.5946, 12.9716],
+      [77.59461, 12.97161],
+      [77.59462, 12.9716],
+      [77.5946, 12.97162],
+      [77.59461, 12.9716],
+      [77.5946, 12.9726],
+      [77.5946, 12.9736],
+      [77.5946, 12.9746],
+    ],
+  },
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('track parsing', () => {
+  test('reads GPX track points with time and elevation', () => {
+    const points = parseGpx(`<?xml version="1.0"?>
+      <gpx><trk><trkseg>
+        <trkpt lat="12.9716" lon="77.5946"><ele>920</ele><time>2024-05-01T08:00:00Z</time></trkpt>
+        <trkpt lon="77.5950" lat="12.9720"><time>2024-05-01T08:00:10Z</time></trkpt>
+      </trkseg></trk></gpx>`);
+
+    expect(points).toEqual([
+      { latitude: 12.9716, longitude: 77.5946, altitude: 920, speed: undefined, time: START },
+      { latitude: 12.972, longitude: 77.595, altitude: undefined, speed: undefined, time: START + 10000 },
+    ]);
+  });
+
+  test('spaces untimed GeoJSON points by the default interval', () => {
+    const points = parseGeoJson({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { time: START }, geometry: { type: 'Point', coordinates: [77.5946, 12.9716] } },
+        { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [77.595, 12.972] } },
+      ],
+    }, 2000);
+
+    expect(points.map(point => point.time)).toEqual([START, START + 2000]);
+  });
+});
+
+describe('SimulatedLocationModule', () => {
+  let storage: MemoryStorageAdapter;
+  let simulator: SimulatedLocationModule;
+  let tracker: LocationTracker;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+    simulator = new SimulatedLocationModule({ track });
+    tracker = new LocationTracker({ storage, nativeModule: simulator });
+  });
+
+  afterEach(async () => {
+    await tracker.cleanup();
+  });
+
+  test('replays fixes through the tracker and withholds idle payloads', async () => {
+    const received: LocationUpdate[] = [];
+    expect(await tracker.startTracking(location => received.push(location))).toBe(true);
+
+    // Only the first fix is due at the start of the track
+    simulator.advanceBy(0);
+    await flush();
+    expect(received).toHaveLength(1);
+
+    // Stationary fixes inside the 50 m filter come through as idle-only payloads until the
+    // 15 s force-update interval elapses
+    simulator.advanceBy(25000);
+    await flush();
+    expect(received.map(location => location.updateReason)).toEqual(['first_location', 'force_update']);
+
+    simulator.advanceToEnd();
+    await flush();
+    expect(received).toHaveLength(5);
+    expect(received[4].latitude).toBeCloseTo(12.9746);
+    expect(received[4].speed).toBeGreaterThan(10);
+    expect(simulator.remainingPoints).toBe(0);
+
+    await flush();
+    const queue = new LocationQueue(storage, 'location_queue');
+    expect(await queue.size()).toBe(5);
+  });
+
+  test('emits scripted errors and permission revocation on the virtual clock', async () => {
+    const events: Array<[string, any]> = [];
+    const emit = jest.fn((name: string, payload: object) => events.push([name, payload]));
+    const scripted = new SimulatedLocationModule({ track, emit });
+    scripted.scheduleError(3000, { error: 'GPS signal lost' });
+    scripted.schedulePermissionChange(12000, 'denied');
+
+    await scripted.startLocationTracking();
+    scripted.advanceToEnd();
+
+    expect(events.map(([name]) => name)).toEqual([
+      'onLocationUpdate',
+      'onLocationUpdate',
+      'onLocationError',
+      'onLocationUpdate',
+      'onLocationUpdate',
+      'onLocationPermissionChanged',
+      'onLocationError',
+    ]);
+    expect(events[0][1]).toMatchObject({ kind: 'status', status: 'started' });
+    expect(events[1][1]).toMatchObject({ kind: 'fix', latitude: 12.9716 });
+    expect(events[3][1]).toMatchObject({ kind: 'idle', reason: 'stationary' });
+    expect(events[3][1]).not.toHaveProperty('latitude');
+    await expect(scripted.startLocationTracking()).rejects.toThrow('Missing required permissions');
+  });
+});
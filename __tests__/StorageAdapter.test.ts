@@ -0,0 +1,34 @@
+/**
+ * @format
+ */
+
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+
+test('memory adapter behaves like AsyncStorage for the keys it holds', async () => {
+  const storage = new MemoryStorageAdapter();
+
+  expect(await storage.getItem('missing')).toBeNull();
+
+  await storage.setItem('a', '1');
+  await storage.setItem('b', '');
+  await storage.setItem('a', '2');
+  expect(await storage.getItem('a')).toBe('2');
+  // An empty string is a stored value, not a missing key
+  expect(await storage.getItem('b')).toBe('');
+  expect(await storage.getAllKeys()).toEqual(['a', 'b']);
+
+  await storage.removeItem('a');
+  await storage.removeItem('missing');
+  expect(await storage.getAllKeys()).toEqual(['b']);
+
+  storage.clear();
+  expect(await storage.getAllKeys()).toEqual([]);
+});
+
+test('memory adapters do not share state', async () => {
+  const first = new MemoryStorageAdapter();
+  const second = new MemoryStorageAdapter();
+
+  await first.setItem('key', 'value');
+  expect(await second.getItem('key')).toBeNull();
+});
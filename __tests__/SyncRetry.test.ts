@@ -0,0 +1,88 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter, StorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { RetryPolicy, computeRetryDelay, resolveRetryPolicy } from '../src/NewArchitecture/SyncRetry';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+const flush = () => new Promise(resolve => setImmediate(resolve));
+const fetchMock = jest.fn<Promise<Partial<Response>>, [string, RequestInit]>();
+// Typed stand-in for the fetch mock from jest.setup.js, which resets it before each test
+global.fetch = fetchMock as unknown as typeof fetch;
+
+const respond = (status: number): Partial<Response> => ({ ok: status < 300, status, json: async () => ({}) });
+const storedRetryState = async (storage: StorageAdapter) => JSON.parse((await storage.getItem('sync_retry_state'))!);
+
+async function createTracker(storage: StorageAdapter, retry: Partial<RetryPolicy>) {
+  const tracker = new LocationTracker({ storage, retry });
+  // Let the startup sync run before the test queues anything
+  await flush();
+  return tracker;
+}
+
+test('backs off exponentially up to the cap, with jitter taken off the delay', () => {
+  const policy = resolveRetryPolicy({ baseDelayMs: 1000, maxDelayMs: 10000, jitter: 0.5 });
+  const noJitter = () => 0;
+
+  expect([1, 2, 3, 4, 5, 10].map(failures => computeRetryDelay(failures, policy, noJitter))).toEqual([
+    1000, 2000, 4000, 8000, 10000, 10000,
+  ]);
+  expect(computeRetryDelay(3, policy, () => 1)).toBe(2000);
+  expect(computeRetryDelay(3, policy, () => 0.5)).toBe(3000);
+});
+
+test('clamps retry policies that would never retry or never stop', () => {
+  expect(resolveRetryPolicy({ baseDelayMs: -5, maxAttempts: 0, jitter: 3 })).toMatchObject({
+    baseDelayMs: 0,
+    maxAttempts: 1,
+    jitter: 1,
+  });
+  expect(resolveRetryPolicy({ baseDelayMs: 60000, maxDelayMs: 1000 }).maxDelayMs).toBe(60000);
+});
+
+test('persists the retry schedule and picks it up after a restart', async () => {
+  jest.spyOn(Math, 'random').mockReturnValue(0);
+  jest.spyOn(Date, 'now').mockReturnValue(START);
+  fetchMock.mockResolvedValue(respond(503));
+  const storage = new MemoryStorageAdapter();
+  const tracker = await createTracker(storage, { baseDelayMs: 60000 });
+  await tracker.storeBackgroundLocation(12.97, 77.59, new Date(START));
+
+  await tracker.syncBackgroundLocations();
+  expect(await storedRetryState(storage)).toEqual({ consecutiveFailures: 1, nextAttemptAt: START + 60000 });
+  await tracker.syncBackgroundLocations();
+  expect(await storedRetryState(storage)).toEqual({ consecutiveFailures: 2, nextAttemptAt: START + 120000 });
+  await tracker.cleanup();
+
+  // A successful sync only rewrites the schedule if the restarted tracker restored it
+  const restarted = await createTracker(storage, { baseDelayMs: 60000 });
+  fetchMock.mockResolvedValue(respond(200));
+  await restarted.syncBackgroundLocations();
+  expect(await storedRetryState(storage)).toEqual({ consecutiveFailures: 0, nextAttemptAt: null });
+
+  await restarted.cleanup();
+});
+
+test('dead-letters a point after maxAttempts server failures and keeps it across restarts', async () => {
+  fetchMock.mockResolvedValue(respond(500));
+  const storage = new MemoryStorageAdapter();
+  const tracker = await createTracker(storage, { maxAttempts: 2 });
+  await tracker.storeBackgroundLocation(12.97, 77.59, new Date(START));
+
+  await tracker.syncBackgroundLocations();
+  expect(await tracker.debugStoredLocations()).toEqual([
+    expect.objectContaining({ attempts: 1, lastError: expect.stringContaining('500') }),
+  ]);
+  await tracker.syncBackgroundLocations();
+  expect(await tracker.debugStoredLocations()).toEqual([]);
+  await tracker.cleanup();
+
+  const restarted = await createTracker(storage, {});
+  const [deadLettered] = await restarted.getDeadLetterLocations();
+  expect(deadLettered).toMatchObject({ latitude: 12.97, attempts: 2, timestamp: '2024-05-01T08:00:00.000Z' });
+  expect(deadLettered.deadLetteredAt).toEqual(expect.any(String));
+
+  await restarted.cleanup();
+});
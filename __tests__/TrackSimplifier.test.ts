@@ -0,0 +1,99 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { resolveSimplificationConfig, simplifyTrack } from '../src/NewArchitecture/TrackSimplifier';
+
+// A straight 1 km walk north with a point every ~11 m and ±1 m of sideways jitter, then a turn east
+const walk = [
+  ...Array.from({ length: 90 }, (_, i) => ({
+    id: `n${i}`,
+    latitude: 12.97 + i * 0.0001,
+    longitude: 77.59 + (i % 2 ? 0.00001 : -0.00001),
+  })),
+  ...Array.from({ length: 10 }, (_, i) => ({ id: `e${i}`, latitude: 12.979, longitude: 77.5901 + i * 0.0001 })),
+];
+
+test.each(['douglas-peucker', 'visvalingam'] as const)('%s keeps the shape with far fewer points', algorithm => {
+  const simplified = simplifyTrack(walk, resolveSimplificationConfig({ algorithm, toleranceMeters: 10 }));
+
+  expect(simplified.length).toBeLessThan(15);
+  expect(simplified[0].id).toBe('n0');
+  expect(simplified[simplified.length - 1].id).toBe('e9');
+  // The corner survives
+  expect(simplified.some(point => point.id === 'n89' || point.id === 'e0')).toBe(true);
+});
+
+test('always keeps anchor points', () => {
+  const simplified = simplifyTrack(walk, resolveSimplificationConfig({ toleranceMeters: 5 }), point =>
+    ['n20', 'n21', 'n60'].includes(point.id)
+  );
+
+  expect(simplified.map(point => point.id)).toEqual(expect.arrayContaining(['n20', 'n21', 'n60']));
+});
+
+test('simplifies the queue before upload and reports the compression ratio', async () => {
+  const tracker = new LocationTracker({
+    storage: new MemoryStorageAdapter(),
+    sync: { batchUpload: true, batchSize: 500 },
+    simplification: { enabled: true, toleranceMeters: 5 },
+  });
+  const start = Date.parse('2024-05-01T08:00:00.000Z');
+  for (const [i, point] of walk.entries()) {
+    await tracker.storeBackgroundLocation(point.latitude, point.longitude, new Date(start + i * 10000), i === 40);
+  }
+
+  await tracker.syncBackgroundLocations();
+
+  const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+  expect(body.locations.length).toBeLessThan(12);
+  expect(body.locations).toContainEqual(expect.objectContaining({ latitude: walk[40].latitude }));
+
+  const stats = tracker.getSimplificationStats();
+  expect(stats).toMatchObject({ inputPoints: 100, outputPoints: body.locations.length });
+  expect(stats.compressionRatio).toBeGreaterThan(8);
+
+  await tracker.cleanup();
+});
+
+test('only simplifies points queued since the last pass, in time order', async () => {
+  jest.mocked(fetch).mockRejectedValue(new TypeError('Network request failed'));
+
+  const tracker = new LocationTracker({
+    storage: new MemoryStorageAdapter(),
+    sync: { batchUpload: true, batchSize: 500 },
+    simplification: { enabled: true, toleranceMeters: 5 },
+  });
+  const start = Date.parse('2024-05-01T08:00:00.000Z');
+  // Stored out of order: the corner arrives last
+  const shuffled = [...walk.slice(0, 89), ...walk.slice(90), walk[89]];
+  for (const point of shuffled) {
+    const index = walk.indexOf(point);
+    await tracker.storeBackgroundLocation(point.latitude, point.longitude, new Date(start + index * 10000));
+  }
+
+  await expect(tracker.syncBackgroundLocations()).resolves.toBeUndefined();
+  const first = tracker.getSimplificationStats();
+  expect(first.inputPoints).toBe(100);
+  const pending = await tracker.peekPendingLocations();
+  // Sorted back into place, the late corner point is simplified as if it had arrived on time
+  const inOrder = simplifyTrack(walk, resolveSimplificationConfig({ toleranceMeters: 5 }));
+  const coordinates = (points: Array<{ latitude: number; longitude: number }>) =>
+    points.map(point => `${point.latitude},${point.longitude}`).sort();
+  expect(coordinates(pending)).toEqual(coordinates(inOrder));
+
+  // The failed upload is retried as it is, and only the new points are simplified
+  for (let i = 1; i <= 3; i++) {
+    await tracker.storeBackgroundLocation(12.979, 77.5901 + (9 + i) * 0.0001, new Date(start + (100 + i) * 10000));
+  }
+  await tracker.syncBackgroundLocations();
+  expect(tracker.getSimplificationStats()).toMatchObject({
+    inputPoints: 3,
+    outputPoints: 2,
+    totalRemovedPoints: first.totalRemovedPoints + 1,
+  });
+
+  await tracker.cleanup();
+});
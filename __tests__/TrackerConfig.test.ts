@@ -0,0 +1,57 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+import { resolveTrackerConfig, toNativeTrackerConfig } from '../src/NewArchitecture/TrackerConfig';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+let trackers: LocationTracker[] = [];
+
+afterEach(async () => {
+  await Promise.all(trackers.map(tracker => tracker.cleanup()));
+  trackers = [];
+});
+
+function createTracker(storage: MemoryStorageAdapter, simulator: SimulatedLocationModule, config = {}) {
+  const tracker = new LocationTracker({ storage, nativeModule: simulator, config });
+  trackers.push(tracker);
+  return tracker;
+}
+
+test('only sends native intervals that were set explicitly', () => {
+  expect(toNativeTrackerConfig(resolveTrackerConfig({ distanceFilterMeters: 20 }))).toEqual({
+    distanceFilterMeters: 20,
+  });
+  expect(resolveTrackerConfig({ distanceFilterMeters: -5, forceUpdateIntervalMs: 10 })).toMatchObject({
+    distanceFilterMeters: 0,
+    forceUpdateIntervalMs: 1000,
+  });
+});
+
+test('pushes constructor config to the native module', async () => {
+  const simulator = new SimulatedLocationModule();
+  createTracker(new MemoryStorageAdapter(), simulator, { distanceFilterMeters: 25 });
+  await flush();
+
+  expect(await simulator.getConfig()).toMatchObject({ distanceFilterMeters: 25, forceUpdateIntervalMs: 15000 });
+});
+
+test('persists runtime changes across a restart', async () => {
+  const storage = new MemoryStorageAdapter();
+  const tracker = createTracker(storage, new SimulatedLocationModule(), { distanceFilterMeters: 25 });
+  await flush();
+
+  const updated = await tracker.setConfig({ forceUpdateIntervalMs: 60000, idleThresholdMs: 5 * 60 * 1000 });
+  expect(updated).toMatchObject({ distanceFilterMeters: 25, forceUpdateIntervalMs: 60000, idleThresholdMs: 300000 });
+
+  const simulator = new SimulatedLocationModule();
+  const restarted = createTracker(storage, simulator, { distanceFilterMeters: 100, idleThresholdMs: 60000 });
+  await flush();
+
+  expect(restarted.getConfig()).toMatchObject({ distanceFilterMeters: 100, idleThresholdMs: 300000 });
+  expect(await simulator.getConfig()).toMatchObject({ distanceFilterMeters: 100, forceUpdateIntervalMs: 60000 });
+});
@@ -0,0 +1,81 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+let now: number;
+
+beforeEach(() => {
+  now = START;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+test('reports fix rate, staleness, accuracy, sync and native state', async () => {
+  const simulator = new SimulatedLocationModule({
+    // Four fixes a minute apart, each well outside the distance filter
+    track: [0, 1, 2, 3].map(step => ({
+      latitude: 12.97 + step * 0.002,
+      longitude: 77.59,
+      time: START + step * 60000,
+      accuracy: 10 + step * 2,
+    })),
+  });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+
+  await tracker.startTracking();
+  for (let step = 0; step < 4; step++) {
+    now = START + step * 60000;
+    simulator.advanceBy(step === 0 ? 0 : 60000);
+    await flush();
+  }
+  now = START + 5 * 60000;
+  await tracker.forceSync();
+
+  const health = await tracker.getHealth();
+
+  expect(health).toMatchObject({
+    isTracking: true,
+    fixesPerMinute: 0.8,
+    msSinceLastFix: 2 * 60000,
+    averageAccuracy: 13,
+    queueDepth: 0,
+    deadLetterCount: 0,
+    permissionStatus: 'background',
+    accuracyAuthorization: 'precise',
+    native: { isTracking: true, locationUpdateCount: 4, averageAccuracy: 13, errorCount: 0 },
+  });
+  expect(health.sync.successCount).toBeGreaterThan(0);
+  expect(health.sync).toMatchObject({ failureCount: 0, averageLatencyMs: 0, lastFailureAt: null });
+
+  await tracker.cleanup();
+});
+
+test('shows a device that has gone quiet and counts failed uploads', async () => {
+  jest.mocked(fetch).mockRejectedValue(new TypeError('Network request failed'));
+  const simulator = new SimulatedLocationModule({
+    track: [{ latitude: 12.97, longitude: 77.59, time: START, accuracy: 8 }],
+  });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+
+  await tracker.startTracking();
+  simulator.advanceToEnd();
+  await flush();
+
+  now = START + 30 * 60000;
+  await tracker.forceSync();
+  const health = await tracker.getHealth();
+
+  expect(health.msSinceLastFix).toBe(30 * 60000);
+  expect(health.fixesPerMinute).toBe(0);
+  expect(health.averageAccuracy).toBeNull();
+  expect(health.queueDepth).toBe(1);
+  expect(health.sync).toMatchObject({ successCount: 0, failureCount: 1, averageLatencyMs: null });
+
+  await tracker.cleanup();
+});
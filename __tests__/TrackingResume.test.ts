@@ -0,0 +1,119 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+import { SessionStore } from '../src/NewArchitecture/TrackingSession';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// What a process killed mid-shift leaves behind
+async function killedWhileTracking() {
+  const storage = new MemoryStorageAdapter();
+  await storage.setItem('tracking_state', JSON.stringify({ since: new Date(START).toISOString() }));
+  const session = await new SessionStore(storage).start({ shiftId: 'S-42' }, new Date(START));
+  return { storage, session };
+}
+
+test('carries on with native tracking that survived the restart', async () => {
+  const { storage, session } = await killedWhileTracking();
+  const simulator = new SimulatedLocationModule();
+  await simulator.startLocationTracking();
+
+  const tracker = new LocationTracker({ storage, nativeModule: simulator });
+  const resumed = jest.fn();
+  tracker.on('trackingResumed', resumed);
+  await flush();
+
+  expect(tracker.isCurrentlyTracking).toBe(true);
+  expect(resumed).toHaveBeenCalledWith({ mode: 'resumed', session: expect.objectContaining({ id: session.id }) });
+  expect(tracker.getCurrentSession()?.id).toBe(session.id);
+
+  await tracker.cleanup();
+});
+
+test('restarts tracking in a new session when native tracking died too', async () => {
+  const { storage, session } = await killedWhileTracking();
+  const tracker = new LocationTracker({ storage, nativeModule: new SimulatedLocationModule() });
+  const resumed = jest.fn();
+  tracker.on('trackingResumed', resumed);
+  await flush();
+
+  expect(tracker.isCurrentlyTracking).toBe(true);
+  expect(resumed.mock.calls[0][0].mode).toBe('restarted');
+  const current = tracker.getCurrentSession()!;
+  expect(current.id).not.toBe(session.id);
+  expect(current.metadata).toEqual({ shiftId: 'S-42' });
+  expect(await tracker.getSession(session.id)).toMatchObject({ stopReason: 'osKilled' });
+
+  // Stopping on purpose means the next launch stays stopped
+  await tracker.stopTracking();
+  const next = new LocationTracker({ storage, nativeModule: new SimulatedLocationModule() });
+  await flush();
+  expect(next.isCurrentlyTracking).toBe(false);
+
+  await tracker.cleanup();
+  await next.cleanup();
+});
+
+test('restarts on native builds that predate getHealthMetrics', async () => {
+  const { storage, session } = await killedWhileTracking();
+  const simulator = new SimulatedLocationModule();
+  Object.defineProperty(simulator, 'getHealthMetrics', { value: undefined });
+
+  const tracker = new LocationTracker({ storage, nativeModule: simulator });
+  await flush();
+
+  expect(tracker.isCurrentlyTracking).toBe(true);
+  expect(await tracker.getSession(session.id)).toMatchObject({ stopReason: 'osKilled' });
+
+  await tracker.cleanup();
+});
+
+test('stays stopped when auto-resume is off or permission is gone', async () => {
+  const off = await killedWhileTracking();
+  const manual = new LocationTracker({ storage: off.storage, nativeModule: new SimulatedLocationModule(), autoResume: false });
+  const denied = await killedWhileTracking();
+  const revoked = new LocationTracker({
+    storage: denied.storage,
+    nativeModule: new SimulatedLocationModule({ permission: 'denied' }),
+  });
+  await flush();
+
+  expect(manual.isCurrentlyTracking).toBe(false);
+  expect(revoked.isCurrentlyTracking).toBe(false);
+  expect(await revoked.getSession(denied.session.id)).toMatchObject({ stopReason: 'osKilled' });
+
+  await manual.cleanup();
+  await revoked.cleanup();
+});
+
+test('stops native tracking again and stays stopped when the start cannot be set up', async () => {
+  class FailingOdometerStorage extends MemoryStorageAdapter {
+    async setItem(key: string, value: string): Promise<void> {
+      if (key === 'odometer_state') {
+        throw new Error('disk full');
+      }
+      return super.setItem(key, value);
+    }
+  }
+  const storage = new FailingOdometerStorage();
+  const simulator = new SimulatedLocationModule();
+  const stopNative = jest.spyOn(simulator, 'stopLocationTracking');
+  const tracker = new LocationTracker({ storage, nativeModule: simulator });
+  const trackingChange = jest.fn();
+  tracker.on('trackingChange', trackingChange);
+
+  expect(await tracker.startTracking()).toBe(false);
+
+  expect(tracker.isCurrentlyTracking).toBe(false);
+  expect(stopNative).toHaveBeenCalledTimes(1);
+  expect(trackingChange).not.toHaveBeenCalled();
+  expect(tracker.getCurrentSession()).toBeNull();
+  expect(await storage.getItem('tracking_state')).toBeNull();
+
+  await tracker.cleanup();
+});
@@ -0,0 +1,100 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+import { SessionStore } from '../src/NewArchitecture/TrackingSession';
+
+const START = Date.parse('2024-05-01T08:00:00.000Z');
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// Three fixes a minute apart, each well outside the distance filter
+const track = [0, 1, 2].map(step => ({ latitude: 12.97 + step * 0.002, longitude: 77.59, time: START + step * 60000 }));
+
+test('records a session with metadata and tags its points for upload', async () => {
+  // Keeps the 2024 fixes inside the history retention window
+  jest.spyOn(Date, 'now').mockReturnValue(START + 3 * 60000);
+  const simulator = new SimulatedLocationModule({ track });
+  const tracker = new LocationTracker({
+    storage: new MemoryStorageAdapter(),
+    nativeModule: simulator,
+    sync: { batchUpload: true, batchSize: 100 },
+  });
+  const ended = jest.fn();
+  tracker.on('sessionEnd', ended);
+
+  await tracker.startTracking(undefined, { shiftId: 'S-42' });
+  const session = tracker.getCurrentSession()!;
+  expect(session.id).toMatch(UUID);
+  await tracker.setSessionMetadata({ vehicle: 'KA-01' });
+  simulator.advanceToEnd();
+  await flush();
+
+  const pending = await tracker.peekPendingLocations();
+  expect(pending).toHaveLength(3);
+  expect(pending.every(location => location.sessionId === session.id)).toBe(true);
+  expect(await tracker.getLocationHistory({ sessionId: session.id })).toHaveLength(3);
+  expect(await tracker.getLocationHistory({ sessionId: 'another' })).toHaveLength(0);
+
+  await tracker.forceSync();
+  const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+  expect(body.locations[0].sessionId).toBe(session.id);
+
+  await tracker.stopTracking();
+  expect(tracker.getCurrentSession()).toBeNull();
+  expect(ended).toHaveBeenCalledTimes(1);
+  expect(await tracker.getSession(session.id)).toMatchObject({
+    stopReason: 'user',
+    metadata: { shiftId: 'S-42', vehicle: 'KA-01' },
+    pointCount: 3,
+    lastPointAt: '2024-05-01T08:02:00.000Z',
+  });
+  expect((await tracker.getSession(session.id))!.endedAt).not.toBeNull();
+
+  await tracker.cleanup();
+});
+
+test('records why tracking stopped when the app did not ask', async () => {
+  const simulator = new SimulatedLocationModule({ track });
+  const tracker = new LocationTracker({ storage: new MemoryStorageAdapter(), nativeModule: simulator });
+
+  await tracker.startTracking();
+  simulator.setPermission('denied');
+  await flush();
+
+  simulator.setPermission('background');
+  await tracker.startTracking();
+  simulator.failTracking('Error recovery failed: no provider');
+  await flush();
+
+  expect(tracker.isCurrentlyTracking).toBe(false);
+  const sessions = await tracker.getSessions();
+  expect(sessions.map(session => [session.stopReason, session.stopDetail])).toEqual([
+    ['permissionRevoked', undefined],
+    ['error', 'Error recovery failed: no provider'],
+  ]);
+
+  await tracker.cleanup();
+});
+
+test('closes a session left open by a killed app on the next launch', async () => {
+  const storage = new MemoryStorageAdapter();
+  const store = new SessionStore(storage);
+  const killed = await store.start({ vehicle: 'KA-01' }, new Date(START));
+  await store.recordPoint('2024-05-01T08:30:00.000Z');
+
+  const tracker = new LocationTracker({ storage, nativeModule: new SimulatedLocationModule() });
+  const ended = jest.fn();
+  tracker.on('sessionEnd', ended);
+  await flush();
+
+  expect(ended).toHaveBeenCalledWith(
+    expect.objectContaining({ id: killed.id, stopReason: 'osKilled', endedAt: '2024-05-01T08:30:00.000Z', pointCount: 1 })
+  );
+  expect(tracker.getCurrentSession()).toBeNull();
+
+  await tracker.cleanup();
+});
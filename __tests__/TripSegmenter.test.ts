@@ -0,0 +1,118 @@
+/**
+ * @format
+ */
+
+import LocationTracker from '../src/NewArchitecture/LocationTracker';
+import { MemoryStorageAdapter } from '../src/NewArchitecture/StorageAdapter';
+import { SimulatedLocationModule } from '../src/NewArchitecture/SimulatedLocationModule';
+import { DEFAULT_SEGMENTATION_CONFIG, TripSegmenter, Stop, Trip } from '../src/NewArchitecture/TripSegmenter';
+
+const START = Date.parse('2024-05-01T08:00:00Z');
+const MINUTE = 60 * 1000;
+
+// ~111 m per 0.001 degree of latitude
+const fix = (minutes: number, latitude: number, longitude = 77.59) => ({
+  latitude,
+  longitude,
+  timestamp: new Date(START + minutes * MINUTE).toISOString(),
+});
+
+const config = { ...DEFAULT_SEGMENTATION_CONFIG, stopRadiusMeters: 50, minStopDurationMs: 5 * MINUTE };
+
+test('segments a stop, a trip and an arrival', async () => {
+  const storage = new MemoryStorageAdapter();
+  const segmenter = new TripSegmenter(storage, config);
+  const events: string[] = [];
+  const run = async (fixes: ReturnType<typeof fix>[]) => {
+    for (const item of fixes) {
+      (await segmenter.process(item)).forEach(event => events.push(event.type));
+    }
+  };
+
+  // Six minutes at home, a 1.1 km drive, then six minutes at the office
+  await run([fix(0, 12.97), fix(3, 12.97001), fix(6, 12.97)]);
+  await run([fix(7, 12.973), fix(8, 12.976), fix(9, 12.979), fix(10, 12.981)]);
+  await run([fix(13, 12.98101), fix(16, 12.981)]);
+
+  expect(events).toEqual(['arrival', 'departure', 'tripStart', 'tripEnd', 'arrival']);
+
+  const [home, trip, office] = (await segmenter.getTimeline()) as [Stop, Trip, Stop];
+  expect(home).toMatchObject({ kind: 'stop', arrivalTime: fix(0, 0).timestamp, departureTime: fix(7, 0).timestamp });
+  expect(trip).toMatchObject({
+    kind: 'trip',
+    startTime: fix(7, 0).timestamp,
+    endTime: fix(10, 0).timestamp,
+    durationMs: 3 * MINUTE,
+    fromStopId: home.id,
+    toStopId: office.id,
+  });
+  expect(trip.distanceMeters).toBeGreaterThan(1100);
+  expect(trip.distanceMeters).toBeLessThan(1300);
+  expect(trip.averageSpeed).toBeCloseTo(trip.distanceMeters / 180);
+  expect(office).toMatchObject({ kind: 'stop', arrivalTime: fix(10, 0).timestamp, departureTime: null });
+
+  // State survives a restart
+  const restored = new TripSegmenter(storage, config);
+  expect((await restored.getCurrentStop())?.id).toBe(office.id);
+});
+
+test('keeps the timeline within its retention limits and pages through it', async () => {
+  const segmenter = new TripSegmenter(new MemoryStorageAdapter(), { ...config, maxSegments: 4, maxAgeMs: 60 * MINUTE });
+
+  // Five stops six minutes long, each followed by a two-minute drive to the next one
+  for (let stop = 0; stop < 5; stop++) {
+    const latitude = 12.97 + stop * 0.01;
+    const minutes = stop * 10;
+    for (const item of [fix(minutes, latitude), fix(minutes + 3, latitude), fix(minutes + 6, latitude)]) {
+      await segmenter.process(item);
+    }
+    await segmenter.process(fix(minutes + 8, latitude + 0.005));
+  }
+
+  // 5 stops and 4 trips completed; only the newest 4 are kept, plus the trip in progress
+  const timeline = await segmenter.getTimeline();
+  expect(timeline.map(segment => segment.kind)).toEqual(['trip', 'stop', 'trip', 'stop', 'trip']);
+  expect((timeline[0] as Trip).endTime).toBe(fix(30, 0).timestamp);
+
+  expect(await segmenter.getTimeline(2)).toEqual(timeline.slice(0, 2));
+  expect(await segmenter.getTimeline(2, 3)).toEqual(timeline.slice(3, 5));
+  expect(await segmenter.getTimeline(10, 4)).toEqual(timeline.slice(4));
+
+  // Arriving somewhere over an hour later ages out everything before the trip there
+  for (const item of [fix(120, 13.1), fix(123, 13.1), fix(126, 13.1)]) {
+    await segmenter.process(item);
+  }
+  const [trip, stop] = await segmenter.getTimeline();
+  expect(trip).toMatchObject({ kind: 'trip', startTime: fix(48, 0).timestamp, endTime: fix(120, 0).timestamp });
+  expect(stop).toMatchObject({ kind: 'stop', departureTime: null });
+  expect(await segmenter.getTimeline()).toHaveLength(2);
+});
+
+test('tracker emits segment events to subscribers', async () => {
+  const now = Date.now();
+  const track = [0, 1, 2, 3, 4, 5].map(step => ({ latitude: 12.97, longitude: 77.59, time: now + step * MINUTE }))
+    .concat([6, 7].map(step => ({ latitude: 12.97 + (step - 5) * 0.002, longitude: 77.59, time: now + step * MINUTE })));
+  const simulator = new SimulatedLocationModule({ track });
+  const tracker = new LocationTracker({
+    storage: new MemoryStorageAdapter(),
+    nativeModule: simulator,
+    segmentation: config,
+  });
+
+  const arrivals: Stop[] = [];
+  const tripStarts: Trip[] = [];
+  tracker.on('arrival', stop => arrivals.push(stop));
+  const unsubscribe = tracker.on('tripStart', trip => tripStarts.push(trip));
+
+  await tracker.startTracking(() => {});
+  simulator.advanceToEnd();
+  await new Promise(resolve => setImmediate(resolve));
+
+  expect(arrivals).toHaveLength(1);
+  expect(tripStarts).toHaveLength(1);
+  expect(tripStarts[0].fromStopId).toBe(arrivals[0].id);
+  expect((await tracker.getCurrentTrip())?.id).toBe(tripStarts[0].id);
+
+  unsubscribe();
+  await tracker.cleanup();
+});
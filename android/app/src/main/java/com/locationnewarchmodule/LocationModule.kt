@@ -21,8 +21,15 @@ class LocationModule(reactContext: ReactApplicationContext) :
 
     companion object {
         const val NAME = "LocationModule"
+        // Version of the onLocationUpdate event protocol (see LocationProtocol.ts)
+        const val EVENT_PROTOCOL_VERSION = 1
         private const val TAG = "LocationModule_NewArch"
         private const val PERMISSION_REQUEST_CODE = 1001
+        private const val BACKGROUND_PERMISSION_REQUEST_CODE = 1002
+        // Android can't tell "never asked" from "denied for good", so remember what was asked for
+        private const val PERMISSION_PREFS_NAME = "LocationModulePermissions"
+        private const val KEY_LOCATION_ASKED = "locationAsked"
+        private const val KEY_BACKGROUND_ASKED = "backgroundAsked"
         private var instance: WeakReference<LocationModule>? = null
         private var listenerCount = AtomicInteger(0)
         
@@ -46,17 +53,20 @@ class LocationModule(reactContext: ReactApplicationContext) :
         
         fun sendLocationUpdate(locationData: WritableMap) {
             if (DEBUG_MODE) {
-                // Check if this is idle time data
-                val isIdleTimeData = locationData.hasKey("type") && locationData.getString("type") == "idle_time_only"
+                val kind = if (locationData.hasKey("kind")) locationData.getString("kind") else null
                 
-                if (isIdleTimeData) {
+                if (kind == "idle") {
                     Log.d(TAG, "🕐 [NewArch] Processing IDLE TIME DATA for React Native")
-                    Log.d(TAG, "   📊 Data Type: Idle Time Only Update")
+                    Log.d(TAG, "   📊 Reason: ${locationData.getString("reason")}")
                     Log.d(TAG, "   🕐 Total Idle Time: ${locationData.getDouble("idleTime")}ms (${locationData.getDouble("idleTime")/1000}s)")
                     Log.d(TAG, "   🏠 Outside Visit Idle: ${locationData.getDouble("outsideVisitIdleTime")}ms (${locationData.getDouble("outsideVisitIdleTime")/1000}s)")
                     Log.d(TAG, "   🎯 Is Outside Visit Tracking: ${locationData.getBoolean("isOutsideVisitTracking")}")
                     Log.d(TAG, "   📅 Last Location Update: ${locationData.getDouble("lastLocationUpdateTime")}")
-                    Log.d(TAG, "   ⚡ Idle Threshold: ${locationData.getDouble("idleThreshold")}ms")
+                    if (locationData.hasKey("idleThreshold")) {
+                        Log.d(TAG, "   ⚡ Idle Threshold: ${locationData.getDouble("idleThreshold")}ms")
+                    }
+                } else if (kind != "fix") {
+                    Log.d(TAG, "💓 [NewArch] Processing ${kind?.uppercase()} event for React Native")
                 } else {
                     Log.d(TAG, "📍 [NewArch] Processing LOCATION DATA for React Native")
                     Log.d(TAG, "   📍 Coordinates: (${locationData.getDouble("latitude")}, ${locationData.getDouble("longitude")})")
@@ -88,6 +98,7 @@ class LocationModule(reactContext: ReactApplicationContext) :
 
     // Permission request callback
     private var permissionPromise: Promise? = null
+    private var backgroundPermissionPromise: Promise? = null
     private var pendingPermissions = mutableListOf<String>()
 
     init {
@@ -244,7 +255,7 @@ class LocationModule(reactContext: ReactApplicationContext) :
                     putBoolean("isBelowDistanceThreshold", false)
                     putDouble("totalIdleTimeBelowThreshold", 0.0)
                     putBoolean("isCurrentlyIdle", false)
-                    putDouble("outsideVist_Total_IdleTime", 0.0)
+                    putDouble("outsideVisitIdleTime", 0.0)
                     putBoolean("isOutsideVisitTracking", true)
                 }
                 
@@ -317,14 +328,7 @@ class LocationModule(reactContext: ReactApplicationContext) :
             // Accept either fine or coarse location permission
             if ((hasFineLocation || hasCoarseLocation) && hasForegroundServiceLocation) {
                 if (DEBUG_MODE) Log.d(TAG, "✅ [NewArch] All permissions already granted")
-                // All permissions already granted
-                val result = Arguments.createMap().apply {
-                    putString("status", "granted")
-                    putString("accuracy", if (hasFineLocation) "full" else "reduced")
-                    putInt("accuracyStatus", if (hasFineLocation) 1 else 2)
-                    putString("message", "All permissions already granted")
-                }
-                promise.resolve(result)
+                promise.resolve(permissionPayload("All permissions already granted"))
                 return
             }
 
@@ -337,9 +341,11 @@ class LocationModule(reactContext: ReactApplicationContext) :
             pendingPermissions.clear()
             
             if (!hasFineLocation && !hasCoarseLocation) {
-                // Request fine location first, fallback to coarse if needed
+                // Asking for both lets Android 12+ users pick approximate location instead of refusing
                 pendingPermissions.add(android.Manifest.permission.ACCESS_FINE_LOCATION)
-                if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] Will request: ACCESS_FINE_LOCATION")
+                pendingPermissions.add(android.Manifest.permission.ACCESS_COARSE_LOCATION)
+                permissionPrefs().edit().putBoolean(KEY_LOCATION_ASKED, true).apply()
+                if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] Will request: ACCESS_FINE_LOCATION, ACCESS_COARSE_LOCATION")
             }
             if (android.os.Build.VERSION.SDK_INT >= 34 && !hasForegroundServiceLocation) {
                 pendingPermissions.add("android.permission.FOREGROUND_SERVICE_LOCATION")
@@ -359,13 +365,8 @@ class LocationModule(reactContext: ReactApplicationContext) :
                 if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] Permission request sent to activity")
             } else {
                 if (DEBUG_MODE) Log.d(TAG, "✅ [NewArch] No permissions to request, all granted")
-                val result = Arguments.createMap().apply {
-                    putString("status", "granted")
-                    putString("accuracy", if (hasFineLocation) "full" else "reduced")
-                    putInt("accuracyStatus", if (hasFineLocation) 1 else 2)
-                    putString("message", "All permissions granted")
-                }
-                promise.resolve(result)
+                permissionPromise = null
+                promise.resolve(permissionPayload("All permissions granted"))
             }
         } catch (e: Exception) {
             if (DEBUG_MODE) Log.e(TAG, "❌ [NewArch] Error in requestLocationPermissions: ${e.message}", e)
@@ -377,6 +378,98 @@ class LocationModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    @ReactMethod
+    fun getPermissionStatus(promise: Promise) {
+        try {
+            promise.resolve(permissionPayload("Current permission status"))
+        } catch (e: Exception) {
+            if (DEBUG_MODE) Log.e(TAG, "❌ [NewArch] Error in getPermissionStatus: ${e.message}", e)
+            promise.reject("PERMISSION_ERROR", e.message, e)
+        }
+    }
+
+    @ReactMethod
+    fun requestBackgroundPermission(promise: Promise) {
+        if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] requestBackgroundPermission called")
+
+        try {
+            val currentActivity = currentActivity
+            // Below Android 10 foreground access already covers background, and background
+            // access can only be asked for once foreground access is granted
+            if (android.os.Build.VERSION.SDK_INT < android.os.Build.VERSION_CODES.Q ||
+                currentPermissionStatus() != "foreground" ||
+                currentActivity !is PermissionAwareActivity
+            ) {
+                promise.resolve(permissionPayload("Background permission not requested"))
+                return
+            }
+
+            permissionPrefs().edit().putBoolean(KEY_BACKGROUND_ASKED, true).apply()
+            backgroundPermissionPromise = promise
+            // Android 11+ opens the app's location settings page instead of showing a dialog
+            currentActivity.requestPermissions(
+                arrayOf(android.Manifest.permission.ACCESS_BACKGROUND_LOCATION),
+                BACKGROUND_PERMISSION_REQUEST_CODE,
+                this
+            )
+        } catch (e: Exception) {
+            if (DEBUG_MODE) Log.e(TAG, "❌ [NewArch] Error in requestBackgroundPermission: ${e.message}", e)
+            backgroundPermissionPromise = null
+            promise.reject("PERMISSION_ERROR", e.message, e)
+        }
+    }
+
+    private fun permissionPrefs() =
+        reactApplicationContext.getSharedPreferences(PERMISSION_PREFS_NAME, android.content.Context.MODE_PRIVATE)
+
+    private fun isGranted(permission: String): Boolean =
+        ContextCompat.checkSelfPermission(reactApplicationContext, permission) == PackageManager.PERMISSION_GRANTED
+
+    // PermissionStatus in LocationPermissions.ts
+    private fun currentPermissionStatus(): String {
+        val hasForeground = isGranted(android.Manifest.permission.ACCESS_FINE_LOCATION) ||
+            isGranted(android.Manifest.permission.ACCESS_COARSE_LOCATION)
+        val hasBackground = android.os.Build.VERSION.SDK_INT < android.os.Build.VERSION_CODES.Q ||
+            isGranted(android.Manifest.permission.ACCESS_BACKGROUND_LOCATION)
+        return when {
+            hasForeground && hasBackground -> "background"
+            hasForeground -> "foreground"
+            permissionPrefs().getBoolean(KEY_LOCATION_ASKED, false) -> "denied"
+            else -> "notDetermined"
+        }
+    }
+
+    // Same shape as PermissionResult in NativeLocationModule.ts
+    private fun permissionPayload(message: String): WritableMap {
+        val status = currentPermissionStatus()
+        val activity = currentActivity
+        // Once asked, a permission that no longer needs a rationale is one the system won't prompt for again
+        val canAskAgain = when (status) {
+            "notDetermined" -> true
+            "denied" -> activity != null && ActivityCompat.shouldShowRequestPermissionRationale(
+                activity, android.Manifest.permission.ACCESS_FINE_LOCATION
+            )
+            "foreground" -> android.os.Build.VERSION.SDK_INT >= android.os.Build.VERSION_CODES.Q && (
+                !permissionPrefs().getBoolean(KEY_BACKGROUND_ASKED, false) ||
+                    (activity != null && ActivityCompat.shouldShowRequestPermissionRationale(
+                        activity, android.Manifest.permission.ACCESS_BACKGROUND_LOCATION
+                    ))
+                )
+            else -> false
+        }
+        val accuracy = when {
+            isGranted(android.Manifest.permission.ACCESS_FINE_LOCATION) -> "precise"
+            isGranted(android.Manifest.permission.ACCESS_COARSE_LOCATION) -> "reduced"
+            else -> "none"
+        }
+        return Arguments.createMap().apply {
+            putString("status", status)
+            putString("accuracy", accuracy)
+            putBoolean("canAskAgain", canAskAgain)
+            putString("message", message)
+        }
+    }
+
     @ReactMethod
     fun checkAccuracyAuthorization(promise: Promise) {
         if (DEBUG_MODE) Log.d(TAG, "🎯 [NewArch] checkAccuracyAuthorization called")
@@ -450,6 +543,75 @@ class LocationModule(reactContext: ReactApplicationContext) :
         }
     }
 
+    @ReactMethod
+    fun setConfig(config: ReadableMap, promise: Promise) {
+        if (DEBUG_MODE) Log.d(TAG, "⚙️ [NewArch] setConfig called: $config")
+        
+        try {
+            // Keys that are missing keep their current value
+            val current = LocationService.getTrackingConfig(reactApplicationContext)
+            val updated = LocationService.Companion.TrackingConfig(
+                minDistanceForUpdate = if (config.hasKey("distanceFilterMeters")) config.getDouble("distanceFilterMeters").toFloat() else current.minDistanceForUpdate,
+                forceUpdateIntervalMs = if (config.hasKey("forceUpdateIntervalMs")) config.getDouble("forceUpdateIntervalMs").toLong() else current.forceUpdateIntervalMs,
+                idleUpdateIntervalMs = if (config.hasKey("idleUpdateIntervalMs")) config.getDouble("idleUpdateIntervalMs").toLong() else current.idleUpdateIntervalMs
+            )
+            
+            if (updated.minDistanceForUpdate < 0f || updated.forceUpdateIntervalMs <= 0L || updated.idleUpdateIntervalMs <= 0L) {
+                promise.reject("CONFIG_ERROR", "Distance must be >= 0 and intervals must be > 0")
+                return
+            }
+            
+            LocationService.setTrackingConfig(reactApplicationContext, updated)
+            promise.resolve(trackingConfigToMap(updated))
+        } catch (e: Exception) {
+            if (DEBUG_MODE) Log.e(TAG, "❌ [NewArch] Error in setConfig: ${e.message}", e)
+            promise.reject("CONFIG_ERROR", e.message, e)
+        }
+    }
+
+    @ReactMethod
+    fun getConfig(promise: Promise) {
+        try {
+            promise.resolve(trackingConfigToMap(LocationService.getTrackingConfig(reactApplicationContext)))
+        } catch (e: Exception) {
+            if (DEBUG_MODE) Log.e(TAG, "❌ [NewArch] Error in getConfig: ${e.message}", e)
+            promise.reject("CONFIG_ERROR", e.message, e)
+        }
+    }
+
+    @ReactMethod
+    fun getHealthMetrics(promise: Promise) {
+        try {
+            // Uses the application context so it works without an activity, e.g. from a headless task
+            val hasFineLocation = ContextCompat.checkSelfPermission(
+                reactApplicationContext,
+                android.Manifest.permission.ACCESS_FINE_LOCATION
+            ) == PackageManager.PERMISSION_GRANTED
+            
+            val result = Arguments.createMap().apply {
+                putBoolean("isTracking", LocationService.isTrackingActive())
+                putString("permissionStatus", currentPermissionStatus())
+                putInt("accuracyAuthorization", if (hasFineLocation) 1 else 2) // same scale as checkAccuracyAuthorization
+                putDouble("locationUpdateCount", LocationService.getLocationUpdateCount().toDouble())
+                putDouble("errorCount", LocationService.getErrorCount().toDouble())
+                putDouble("averageAccuracy", LocationService.getAverageLocationAccuracy().toDouble())
+                putDouble("lastUpdateTime", LocationService.getLastLocationUpdateTime().toDouble())
+            }
+            promise.resolve(result)
+        } catch (e: Exception) {
+            if (DEBUG_MODE) Log.e(TAG, "❌ [NewArch] Error in getHealthMetrics: ${e.message}", e)
+            promise.reject("HEALTH_ERROR", e.message, e)
+        }
+    }
+
+    private fun trackingConfigToMap(config: LocationService.Companion.TrackingConfig): WritableMap {
+        return Arguments.createMap().apply {
+            putDouble("distanceFilterMeters", config.minDistanceForUpdate.toDouble())
+            putDouble("forceUpdateIntervalMs", config.forceUpdateIntervalMs.toDouble())
+            putDouble("idleUpdateIntervalMs", config.idleUpdateIntervalMs.toDouble())
+        }
+    }
+
     @ReactMethod
     fun addListener(eventName: String) {
         if (DEBUG_MODE) Log.d(TAG, "👂 [NewArch] addListener called for event: $eventName")
@@ -509,61 +671,39 @@ class LocationModule(reactContext: ReactApplicationContext) :
         }
     }
 
-    // Permission request callback
+    // Permission request callback. Every outcome resolves with the resulting state, which is
+    // also sent as onLocationPermissionChanged (iOS reports it through its delegate the same way)
     override fun onRequestPermissionsResult(requestCode: Int, permissions: Array<String>, grantResults: IntArray): Boolean {
+        if (requestCode != PERMISSION_REQUEST_CODE && requestCode != BACKGROUND_PERMISSION_REQUEST_CODE) {
+            if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] Permission result not for our request code: $requestCode")
+            return false // We didn't handle this permission result
+        }
+
+        if (DEBUG_MODE) {
+            Log.d(TAG, "🔐 [NewArch] Permission result received for request code: $requestCode")
+            Log.d(TAG, "🔐 [NewArch] Permissions: ${permissions.joinToString(", ")}")
+            Log.d(TAG, "🔐 [NewArch] Grant results: ${grantResults.joinToString(", ")}")
+        }
+
+        val deniedPermissions = permissions.filterIndexed { i, _ ->
+            grantResults.getOrNull(i) != PackageManager.PERMISSION_GRANTED
+        }
+        val message = if (deniedPermissions.isEmpty()) {
+            "All permissions granted successfully"
+        } else {
+            "Permissions denied: ${deniedPermissions.joinToString(", ")}"
+        }
+        if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] $message")
+
         if (requestCode == PERMISSION_REQUEST_CODE) {
-            if (DEBUG_MODE) {
-                Log.d(TAG, "🔐 [NewArch] Permission result received for request code: $requestCode")
-                Log.d(TAG, "🔐 [NewArch] Permissions: ${permissions.joinToString(", ")}")
-                Log.d(TAG, "🔐 [NewArch] Grant results: ${grantResults.joinToString(", ")}")
-            }
-            
-            // Check if all permissions were granted
-            val allGranted = grantResults.all { it == PackageManager.PERMISSION_GRANTED }
-            
-            if (allGranted) {
-                if (DEBUG_MODE) Log.d(TAG, "✅ [NewArch] All permissions granted successfully")
-                
-                // Check which location permission was granted
-                val hasFineLocation = permissions.contains(android.Manifest.permission.ACCESS_FINE_LOCATION) &&
-                    grantResults[permissions.indexOf(android.Manifest.permission.ACCESS_FINE_LOCATION)] == PackageManager.PERMISSION_GRANTED
-                
-                val result = Arguments.createMap().apply {
-                    putString("status", "granted")
-                    putString("accuracy", if (hasFineLocation) "full" else "reduced")
-                    putInt("accuracyStatus", if (hasFineLocation) 1 else 2)
-                    putString("message", "All permissions granted successfully")
-                }
-                permissionPromise?.resolve(result)
-                if (DEBUG_MODE) Log.d(TAG, "✅ [NewArch] Permission promise resolved successfully")
-            } else {
-                if (DEBUG_MODE) Log.d(TAG, "❌ [NewArch] Some permissions denied")
-                
-                // Check which specific permissions were denied
-                val deniedPermissions = mutableListOf<String>()
-                for (i in permissions.indices) {
-                    if (grantResults[i] != PackageManager.PERMISSION_GRANTED) {
-                        deniedPermissions.add(permissions[i])
-                        if (DEBUG_MODE) Log.d(TAG, "❌ [NewArch] Permission denied: ${permissions[i]}")
-                    } else {
-                        if (DEBUG_MODE) Log.d(TAG, "✅ [NewArch] Permission granted: ${permissions[i]}")
-                    }
-                }
-                
-                val result = Arguments.createMap().apply {
-                    putString("status", "denied")
-                    putString("accuracy", "none")
-                    putInt("accuracyStatus", 0)
-                    putString("message", "Permissions denied: ${deniedPermissions.joinToString(", ")}")
-                }
-                permissionPromise?.reject("PERMISSION_ERROR", "Some permissions were denied", result)
-                if (DEBUG_MODE) Log.d(TAG, "❌ [NewArch] Permission promise rejected")
-            }
+            permissionPromise?.resolve(permissionPayload(message))
             permissionPromise = null
-            if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] Permission callback completed")
-            return true // We handled the permission result
+        } else {
+            backgroundPermissionPromise?.resolve(permissionPayload(message))
+            backgroundPermissionPromise = null
         }
-        if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] Permission result not for our request code: $requestCode")
-        return false // We didn't handle this permission result
+        sendPermissionChange(permissionPayload(message))
+        if (DEBUG_MODE) Log.d(TAG, "🔐 [NewArch] Permission callback completed")
+        return true // We handled the permission result
     }
 } 
\ No newline at end of file
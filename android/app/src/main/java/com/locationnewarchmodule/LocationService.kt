@@ -47,8 +47,8 @@ class LocationService : Service() {
         private const val MOVEMENT_PATTERN_BUFFER_SIZE = 10
         private const val VELOCITY_SMOOTHING_FACTOR = 0.8f
         private const val MIN_DISPLACEMENT_METERS = 2f
-        private const val MIN_DISTANCE_FOR_UPDATE = 50f // 50 meters threshold
-        private const val FORCE_UPDATE_INTERVAL_MS = 15000L
+        private const val DEFAULT_MIN_DISTANCE_FOR_UPDATE = 50f // 50 meters threshold
+        private const val DEFAULT_FORCE_UPDATE_INTERVAL_MS = 15000L
         private const val MOVEMENT_THRESHOLD_METERS = 1.5f
         private const val STATIONARY_TIME_THRESHOLD_MS = 20000L
         private const val BATTERY_SAVING_MODE_THRESHOLD = 0.15f
@@ -63,9 +63,10 @@ class LocationService : Service() {
         private const val PROVIDER_SWITCH_COOLDOWN_MS = 10000L
         private const val PERFORMANCE_MONITORING_INTERVAL_MS = 60000L
         private const val METRICS_BUFFER_SIZE = 100
-        private const val IDLE_UPDATE_INTERVAL_MS = 8000L
+        private const val DEFAULT_IDLE_UPDATE_INTERVAL_MS = 8000L
         private const val IDLE_ACCUMULATION_THRESHOLD_MS = 5000L
         private val IDLE_TIME_THRESHOLD_MS = 60000L
+        private const val CONFIG_PREFS_NAME = "LocationServiceConfig"
         
         // Core service state variables
         private var instance: WeakReference<LocationService>? = null
@@ -155,11 +156,61 @@ class LocationService : Service() {
             var lastIdleStart: Long = 0L
         )
         
+        // Thresholds that can be changed at runtime from JS (LocationModule.setConfig)
+        data class TrackingConfig(
+            val minDistanceForUpdate: Float = DEFAULT_MIN_DISTANCE_FOR_UPDATE,
+            val forceUpdateIntervalMs: Long = DEFAULT_FORCE_UPDATE_INTERVAL_MS,
+            val idleUpdateIntervalMs: Long = DEFAULT_IDLE_UPDATE_INTERVAL_MS
+        )
+        
+        @Volatile private var trackingConfig = TrackingConfig()
+        @Volatile private var isTrackingConfigLoaded = false
+        
+        // Loads the persisted config on first use so it survives process restarts
+        fun getTrackingConfig(context: android.content.Context): TrackingConfig {
+            if (!isTrackingConfigLoaded) {
+                val prefs = context.getSharedPreferences(CONFIG_PREFS_NAME, android.content.Context.MODE_PRIVATE)
+                trackingConfig = TrackingConfig(
+                    minDistanceForUpdate = prefs.getFloat("minDistanceForUpdate", DEFAULT_MIN_DISTANCE_FOR_UPDATE),
+                    forceUpdateIntervalMs = prefs.getLong("forceUpdateIntervalMs", DEFAULT_FORCE_UPDATE_INTERVAL_MS),
+                    idleUpdateIntervalMs = prefs.getLong("idleUpdateIntervalMs", DEFAULT_IDLE_UPDATE_INTERVAL_MS)
+                )
+                isTrackingConfigLoaded = true
+            }
+            return trackingConfig
+        }
+        
+        fun setTrackingConfig(context: android.content.Context, config: TrackingConfig) {
+            val previous = getTrackingConfig(context)
+            trackingConfig = config
+            
+            context.getSharedPreferences(CONFIG_PREFS_NAME, android.content.Context.MODE_PRIVATE).edit().apply {
+                putFloat("minDistanceForUpdate", config.minDistanceForUpdate)
+                putLong("forceUpdateIntervalMs", config.forceUpdateIntervalMs)
+                putLong("idleUpdateIntervalMs", config.idleUpdateIntervalMs)
+                apply()
+            }
+            
+            if (DEBUG_MODE) Log.d(TAG, "⚙️ Tracking config updated: $config")
+            
+            // The idle timer runs at a fixed rate, so it has to be rescheduled to pick up a new interval
+            if (previous.idleUpdateIntervalMs != config.idleUpdateIntervalMs) {
+                instance?.get()?.restartIdleUpdateTimerIfRunning()
+            }
+        }
+        
         // Service methods
         fun getInstance(): LocationService? = instance?.get()
         fun getLastKnownLocation(): Location? = lastKnownLocation
         fun isReady(): Boolean = isServiceReady
         
+        // Read by LocationModule.getHealthMetrics
+        fun isTrackingActive(): Boolean = instance?.get()?.isLocationTrackingActive == true
+        fun getLocationUpdateCount(): Long = totalLocationsProcessed.get()
+        fun getErrorCount(): Int = errorCount.get()
+        fun getAverageLocationAccuracy(): Float = averageLocationAccuracy
+        fun getLastLocationUpdateTime(): Long = lastLocationUpdateTime
+        
         fun setOnFirstLocationCallback(callback: (Location) -> Unit) {
             onFirstLocationCallback = callback
         }
@@ -258,6 +309,7 @@ class LocationService : Service() {
             initializePerformanceMetrics()
             initializeLocationServices()
             restoreOutsideVisitData()
+            getTrackingConfig(this)
             startPerformanceMonitoring()
             startBatteryMonitoring()
             startCacheCleanupTimer()
@@ -308,6 +360,7 @@ class LocationService : Service() {
                 "STOP_TRACKING" -> {
                     if (DEBUG_MODE) Log.d(TAG, "🔵 LocationService onStartCommand - Stopping location tracking")
                     stopLocationUpdates()
+                    sendStatus("stopped")
                     stopSelf()
                 }
                 else -> {
@@ -471,6 +524,7 @@ class LocationService : Service() {
             
             fusedLocationClient.requestLocationUpdates(locationRequest, locationCallback!!, Looper.getMainLooper())
             if (DEBUG_MODE) Log.d(TAG, "🔵 startLocationUpdatesWithRequest - Location updates requested successfully")
+            sendStatus("started")
         } catch (e: Exception) {
             Log.e(TAG, "🔴 startLocationUpdatesWithRequest - Failed to start custom location request", e)
             handleLocationError(e)
@@ -494,14 +548,14 @@ class LocationService : Service() {
             try {
                 val lastLocation = lastUpdateLocation
             val timeSinceLastUpdate = currentTime - lastUpdateTime
-                val shouldForceUpdate = timeSinceLastUpdate >= FORCE_UPDATE_INTERVAL_MS
+                val shouldForceUpdate = timeSinceLastUpdate >= trackingConfig.forceUpdateIntervalMs
                 
             if (DEBUG_MODE) {
                 Log.d(TAG, "⏰ Time Analysis:")
                 Log.d(TAG, "   📅 Current Time: $currentTime")
                 Log.d(TAG, "   📅 Last Update Time: $lastUpdateTime")
                 Log.d(TAG, "   ⏱️ Time Since Last Update: ${timeSinceLastUpdate}ms (${timeSinceLastUpdate/1000}s)")
-                Log.d(TAG, "   🔄 Force Update Interval: ${FORCE_UPDATE_INTERVAL_MS}ms")
+                Log.d(TAG, "   🔄 Force Update Interval: ${trackingConfig.forceUpdateIntervalMs}ms")
                 Log.d(TAG, "   ⚡ Should Force Update: $shouldForceUpdate")
             }
             
@@ -513,11 +567,11 @@ class LocationService : Service() {
                     Log.d(TAG, "📏 Distance Analysis:")
                     Log.d(TAG, "   📍 Current Displacement: ${currentDisplacement}m")
                     Log.d(TAG, "   📏 Total Displacement: ${totalDisplacement}m")
-                    Log.d(TAG, "   🎯 Minimum Distance Threshold: ${MIN_DISTANCE_FOR_UPDATE}m")
-                    Log.d(TAG, "   ✅ Above Distance Threshold: ${totalDisplacement >= MIN_DISTANCE_FOR_UPDATE}")
+                    Log.d(TAG, "   🎯 Minimum Distance Threshold: ${trackingConfig.minDistanceForUpdate}m")
+                    Log.d(TAG, "   ✅ Above Distance Threshold: ${totalDisplacement >= trackingConfig.minDistanceForUpdate}")
                 }
                 
-                val isBelowThreshold = totalDisplacement < MIN_DISTANCE_FOR_UPDATE
+                val isBelowThreshold = totalDisplacement < trackingConfig.minDistanceForUpdate
                 val isStationary = currentDisplacement < 1.0f
                 
                 if (DEBUG_MODE) {
@@ -530,7 +584,7 @@ class LocationService : Service() {
                 if (isBelowThreshold && !shouldForceUpdate) {
                     if (DEBUG_MODE) {
                         Log.d(TAG, "⏭️ SKIPPING LOCATION UPDATE - Stationary/Insufficient Movement")
-                        Log.d(TAG, "   📊 Reason: Total displacement (${totalDisplacement}m) < threshold (${MIN_DISTANCE_FOR_UPDATE}m)")
+                        Log.d(TAG, "   📊 Reason: Total displacement (${totalDisplacement}m) < threshold (${trackingConfig.minDistanceForUpdate}m)")
                         Log.d(TAG, "   ⏰ Time since last update: ${timeSinceLastUpdate}ms")
                         Log.d(TAG, "   🔄 Force update not due yet")
                     }
@@ -777,6 +831,7 @@ class LocationService : Service() {
         if (DEBUG_MODE) Log.d(TAG, "updatePerformanceMetrics called with: $location, processingTime: $processingTime")
         try {
             if (location != null) {
+                totalLocationsProcessed.incrementAndGet()
                 performanceMetrics["totalAccuracy"]?.addAndGet(location.accuracy.toLong())
             }
             performanceMetrics["totalProcessingTime"]?.addAndGet(processingTime)
@@ -855,31 +910,25 @@ class LocationService : Service() {
         }
         
         val idleTimeData = Arguments.createMap().apply {
-            putDouble("latitude", -999.0)
-            putDouble("longitude", -999.0)
-            putDouble("accuracy", -1.0)
-            putDouble("speed", -1.0)
+            putString("kind", "idle")
+            putInt("version", LocationModule.EVENT_PROTOCOL_VERSION)
+            putString("reason", "stationary")
             putDouble("timestamp", currentTime.toDouble())
-            putString("provider", "idle_tracking")
-            putString("type", "idle_time_only")
             putString("skipReason", "stationary_insufficient_movement")
             putDouble("idleTime", totalIdleTimeBelowThreshold.toDouble())
             putDouble("outsideVisitIdleTime", outsideVist_Total_IdleTime.toDouble())
+            putBoolean("isCurrentlyIdle", isCurrentlyIdle)
             putBoolean("isOutsideVisitTracking", isOutsideVisitTracking)
             putDouble("lastLocationUpdateTime", lastLocationUpdateTime.toDouble())
             putDouble("idleThreshold", IDLE_TIME_THRESHOLD_MS.toDouble())
             putDouble("totalDisplacementSinceLastUpdate", totalDisplacementSinceLastUpdate.toDouble())
-            putDouble("minDistanceForUpdate", MIN_DISTANCE_FOR_UPDATE.toDouble())
+            putDouble("minDistanceForUpdate", trackingConfig.minDistanceForUpdate.toDouble())
         }
         
         if (DEBUG_MODE) {
             Log.d(TAG, "📤 Sending Idle Time Data to React Native (Location Skipped):")
-            Log.d(TAG, "   📍 Location: (${idleTimeData.getDouble("latitude")}, ${idleTimeData.getDouble("longitude")})")
-            Log.d(TAG, "   🎯 Accuracy: ${idleTimeData.getDouble("accuracy")}")
-            Log.d(TAG, "   🏃 Speed: ${idleTimeData.getDouble("speed")}")
             Log.d(TAG, "   ⏰ Timestamp: ${idleTimeData.getDouble("timestamp")}")
-            Log.d(TAG, "   🔧 Provider: ${idleTimeData.getString("provider")}")
-            Log.d(TAG, "   📋 Type: ${idleTimeData.getString("type")}")
+            Log.d(TAG, "   📋 Kind: ${idleTimeData.getString("kind")} (${idleTimeData.getString("reason")})")
             Log.d(TAG, "   🚫 Skip Reason: ${idleTimeData.getString("skipReason")}")
             Log.d(TAG, "   🕐 Total Idle Time: ${idleTimeData.getDouble("idleTime")}ms (${idleTimeData.getDouble("idleTime")/1000}s)")
             Log.d(TAG, "   🏠 Outside Visit Idle Time: ${idleTimeData.getDouble("outsideVisitIdleTime")}ms (${idleTimeData.getDouble("outsideVisitIdleTime")/1000}s)")
@@ -906,6 +955,9 @@ class LocationService : Service() {
         }
         
         val locationData = Arguments.createMap().apply {
+            putString("kind", "fix")
+            putInt("version", LocationModule.EVENT_PROTOCOL_VERSION)
+            putString("provider", location.provider)
             putDouble("latitude", location.latitude)
             putDouble("longitude", location.longitude)
             putDouble("accuracy", location.accuracy.toDouble())
@@ -920,7 +972,7 @@ class LocationService : Service() {
             putBoolean("isBelowDistanceThreshold", false)
             putDouble("totalIdleTimeBelowThreshold", totalIdleTimeBelowThreshold.toDouble())
             putBoolean("isCurrentlyIdle", isCurrentlyIdle)
-            putDouble("outsideVist_Total_IdleTime", outsideVist_Total_IdleTime.toDouble())
+            putDouble("outsideVisitIdleTime", outsideVist_Total_IdleTime.toDouble())
             putBoolean("isOutsideVisitTracking", isOutsideVisitTracking)
         }
         
@@ -932,13 +984,15 @@ class LocationService : Service() {
         if (DEBUG_MODE) {
             Log.d(TAG, "📡 sendLocationToReactNative called with WritableMap, isFirstLocation: $isFirstLocation")
             
-            val isIdleTimeData = locationData.hasKey("type") && locationData.getString("type") == "idle_time_only"
+            val kind = if (locationData.hasKey("kind")) locationData.getString("kind") else null
             
-            if (isIdleTimeData) {
+            if (kind == "idle") {
                 Log.d(TAG, "🕐 Sending IDLE TIME DATA to React Native")
-                Log.d(TAG, "   📊 Data Type: Idle Time Only Update")
+                Log.d(TAG, "   📊 Reason: ${locationData.getString("reason")}")
                 Log.d(TAG, "   🕐 Total Idle Time: ${locationData.getDouble("idleTime")}ms")
                 Log.d(TAG, "   🏠 Outside Visit Idle: ${locationData.getDouble("outsideVisitIdleTime")}ms")
+            } else if (kind != "fix") {
+                Log.d(TAG, "💓 Sending ${kind?.uppercase()} event to React Native")
             } else {
                 Log.d(TAG, "📍 Sending LOCATION DATA to React Native")
                 Log.d(TAG, "   📍 Coordinates: (${locationData.getDouble("latitude")}, ${locationData.getDouble("longitude")})")
@@ -1050,7 +1104,7 @@ class LocationService : Service() {
                         Log.e(TAG, "Error in idle update timer", e)
                     }
                 }
-            }, IDLE_UPDATE_INTERVAL_MS, IDLE_UPDATE_INTERVAL_MS)
+            }, trackingConfig.idleUpdateIntervalMs, trackingConfig.idleUpdateIntervalMs)
         }
     }
     
@@ -1059,6 +1113,12 @@ class LocationService : Service() {
         idleUpdateTimer = null
     }
     
+    private fun restartIdleUpdateTimerIfRunning() {
+        if (idleUpdateTimer != null) {
+            startIdleUpdateTimer()
+        }
+    }
+    
     // Cleanup methods
     private fun cleanupAllTimers() {
         if (DEBUG_MODE) Log.d(TAG, "cleanupAllTimers called")
@@ -1121,6 +1181,8 @@ class LocationService : Service() {
             isInErrorRecoveryMode = false
             
             if (errorRecoveryAttempts >= MAX_CONSECUTIVE_ERRORS) {
+                // Lets JS end the tracking session with reason "error"
+                sendStatus("stopped", "Error recovery failed: ${e.message}")
                 stopSelf()
             }
         }
@@ -1211,28 +1273,47 @@ class LocationService : Service() {
     }
     
     // Periodic idle time update
+    // Sends an idle event while there is idle time to report, otherwise a heartbeat
     private fun sendPeriodicIdleTimeUpdate() {
+        val currentTime = System.currentTimeMillis()
         if (isCurrentlyIdle || totalIdleTimeBelowThreshold > 0 || outsideVist_Total_IdleTime > 0) {
             val idleParams = Arguments.createMap().apply {
-                putDouble("latitude", Double.NaN)
-                putDouble("longitude", Double.NaN)
-                putDouble("accuracy", -1.0)
-                putDouble("speed", -1.0)
-                putDouble("timestamp", System.currentTimeMillis().toDouble())
-                putDouble("displacement", -1.0)
-                putString("updateReason", "Periodic idle update")
-                putBoolean("isSameLocation", false)
-                putBoolean("isBelowDistanceThreshold", true)
-                putDouble("totalIdleTimeBelowThreshold", totalIdleTimeBelowThreshold.toDouble())
+                putString("kind", "idle")
+                putInt("version", LocationModule.EVENT_PROTOCOL_VERSION)
+                putString("reason", "periodic")
+                putDouble("timestamp", currentTime.toDouble())
+                putDouble("idleTime", totalIdleTimeBelowThreshold.toDouble())
+                putDouble("outsideVisitIdleTime", outsideVist_Total_IdleTime.toDouble())
                 putBoolean("isCurrentlyIdle", isCurrentlyIdle)
-                putDouble("outsideVist_Total_IdleTime", outsideVist_Total_IdleTime.toDouble())
                 putBoolean("isOutsideVisitTracking", isOutsideVisitTracking)
+                putDouble("lastLocationUpdateTime", lastLocationUpdateTime.toDouble())
             }
             
             sendLocationToReactNative(idleParams, false)
+        } else {
+            val heartbeat = Arguments.createMap().apply {
+                putString("kind", "heartbeat")
+                putInt("version", LocationModule.EVENT_PROTOCOL_VERSION)
+                putDouble("timestamp", currentTime.toDouble())
+                putDouble("lastLocationUpdateTime", lastLocationUpdateTime.toDouble())
+            }
+            
+            sendLocationToReactNative(heartbeat, false)
         }
     }
     
+    private fun sendStatus(status: String, message: String? = null) {
+        val statusData = Arguments.createMap().apply {
+            putString("kind", "status")
+            putInt("version", LocationModule.EVENT_PROTOCOL_VERSION)
+            putDouble("timestamp", System.currentTimeMillis().toDouble())
+            putString("status", status)
+            message?.let { putString("message", it) }
+        }
+        
+        sendLocationToReactNative(statusData, false)
+    }
+    
     // Visit status methods
     fun updateVisitStatus(visitId: String?) {
         if (visitId != null && visitId != lastKnownVisitId) {
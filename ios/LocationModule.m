@@ -44,12 +44,27 @@ RCT_EXPORT_MODULE()
 - (void)requestLocationPermissions:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
     [locationModuleImpl requestLocationPermissionsWithResolve:resolve reject:reject];
 }
+- (void)getPermissionStatus:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+    [locationModuleImpl getPermissionStatus:resolve reject:reject];
+}
+- (void)requestBackgroundPermission:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+    [locationModuleImpl requestBackgroundPermission:resolve reject:reject];
+}
 - (void)checkAccuracyAuthorization:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
     [locationModuleImpl checkAccuracyAuthorizationWithResolve:resolve reject:reject];
 }
 - (void)requestAccuracyAuthorization:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
     [locationModuleImpl requestAccuracyAuthorizationWithResolve:resolve reject:reject];
 }
+- (void)setConfig:(NSDictionary *)config resolve:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+    [locationModuleImpl setConfig:config resolve:resolve reject:reject];
+}
+- (void)getConfig:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+    [locationModuleImpl getConfig:resolve reject:reject];
+}
+- (void)getHealthMetrics:(RCTPromiseResolveBlock)resolve reject:(RCTPromiseRejectBlock)reject {
+    [locationModuleImpl getHealthMetrics:resolve reject:reject];
+}
 - (void)addListener:(NSString *)eventName {
     [locationModuleImpl addListenerWithEventName:eventName];
 }
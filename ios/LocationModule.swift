@@ -33,6 +33,8 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
     // MARK: - Constants
     private static let DEBUG_MODE = true
     private static let TAG = "LocationModule_iOS"
+    // Version of the onLocationUpdate event protocol (see LocationProtocol.ts)
+    private static let EVENT_PROTOCOL_VERSION = 1
     
     // MARK: - Core Properties
     private var locationManager: CLLocationManager?
@@ -43,7 +45,6 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
     private var lastLocationUpdateTime: TimeInterval = 0
     private var isTracking = false
     private var isServiceReady: Bool = false
-    private var permissionCallback: RCTPromiseResolveBlock?
     private var listenerCount: [String: Int] = [:]
     private var hasListeners: Bool = false
     
@@ -91,6 +92,14 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
     
     // MARK: - Adaptive Performance Properties
     private var currentUpdateInterval: TimeInterval = Constants.FORCE_UPDATE_INTERVAL_MS / 1000
+
+    // MARK: - Runtime Tracking Configuration (set from JS via setConfig, persisted in UserDefaults)
+    private static let CONFIG_DISTANCE_KEY = "trackingConfig_distanceFilterMeters"
+    private static let CONFIG_FORCE_UPDATE_KEY = "trackingConfig_forceUpdateIntervalMs"
+    private static let CONFIG_IDLE_UPDATE_KEY = "trackingConfig_idleUpdateIntervalMs"
+    private var minDistanceForUpdate: Double = Constants.MIN_DISTANCE_FOR_UPDATE
+    private var forceUpdateIntervalMs: Double = Constants.FORCE_UPDATE_INTERVAL_MS
+    private var idleUpdateIntervalMs: Double = Constants.IDLE_TIMER_INTERVAL * 1000
     private var adaptiveAccuracyMode: Bool = true
     private var batterySavingMode: Bool = false
     private var highAccuracyMode: Bool = false
@@ -127,6 +136,9 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
     // MARK: - Optimized Permission Handling
     private var pendingPermissionResolve: RCTPromiseResolveBlock? = nil
     private var pendingPermissionReject: RCTPromiseRejectBlock? = nil
+    private var pendingBackgroundResolve: RCTPromiseResolveBlock? = nil
+    // iOS shows the "Always" prompt only once; later requests return without asking
+    private static let ALWAYS_PROMPT_SHOWN_KEY = "permission_alwaysPromptShown"
     
     // MARK: - Event Emitter
     private var eventEmitter: ((String, [String: Any]) -> Void)?
@@ -139,6 +151,7 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
 
     @objc override init() {
         super.init()
+        loadTrackingConfig()
         setupLocationManager()
         loadOutsideVisitData()
         setupBackgroundNotifications()
@@ -295,6 +308,12 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
             name: UIApplication.willEnterForegroundNotification,
             object: nil
         )
+        NotificationCenter.default.addObserver(
+            self,
+            selector: #selector(appDidBecomeActive),
+            name: UIApplication.didBecomeActiveNotification,
+            object: nil
+        )
     }
     @objc private func appDidEnterBackground() {
         isInBackground = true
@@ -307,6 +326,10 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         configureAdaptiveAccuracy() // Reconfigure for foreground
         print("LocationModule: ☀️ App entered foreground")
     }
+    @objc private func appDidBecomeActive() {
+        // Back from the "Always" prompt; iOS sends no authorization callback when the user keeps "While Using"
+        resolvePendingBackgroundRequest()
+    }
     // MARK: - Background Task Management
     private func startBackgroundTask() {
         endBackgroundTask() // End any existing task
@@ -408,7 +431,7 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         } else if highAccuracyMode {
             locationManager.distanceFilter = 10.0 // 10 meters
         } else {
-            locationManager.distanceFilter = Constants.MIN_DISTANCE_FOR_UPDATE
+            locationManager.distanceFilter = minDistanceForUpdate
         }
         print("LocationModule: ⚙️ Configured accuracy: \(targetAccuracy)m, distance filter: \(locationManager.distanceFilter)m")
     }
@@ -475,10 +498,11 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
                         self.configureAdaptiveAccuracy()
                         self.startAllLocationUpdates()
                         self.startPeriodicTimer()
+                        self.sendStatus("started")
                         let permissionType = status == .authorizedAlways ? "always" : "whenInUse"
                         print("LocationModule: ✅ Tracking started with permission: \(permissionType)")
                         resolve([
-                            "status": "started",
+                            "status": "success",
                             "permission": permissionType,
                             "accuracy": newAccuracy == .fullAccuracy ? "full" : "reduced",
                             "message": "Location tracking started with \(permissionType) permission"
@@ -490,10 +514,11 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
             configureAdaptiveAccuracy()
             startAllLocationUpdates()
             startPeriodicTimer()
+            sendStatus("started")
             let permissionType = status == .authorizedAlways ? "always" : "whenInUse"
             print("LocationModule: ✅ Tracking started with permission: \(permissionType)")
             resolve([
-                "status": "started",
+                "status": "success",
                 "permission": permissionType,
                 "message": "Location tracking started with \(permissionType) permission"
             ])
@@ -543,6 +568,7 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
             // Reset state
             self.isTracking = false
             print("LocationModule: 📍 Tracking state set to: \(self.isTracking)")
+            self.sendStatus("stopped")
             // Clear location data and cache
             self.clearLocationData()
             // Clean up listeners
@@ -586,7 +612,7 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
     private func startPeriodicTimer() {
         stopPeriodicTimer() // Stop any existing timer
         // Use adaptive interval based on current performance
-        let adaptiveInterval = max(Constants.IDLE_TIMER_INTERVAL, currentUpdateInterval)
+        let adaptiveInterval = max(idleUpdateIntervalMs / 1000, currentUpdateInterval)
         periodicTimer = Timer.scheduledTimer(withTimeInterval: adaptiveInterval, repeats: true) { [weak self] _ in
             self?.sendPeriodicIdleTimeUpdate()
         }
@@ -610,38 +636,32 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
             let ongoingIdleDuration = Date().timeIntervalSince1970 * 1000 - idleStartTime
             currentIdleTime += ongoingIdleDuration
         }
-        // Send idle time only update with invalid location values (matching Android)
+        let now = Date().timeIntervalSince1970 * 1000
+        // Idle event while there is idle time to report, otherwise a heartbeat (matching Android)
+        guard isCurrentlyIdle || currentIdleTime > 0 || outsideVist_Total_IdleTime > 0 else {
+            eventEmitter?("onLocationUpdate", [
+                "kind": "heartbeat",
+                "version": LocationModuleImpl.EVENT_PROTOCOL_VERSION,
+                "timestamp": now,
+                "lastLocationUpdateTime": lastLocationUpdateTime * 1000
+            ])
+            return
+        }
         let idleTimeDict: [String: Any] = [
-            "latitude": Double.nan,
-            "longitude": Double.nan,
-            "accuracy": -1.0,
-            "altitude": -1.0,
-            "speed": -1.0,
-            "speedAccuracy": -1.0,
-            "heading": -1.0,
-            "timestamp": Date().timeIntervalSince1970 * 1000,
-            "displacement": -1.0,
-            "updateReason": "Periodic idle update",
-            "isSameLocation": false,
-            "isBelowDistanceThreshold": true,
-            "totalIdleTimeBelowThreshold": currentIdleTime,
+            "kind": "idle",
+            "version": LocationModuleImpl.EVENT_PROTOCOL_VERSION,
+            "reason": "periodic",
+            "timestamp": now,
+            "idleTime": currentIdleTime,
+            "outsideVisitIdleTime": outsideVist_Total_IdleTime,
             "isCurrentlyIdle": isCurrentlyIdle,
-            "outsideVist_Total_IdleTime": outsideVist_Total_IdleTime,
-            "isOutsideVisitTracking": isOutsideVisitTracking
+            "isOutsideVisitTracking": isOutsideVisitTracking,
+            "lastLocationUpdateTime": lastLocationUpdateTime * 1000
         ]
-        print("LocationModule: 📦 [IdleTimer] PERIODIC idle time update params: " +
-              "latitude: NaN (invalid), " +
-              "longitude: NaN (invalid), " +
-              "accuracy: -1.0, " +
-              "speed: -1.0, " +
-              "timestamp: \(Date().timeIntervalSince1970 * 1000), " +
-              "displacement: -1.0, " +
-              "updateReason: Periodic idle update, " +
-              "isSameLocation: false, " +
-              "isBelowDistanceThreshold: true, " +
-              "totalIdleTimeBelowThreshold: \(currentIdleTime), " +
+        print("LocationModule: 📦 [IdleTimer] PERIODIC idle event: " +
+              "idleTime: \(currentIdleTime), " +
               "isCurrentlyIdle: \(isCurrentlyIdle), " +
-              "outsideVist_Total_IdleTime: \(outsideVist_Total_IdleTime), " +
+              "outsideVisitIdleTime: \(outsideVist_Total_IdleTime), " +
               "isOutsideVisitTracking: \(isOutsideVisitTracking)")
         eventEmitter?("onLocationUpdate", idleTimeDict)
     }
@@ -673,7 +693,7 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
                 "isBelowDistanceThreshold": false,
                 "totalIdleTimeBelowThreshold": totalIdleTimeBelowThreshold * 1000,
                 "isCurrentlyIdle": isCurrentlyIdle,
-                "outsideVist_Total_IdleTime": outsideVist_Total_IdleTime * 1000,
+                "outsideVisitIdleTime": outsideVist_Total_IdleTime * 1000,
                 "isOutsideVisitTracking": isOutsideVisitTracking
             ]
             
@@ -702,10 +722,10 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
             handleWhenInUseAuthorized(resolve: resolve)
         case .denied:
             print("LocationModule: ❌ Permission denied")
-            reject("PERMISSION_DENIED", "Location permission denied", nil)
+            resolve(permissionPayload("Location permission denied"))
         case .restricted:
             print("LocationModule: ❌ Permission restricted")
-            reject("PERMISSION_RESTRICTED", "Location permission restricted", nil)
+            resolve(permissionPayload("Location permission restricted"))
         case .notDetermined:
             print("LocationModule: ❓ Permission not determined, requesting when in use")
             // Store the promise blocks to resolve/reject later in the delegate
@@ -714,7 +734,7 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
             locationManager.requestWhenInUseAuthorization()
         @unknown default:
             print("LocationModule: ❓ Unknown permission status")
-            reject("UNKNOWN_STATUS", "Unknown permission status", nil)
+            resolve(permissionPayload("Unknown permission status"))
         }
     }
     
@@ -730,31 +750,86 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
                     let newAccuracy = self.locationManager?.accuracyAuthorization
                     print("LocationModule: 🎯 New accuracy authorization: \(newAccuracy?.rawValue ?? -1)")
                     self.configureAdaptiveAccuracy()
-                    resolve([
-                        "status": "authorizedAlways",
-                        "accuracy": newAccuracy == .fullAccuracy ? "full" : "reduced",
-                        "accuracyStatus": newAccuracy?.rawValue ?? 0
-                    ])
+                    resolve(self.permissionPayload("Location permission granted for always"))
                 }
                 return
             }
             configureAdaptiveAccuracy()
-            resolve([
-                "status": "authorizedAlways",
-                "accuracy": "full",
-                "accuracyStatus": accuracyStatus?.rawValue ?? 0
-            ])
-        } else {
-            resolve(["status": "authorizedAlways"])
         }
+        resolve(permissionPayload("Location permission granted for always"))
     }
 
+    // The upgrade to "Always" is a separate step (requestBackgroundPermission) so the app can explain it first
     private func handleWhenInUseAuthorized(resolve: @escaping RCTPromiseResolveBlock) {
         print("LocationModule: ⚠️ Authorized when in use")
-        permissionCallback = resolve
-        locationManager?.requestAlwaysAuthorization()
+        resolve(permissionPayload("Location permission granted for when in use"))
+    }
+
+    @objc(getPermissionStatus:reject:)
+    func getPermissionStatus(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        guard locationManager != nil else {
+            reject("ERROR", "Location manager not initialized", nil)
+            return
+        }
+        resolve(permissionPayload("Current authorization status"))
+    }
+
+    @objc(requestBackgroundPermission:reject:)
+    func requestBackgroundPermission(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        guard let locationManager = locationManager else {
+            reject("ERROR", "Location manager not initialized", nil)
+            return
+        }
+        let userDefaults = UserDefaults.standard
+        guard locationManager.authorizationStatus == .authorizedWhenInUse,
+              !userDefaults.bool(forKey: LocationModuleImpl.ALWAYS_PROMPT_SHOWN_KEY) else {
+            print("LocationModule: 🔐 Not asking for always authorization in state \(permissionStatusName(locationManager.authorizationStatus))")
+            resolve(permissionPayload("Background permission not requested"))
+            return
+        }
+
+        userDefaults.set(true, forKey: LocationModuleImpl.ALWAYS_PROMPT_SHOWN_KEY)
+        resolvePendingBackgroundRequest()
+        pendingBackgroundResolve = resolve
         print("LocationModule: 🔄 Requesting always authorization")
-        resolve(["status": "authorizedWhenInUse", "message": "Location permission granted for when in use"])
+        locationManager.requestAlwaysAuthorization()
+        // If iOS decides not to show the prompt the app never leaves the active state and nothing else resolves the request
+        DispatchQueue.main.asyncAfter(deadline: .now() + 1.0) { [weak self] in
+            guard UIApplication.shared.applicationState == .active else { return }
+            self?.resolvePendingBackgroundRequest()
+        }
+    }
+
+    private func resolvePendingBackgroundRequest() {
+        guard let resolve = pendingBackgroundResolve else { return }
+        pendingBackgroundResolve = nil
+        resolve(permissionPayload("Background permission request finished"))
+    }
+
+    // Same shape as PermissionResult in NativeLocationModule.ts
+    private func permissionPayload(_ message: String) -> [String: Any] {
+        let status = locationManager?.authorizationStatus ?? .notDetermined
+        let granted = status == .authorizedAlways || status == .authorizedWhenInUse
+        var accuracy = granted ? "precise" : "none"
+        if granted, #available(iOS 14.0, *), locationManager?.accuracyAuthorization != .fullAccuracy {
+            accuracy = "reduced"
+        }
+        // After a denial, restriction or the one "Always" prompt only the Settings app can change the permission
+        let canAskAgain: Bool
+        switch status {
+        case .notDetermined:
+            canAskAgain = true
+        case .authorizedWhenInUse:
+            canAskAgain = !UserDefaults.standard.bool(forKey: LocationModuleImpl.ALWAYS_PROMPT_SHOWN_KEY)
+        default:
+            canAskAgain = false
+        }
+        return [
+            "status": permissionStatusName(status),
+            "accuracy": accuracy,
+            "canAskAgain": canAskAgain,
+            "message": message
+        ]
     }
 
     @objc(checkAccuracyAuthorization:reject:)
@@ -810,6 +885,79 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
             resolve(1)
         }
     }
+
+    @objc(setConfig:resolve:reject:)
+    func setConfig(_ config: NSDictionary, resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        let distance = (config["distanceFilterMeters"] as? NSNumber)?.doubleValue ?? minDistanceForUpdate
+        let forceInterval = (config["forceUpdateIntervalMs"] as? NSNumber)?.doubleValue ?? forceUpdateIntervalMs
+        let idleInterval = (config["idleUpdateIntervalMs"] as? NSNumber)?.doubleValue ?? idleUpdateIntervalMs
+        guard distance >= 0, forceInterval > 0, idleInterval > 0 else {
+            reject("CONFIG_ERROR", "distanceFilterMeters must be >= 0 and intervals must be > 0", nil)
+            return
+        }
+        let idleIntervalChanged = idleInterval != idleUpdateIntervalMs
+        minDistanceForUpdate = distance
+        forceUpdateIntervalMs = forceInterval
+        idleUpdateIntervalMs = idleInterval
+        saveTrackingConfig()
+        DispatchQueue.main.async {
+            if !self.batterySavingMode && !self.highAccuracyMode {
+                self.locationManager?.distanceFilter = self.minDistanceForUpdate
+            }
+            if idleIntervalChanged && self.periodicTimer != nil {
+                self.startPeriodicTimer()
+            }
+        }
+        print("LocationModule: ⚙️ Tracking config updated - distance: \(minDistanceForUpdate)m, force update: \(forceUpdateIntervalMs)ms, idle update: \(idleUpdateIntervalMs)ms")
+        resolve(trackingConfigDictionary())
+    }
+
+    @objc(getConfig:reject:)
+    func getConfig(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        resolve(trackingConfigDictionary())
+    }
+
+    @objc(getHealthMetrics:reject:)
+    func getHealthMetrics(_ resolve: @escaping RCTPromiseResolveBlock, reject: @escaping RCTPromiseRejectBlock) {
+        guard let locationManager = locationManager else {
+            reject("ERROR", "Location manager not initialized", nil)
+            return
+        }
+        // Read-only: unlike checkAccuracyAuthorization this never asks for full accuracy
+        var accuracyAuthorization = 1
+        if #available(iOS 14.0, *) {
+            accuracyAuthorization = locationManager.accuracyAuthorization == .fullAccuracy ? 1 : 0
+        }
+        resolve([
+            "isTracking": isTracking,
+            "permissionStatus": permissionStatusName(locationManager.authorizationStatus),
+            "accuracyAuthorization": accuracyAuthorization,
+            "locationUpdateCount": successfulUpdates,
+            "errorCount": failedUpdates,
+            "averageAccuracy": calculateAverageAccuracy(),
+            "lastUpdateTime": lastUpdateTime * 1000
+        ])
+    }
+
+    // PermissionStatus in LocationPermissions.ts
+    private func permissionStatusName(_ status: CLAuthorizationStatus) -> String {
+        switch status {
+        case .authorizedAlways: return "background"
+        case .authorizedWhenInUse: return "foreground"
+        case .denied: return "denied"
+        case .restricted: return "restricted"
+        case .notDetermined: return "notDetermined"
+        @unknown default: return "notDetermined"
+        }
+    }
+
+    private func trackingConfigDictionary() -> [String: Any] {
+        return [
+            "distanceFilterMeters": minDistanceForUpdate,
+            "forceUpdateIntervalMs": forceUpdateIntervalMs,
+            "idleUpdateIntervalMs": idleUpdateIntervalMs
+        ]
+    }
     
     // MARK: - Location Processing
     private func processLocationUpdate(_ location: CLLocation, currentTime: TimeInterval) {
@@ -820,14 +968,14 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         do {
             let lastLocation = lastUpdateLocation
             let timeSinceLastUpdate = currentTime - lastUpdateTime
-            let shouldForceUpdate = timeSinceLastUpdate >= Constants.FORCE_UPDATE_INTERVAL_MS / 1000
+            let shouldForceUpdate = timeSinceLastUpdate >= forceUpdateIntervalMs / 1000
             
             if LocationModuleImpl.DEBUG_MODE {
                 print("⏰ Time Analysis:")
                 print("   📅 Current Time: \(currentTime)")
                 print("   📅 Last Update Time: \(lastUpdateTime)")
                 print("   ⏱️ Time Since Last Update: \(timeSinceLastUpdate)s")
-                print("   🔄 Force Update Interval: \(Constants.FORCE_UPDATE_INTERVAL_MS / 1000)s")
+                print("   🔄 Force Update Interval: \(forceUpdateIntervalMs / 1000)s")
                 print("   ⚡ Should Force Update: \(shouldForceUpdate)")
             }
             
@@ -839,11 +987,11 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
                     print("📏 Distance Analysis:")
                     print("   📍 Current Displacement: \(currentDisplacement)m")
                     print("   📏 Total Displacement: \(totalDisplacement)m")
-                    print("   🎯 Minimum Distance Threshold: \(Constants.MIN_DISTANCE_FOR_UPDATE)m")
-                    print("   ✅ Above Distance Threshold: \(totalDisplacement >= Constants.MIN_DISTANCE_FOR_UPDATE)")
+                    print("   🎯 Minimum Distance Threshold: \(minDistanceForUpdate)m")
+                    print("   ✅ Above Distance Threshold: \(totalDisplacement >= minDistanceForUpdate)")
                 }
                 
-                let isBelowThreshold = totalDisplacement < Constants.MIN_DISTANCE_FOR_UPDATE
+                let isBelowThreshold = totalDisplacement < minDistanceForUpdate
                 let isStationary = currentDisplacement < 1.0
                 
                 if LocationModuleImpl.DEBUG_MODE {
@@ -855,7 +1003,7 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
                 if isBelowThreshold && !shouldForceUpdate {
                     if LocationModuleImpl.DEBUG_MODE {
                         print("⏭️ SKIPPING LOCATION UPDATE - Stationary/Insufficient Movement")
-                        print("   📊 Reason: Total displacement (\(totalDisplacement)m) < threshold (\(Constants.MIN_DISTANCE_FOR_UPDATE)m)")
+                        print("   📊 Reason: Total displacement (\(totalDisplacement)m) < threshold (\(minDistanceForUpdate)m)")
                         print("   ⏰ Time since last update: \(timeSinceLastUpdate)s")
                         print("   🔄 Force update not due yet")
                     }
@@ -989,31 +1137,25 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         }
         
         let idleTimeData: [String: Any] = [
-            "latitude": -999.0,
-            "longitude": -999.0,
-            "accuracy": -1.0,
-            "speed": -1.0,
+            "kind": "idle",
+            "version": LocationModuleImpl.EVENT_PROTOCOL_VERSION,
+            "reason": "stationary",
             "timestamp": currentTime * 1000,
-            "provider": "idle_tracking",
-            "type": "idle_time_only",
             "skipReason": "stationary_insufficient_movement",
             "idleTime": totalIdleTimeBelowThreshold * 1000,
             "outsideVisitIdleTime": outsideVist_Total_IdleTime * 1000,
+            "isCurrentlyIdle": isCurrentlyIdle,
             "isOutsideVisitTracking": isOutsideVisitTracking,
             "lastLocationUpdateTime": lastLocationUpdateTime * 1000,
-            "idleThreshold": Constants.IDLE_TIMER_INTERVAL * 1000,
+            "idleThreshold": idleUpdateIntervalMs,
             "totalDisplacementSinceLastUpdate": totalDisplacementSinceLastUpdate,
-            "minDistanceForUpdate": Constants.MIN_DISTANCE_FOR_UPDATE
+            "minDistanceForUpdate": minDistanceForUpdate
         ]
         
         if LocationModuleImpl.DEBUG_MODE {
             print("📤 Sending Idle Time Data to React Native (Location Skipped):")
-            print("   📍 Location: (\(idleTimeData["latitude"] as! Double), \(idleTimeData["longitude"] as! Double))")
-            print("   🎯 Accuracy: \(idleTimeData["accuracy"] as! Double)")
-            print("   🏃 Speed: \(idleTimeData["speed"] as! Double)")
             print("   ⏰ Timestamp: \(idleTimeData["timestamp"] as! Double)")
-            print("   🔧 Provider: \(idleTimeData["provider"] as! String)")
-            print("   📋 Type: \(idleTimeData["type"] as! String)")
+            print("   📋 Kind: \(idleTimeData["kind"] as! String) (\(idleTimeData["reason"] as! String))")
             print("   🚫 Skip Reason: \(idleTimeData["skipReason"] as! String)")
             print("   🕐 Total Idle Time: \(idleTimeData["idleTime"] as! Double)ms")
             print("   🏠 Outside Visit Idle Time: \(idleTimeData["outsideVisitIdleTime"] as! Double)ms")
@@ -1044,6 +1186,8 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         }
         
         let locationData: [String: Any] = [
+            "kind": "fix",
+            "version": LocationModuleImpl.EVENT_PROTOCOL_VERSION,
             "latitude": location.coordinate.latitude,
             "longitude": location.coordinate.longitude,
             "accuracy": location.horizontalAccuracy,
@@ -1058,7 +1202,7 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
             "isBelowDistanceThreshold": false,
             "totalIdleTimeBelowThreshold": totalIdleTimeBelowThreshold * 1000,
             "isCurrentlyIdle": isCurrentlyIdle,
-            "outsideVist_Total_IdleTime": outsideVist_Total_IdleTime * 1000,
+            "outsideVisitIdleTime": outsideVist_Total_IdleTime * 1000,
             "isOutsideVisitTracking": isOutsideVisitTracking
         ]
         
@@ -1073,20 +1217,22 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         if LocationModuleImpl.DEBUG_MODE {
             print("📡 [\(LocationModuleImpl.TAG)] sendLocationToReactNative called with locationData, isFirstLocation: \(isFirstLocation)")
             
-            let isIdleTimeData = locationData["type"] as? String == "idle_time_only"
+            let kind = locationData["kind"] as? String
             
-            if isIdleTimeData {
+            if kind == "idle" {
                 print("🕐 Sending IDLE TIME DATA to React Native")
-                print("   📊 Data Type: Idle Time Only Update")
+                print("   📊 Reason: \(locationData["reason"] as? String ?? "unknown")")
                 print("   🕐 Total Idle Time: \(locationData["idleTime"] as! Double)ms")
                 print("   🏠 Outside Visit Idle: \(locationData["outsideVisitIdleTime"] as! Double)ms")
+            } else if kind != "fix" {
+                print("💓 Sending \(kind ?? "unknown") event to React Native")
             } else {
                 print("📍 Sending LOCATION DATA to React Native")
                 print("   📍 Coordinates: (\(locationData["latitude"] as! Double), \(locationData["longitude"] as! Double))")
                 print("   🎯 Accuracy: \(locationData["accuracy"] as! Double)m")
                 print("   🏃 Speed: \(locationData["speed"] as! Double)m/s")
                 print("   ⏰ Timestamp: \(locationData["timestamp"] as! Double)")
-                print("   🔧 Provider: \(locationData["provider"] as! String)")
+                print("   🔧 Provider: \(locationData["provider"] as? String ?? "unknown")")
             }
         }
         
@@ -1097,6 +1243,19 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         }
     }
     
+    private func sendStatus(_ status: String, message: String? = nil) {
+        var statusData: [String: Any] = [
+            "kind": "status",
+            "version": LocationModuleImpl.EVENT_PROTOCOL_VERSION,
+            "timestamp": Date().timeIntervalSince1970 * 1000,
+            "status": status
+        ]
+        if let message = message {
+            statusData["message"] = message
+        }
+        sendLocationToReactNative(locationData: statusData, isFirstLocation: false)
+    }
+    
     // MARK: - Error Handling
     private func handleLocationError(_ error: Error) {
         if LocationModuleImpl.DEBUG_MODE {
@@ -1106,6 +1265,8 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         lastErrorTime = Date().timeIntervalSince1970
         consecutiveErrors += 1
         errorCount += 1
+        locationUpdateCount += 1
+        failedUpdates += 1
         
         let errorData: [String: Any] = [
             "error": error.localizedDescription,
@@ -1123,6 +1284,11 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         }
         
         totalLocationsProcessed += 1
+        locationUpdateCount += 1
+        successfulUpdates += 1
+        if location.horizontalAccuracy >= 0 {
+            accuracyHistory.append(location.horizontalAccuracy)
+        }
         averageLocationAccuracy = (averageLocationAccuracy * Double(totalLocationsProcessed - 1) + location.horizontalAccuracy) / Double(totalLocationsProcessed)
         averageUpdateInterval = (averageUpdateInterval * Double(totalLocationsProcessed - 1) + processingTime) / Double(totalLocationsProcessed)
     }
@@ -1170,6 +1336,28 @@ class LocationModuleImpl: NSObject, NativeLocationModuleSpec {
         print("LocationModule: 💾 [IdleTime] Saved outside visit idle time: \(outsideVist_Total_IdleTime)ms (\(outsideVist_Total_IdleTime/60000) minutes)")
     }
 
+    // MARK: - Persistence methods for tracking config
+    private func loadTrackingConfig() {
+        let userDefaults = UserDefaults.standard
+        if let distance = userDefaults.object(forKey: LocationModuleImpl.CONFIG_DISTANCE_KEY) as? Double {
+            minDistanceForUpdate = distance
+        }
+        if let forceInterval = userDefaults.object(forKey: LocationModuleImpl.CONFIG_FORCE_UPDATE_KEY) as? Double {
+            forceUpdateIntervalMs = forceInterval
+        }
+        if let idleInterval = userDefaults.object(forKey: LocationModuleImpl.CONFIG_IDLE_UPDATE_KEY) as? Double {
+            idleUpdateIntervalMs = idleInterval
+        }
+        print("LocationModule: 📂 Loaded tracking config - distance: \(minDistanceForUpdate)m, force update: \(forceUpdateIntervalMs)ms, idle update: \(idleUpdateIntervalMs)ms")
+    }
+
+    private func saveTrackingConfig() {
+        let userDefaults = UserDefaults.standard
+        userDefaults.set(minDistanceForUpdate, forKey: LocationModuleImpl.CONFIG_DISTANCE_KEY)
+        userDefaults.set(forceUpdateIntervalMs, forKey: LocationModuleImpl.CONFIG_FORCE_UPDATE_KEY)
+        userDefaults.set(idleUpdateIntervalMs, forKey: LocationModuleImpl.CONFIG_IDLE_UPDATE_KEY)
+    }
+
     // MARK: - Idle time outside visit tracking
     private func updateOutsideVisitIdleTime() {
         // Calculate current idle time
@@ -1233,43 +1421,10 @@ extension LocationModuleImpl: CLLocationManagerDelegate {
         handleLocationError(error)
     }
     
+    // Only called before iOS 14; later versions call locationManagerDidChangeAuthorization instead
     func locationManager(_ manager: CLLocationManager, didChangeAuthorization status: CLAuthorizationStatus) {
         print("LocationModule: 🔐 [Delegate] didChangeAuthorization: \(status.rawValue)")
-        if let resolve = pendingPermissionResolve {
-            switch status {
-            case .authorizedAlways:
-                configureAdaptiveAccuracy()
-                resolve(["status": "authorizedAlways", "message": "Location permission granted for always"])
-                pendingPermissionResolve = nil
-                pendingPermissionReject = nil
-            case .authorizedWhenInUse:
-                configureAdaptiveAccuracy()
-                resolve(["status": "authorizedWhenInUse", "message": "Location permission granted for when in use"])
-                pendingPermissionResolve = nil
-                pendingPermissionReject = nil
-            case .denied:
-                pendingPermissionReject?("PERMISSION_DENIED", "Location permission denied", nil)
-                pendingPermissionResolve = nil
-                pendingPermissionReject = nil
-            case .restricted:
-                pendingPermissionReject?("PERMISSION_RESTRICTED", "Location permission restricted", nil)
-                pendingPermissionResolve = nil
-                pendingPermissionReject = nil
-            case .notDetermined:
-                // Still waiting for user input, do nothing
-                break
-            @unknown default:
-                pendingPermissionReject?("UNKNOWN_STATUS", "Unknown permission status", nil)
-                pendingPermissionResolve = nil
-                pendingPermissionReject = nil
-            }
-        }
-        // Also send event to JS
-        let permissionData: [String: Any] = [
-            "status": status.rawValue,
-            "message": "Authorization status changed"
-        ]
-        eventEmitter?("onLocationPermissionChanged", permissionData)
+        handleAuthorizationChange(status)
     }
     
     func locationManagerDidChangeAuthorization(_ manager: CLLocationManager) {
@@ -1277,14 +1432,23 @@ extension LocationModuleImpl: CLLocationManagerDelegate {
         if LocationModuleImpl.DEBUG_MODE {
             print("🔐 [\(LocationModuleImpl.TAG)] Authorization status changed (iOS 14+): \(status.rawValue)")
         }
-        
-        let permissionData: [String: Any] = [
-            "status": status.rawValue,
-            "accuracy": status == .authorizedAlways ? "full" : "reduced",
-            "accuracyStatus": status == .authorizedAlways ? 1 : 2,
-            "message": "Authorization status changed"
-        ]
-        
-        eventEmitter?("onLocationPermissionChanged", permissionData)
+        handleAuthorizationChange(status)
+    }
+
+    private func handleAuthorizationChange(_ status: CLAuthorizationStatus) {
+        if status == .authorizedAlways || status == .authorizedWhenInUse {
+            configureAdaptiveAccuracy()
+        }
+        // .notDetermined means the user hasn't answered yet
+        if let resolve = pendingPermissionResolve, status != .notDetermined {
+            resolve(permissionPayload("Authorization status changed"))
+            pendingPermissionResolve = nil
+            pendingPermissionReject = nil
+        }
+        // Keeping "While Using" is picked up by appDidBecomeActive instead
+        if status != .authorizedWhenInUse {
+            resolvePendingBackgroundRequest()
+        }
+        eventEmitter?("onLocationPermissionChanged", permissionPayload("Authorization status changed"))
     }
 } 
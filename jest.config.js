@@ -1,3 +1,5 @@
 module.exports = {
   preset: 'react-native',
+  setupFilesAfterEnv: ['./jest.setup.js'],
+  restoreMocks: true,
 };
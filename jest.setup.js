@@ -0,0 +1,34 @@
+/**
+ * @format
+ */
+/* eslint-env jest */
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js'),
+);
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// Stand in for the LocationModule TurboModule so the tracker, hook and App run without a device
+const { NativeModules } = require('react-native');
+const {
+  SimulatedLocationModule,
+} = require('./src/NewArchitecture/SimulatedLocationModule');
+
+NativeModules.LocationModule = new SimulatedLocationModule();
+
+// No test reaches the network: fetch answers 200 with an empty body unless the test sets
+// another response with jest.mocked(fetch)
+global.fetch = jest.fn();
+
+// Runs after jest has restored the previous test's mocks (restoreMocks in jest.config.js)
+beforeEach(() => {
+  // The tracker logs every step; keep test output to the failures
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  global.fetch
+    .mockReset()
+    .mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+});
@@ -0,0 +1,41 @@
+// Helper function to calculate distance between two points using Haversine formula
+export function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// Ray-casting point-in-polygon test. Treats lat/lon as planar, which is accurate enough for
+// site-sized polygons that don't cross the antimeridian.
+export function isPointInPolygon(point: LatLng, vertices: LatLng[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
@@ -0,0 +1,219 @@
+import { StorageAdapter } from "./StorageAdapter";
+import { SerialExecutor } from "./SerialExecutor";
+import { haversine, isPointInPolygon, LatLng } from "./GeoUtils";
+
+// Circular and polygon geofences evaluated in JS against each fix.
+//
+// Definitions and each fence's inside/outside state are persisted, so a relaunch picks up
+// where it left off: a user who was already inside a fence does not get a second `enter`.
+
+interface GeofenceBase {
+  id: string;
+  // Time inside before a `dwell` event fires; falls back to GeofenceConfig.dwellMs
+  dwellMs?: number;
+  // Free-form data handed back with every event (site name, customer ID, ...)
+  metadata?: Record<string, unknown>;
+}
+
+export interface CircleGeofence extends GeofenceBase {
+  type: "circle";
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+export interface PolygonGeofence extends GeofenceBase {
+  type: "polygon";
+  vertices: LatLng[];
+}
+
+export type Geofence = CircleGeofence | PolygonGeofence;
+
+export type GeofenceTransition = "enter" | "exit" | "dwell";
+
+export interface GeofenceEvent {
+  type: GeofenceTransition;
+  geofence: Geofence;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  // Time spent inside, for `exit` and `dwell`
+  dwellTimeMs?: number;
+}
+
+export interface GeofenceState {
+  inside: boolean;
+  enteredAt: string | null;
+  dwellReported: boolean;
+}
+
+export interface GeofenceConfig {
+  dwellMs: number;
+  // Fixes less accurate than this can't move a fence in or out; 0 disables the check
+  maxAccuracyMeters: number;
+}
+
+export const DEFAULT_GEOFENCE_CONFIG: GeofenceConfig = {
+  dwellMs: 5 * 60 * 1000, // 5 minutes
+  maxAccuracyMeters: 100,
+};
+
+export interface GeofenceFix {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  accuracy?: number;
+}
+
+const GEOFENCES_KEY = "geofences";
+const GEOFENCE_STATE_KEY = "geofence_state";
+
+const OUTSIDE: GeofenceState = { inside: false, enteredAt: null, dwellReported: false };
+
+const hasValidCoordinates = (point: LatLng): boolean =>
+  Number.isFinite(point?.latitude) && Number.isFinite(point?.longitude);
+
+function validateGeofence(geofence: Geofence): void {
+  if (!geofence.id) {
+    throw new Error("Geofence id is required");
+  }
+
+  if (geofence.type === "circle") {
+    if (!hasValidCoordinates(geofence)) {
+      throw new Error(`Geofence ${geofence.id} has invalid coordinates`);
+    }
+    if (!(geofence.radiusMeters > 0)) {
+      throw new Error(`Geofence ${geofence.id} must have a positive radius`);
+    }
+  } else if (geofence.type === "polygon") {
+    if (!Array.isArray(geofence.vertices) || geofence.vertices.length < 3) {
+      throw new Error(`Geofence ${geofence.id} needs at least 3 vertices`);
+    }
+    // A NaN vertex would make every point-in-polygon test false without any error
+    if (!geofence.vertices.every(hasValidCoordinates)) {
+      throw new Error(`Geofence ${geofence.id} has invalid coordinates`);
+    }
+  } else {
+    throw new Error(`Unsupported geofence type: ${(geofence as Geofence).type}`);
+  }
+}
+
+export function isInsideGeofence(geofence: Geofence, point: LatLng): boolean {
+  if (geofence.type === "circle") {
+    return haversine(geofence.latitude, geofence.longitude, point.latitude, point.longitude) <= geofence.radiusMeters;
+  }
+  return isPointInPolygon(point, geofence.vertices);
+}
+
+export class GeofenceManager {
+  private geofences: Map<string, Geofence> | null = null;
+  private states: Record<string, GeofenceState> = {};
+  private readonly serial = new SerialExecutor(() => {
+    // Re-read persisted definitions and state after a failed write
+    this.geofences = null;
+  });
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly config: GeofenceConfig = DEFAULT_GEOFENCE_CONFIG
+  ) {}
+
+  // Adds a geofence, or replaces the one with the same ID (its inside/outside state is kept)
+  addGeofence(geofence: Geofence): Promise<void> {
+    return this.serial.run(async () => {
+      validateGeofence(geofence);
+      const geofences = await this.load();
+      geofences.set(geofence.id, geofence);
+      await this.save();
+    });
+  }
+
+  removeGeofence(id: string): Promise<boolean> {
+    return this.serial.run(async () => {
+      const geofences = await this.load();
+      const removed = geofences.delete(id);
+      delete this.states[id];
+      await this.save();
+      return removed;
+    });
+  }
+
+  getGeofences(): Promise<Geofence[]> {
+    return this.serial.run(async () => Array.from((await this.load()).values()));
+  }
+
+  getState(id: string): Promise<GeofenceState | null> {
+    return this.serial.run(async () => ((await this.load()).has(id) ? this.states[id] ?? { ...OUTSIDE } : null));
+  }
+
+  clear(): Promise<void> {
+    return this.serial.run(async () => {
+      this.geofences = new Map();
+      this.states = {};
+      await this.storage.removeItem(GEOFENCES_KEY);
+      await this.storage.removeItem(GEOFENCE_STATE_KEY);
+    });
+  }
+
+  process(fix: GeofenceFix): Promise<GeofenceEvent[]> {
+    return this.serial.run(async () => {
+      const geofences = await this.load();
+      const time = Date.parse(fix.timestamp);
+      if (geofences.size === 0 || isNaN(time)) {
+        return [];
+      }
+
+      const canTransition =
+        this.config.maxAccuracyMeters <= 0 ||
+        fix.accuracy === undefined ||
+        fix.accuracy <= this.config.maxAccuracyMeters;
+      const events: GeofenceEvent[] = [];
+      const event = (type: GeofenceTransition, geofence: Geofence, dwellTimeMs?: number) =>
+        events.push({ type, geofence, latitude: fix.latitude, longitude: fix.longitude, timestamp: fix.timestamp, dwellTimeMs });
+
+      geofences.forEach((geofence) => {
+        const state = this.states[geofence.id] ?? { ...OUTSIDE };
+        const inside = canTransition ? isInsideGeofence(geofence, fix) : state.inside;
+
+        if (inside && !state.inside) {
+          this.states[geofence.id] = { inside: true, enteredAt: fix.timestamp, dwellReported: false };
+          event("enter", geofence);
+        } else if (!inside && state.inside) {
+          this.states[geofence.id] = { ...OUTSIDE };
+          event("exit", geofence, time - Date.parse(state.enteredAt!));
+        } else if (inside && !state.dwellReported) {
+          const dwellTimeMs = time - Date.parse(state.enteredAt!);
+          if (dwellTimeMs >= (geofence.dwellMs ?? this.config.dwellMs)) {
+            this.states[geofence.id] = { ...state, dwellReported: true };
+            event("dwell", geofence, dwellTimeMs);
+          }
+        }
+      });
+
+      if (events.length > 0) {
+        await this.storage.setItem(GEOFENCE_STATE_KEY, JSON.stringify(this.states));
+      }
+      return events;
+    });
+  }
+
+  private async load(): Promise<Map<string, Geofence>> {
+    if (this.geofences) {
+      return this.geofences;
+    }
+
+    const [storedGeofences, storedStates] = await Promise.all([
+      this.storage.getItem(GEOFENCES_KEY),
+      this.storage.getItem(GEOFENCE_STATE_KEY),
+    ]);
+    const list: Geofence[] = storedGeofences ? JSON.parse(storedGeofences) : [];
+    this.geofences = new Map(list.map((geofence) => [geofence.id, geofence]));
+    this.states = storedStates ? JSON.parse(storedStates) : {};
+    return this.geofences;
+  }
+
+  private async save(): Promise<void> {
+    await this.storage.setItem(GEOFENCES_KEY, JSON.stringify(Array.from(this.geofences!.values())));
+    await this.storage.setItem(GEOFENCE_STATE_KEY, JSON.stringify(this.states));
+  }
+}
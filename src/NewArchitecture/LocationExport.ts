@@ -0,0 +1,213 @@
+import type { LocationUpdate } from "./LocationModel";
+
+// Serialisers for recorded location history. Each one keeps the per-point metadata the tracker
+// records (accuracy, speed, updateReason and the idle fields), not just the coordinates.
+
+export type ExportFormat = "gpx" | "geojson" | "kml" | "csv";
+
+export interface ExportOptions {
+  // Track/document name used by GPX and KML
+  name?: string;
+  // GeoJSON only: one LineString feature, or a FeatureCollection with one Point per fix
+  geoJsonType?: "LineString" | "FeatureCollection";
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  gpx: "application/gpx+xml",
+  geojson: "application/geo+json",
+  kml: "application/vnd.google-earth.kml+xml",
+  csv: "text/csv",
+};
+
+const DEFAULT_NAME = "Location history";
+const GPX_EXTENSIONS_NAMESPACE = "urn:locationnewarchmodule:gpx-extensions:1";
+
+// Metadata exported alongside the coordinates, in CSV column order
+const METADATA_FIELDS = [
+  "accuracy",
+  "speed",
+  "updateReason",
+  "isCurrentlyIdle",
+  "totalIdleTimeBelowThreshold",
+  "outsideVisitIdleTime",
+  "isBelowDistanceThreshold",
+  "displacement",
+] as const;
+
+type MetadataField = typeof METADATA_FIELDS[number];
+
+const KML_FIELD_TYPES: Record<MetadataField, string> = {
+  accuracy: "double",
+  speed: "double",
+  updateReason: "string",
+  isCurrentlyIdle: "bool",
+  totalIdleTimeBelowThreshold: "double",
+  outsideVisitIdleTime: "double",
+  isBelowDistanceThreshold: "bool",
+  displacement: "double",
+};
+
+function readMetadata(location: LocationUpdate): Record<MetadataField, string | number | boolean | undefined> {
+  return {
+    accuracy: location.accuracy,
+    speed: location.speed,
+    updateReason: location.updateReason,
+    isCurrentlyIdle: location.isCurrentlyIdle,
+    totalIdleTimeBelowThreshold: location.totalIdleTimeBelowThreshold,
+    outsideVisitIdleTime: location.outsideVisitIdleTime,
+    isBelowDistanceThreshold: location.isBelowDistanceThreshold,
+    displacement: location.displacement,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function toGpx(locations: LocationUpdate[], options: ExportOptions = {}): string {
+  const points = locations.map(location => {
+    const extensions = Object.entries(readMetadata(location))
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => `          <lt:${field}>${escapeXml(String(value))}</lt:${field}>`);
+
+    return [
+      `      <trkpt lat="${location.latitude}" lon="${location.longitude}">`,
+      ...(location.altitude !== undefined ? [`        <ele>${location.altitude}</ele>`] : []),
+      `        <time>${location.timestamp}</time>`,
+      ...(extensions.length > 0 ? ["        <extensions>", ...extensions, "        </extensions>"] : []),
+      "      </trkpt>",
+    ].join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="LocationNewArchModule" xmlns="http://www.topografix.com/GPX/1/1" xmlns:lt="${GPX_EXTENSIONS_NAMESPACE}">`,
+    "  <trk>",
+    `    <name>${escapeXml(options.name ?? DEFAULT_NAME)}</name>`,
+    "    <trkseg>",
+    ...points,
+    "    </trkseg>",
+    "  </trk>",
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+function toCoordinate(location: LocationUpdate): number[] {
+  return location.altitude !== undefined
+    ? [location.longitude, location.latitude, location.altitude]
+    : [location.longitude, location.latitude];
+}
+
+export function toGeoJson(locations: LocationUpdate[], options: ExportOptions = {}): string {
+  if (options.geoJsonType === "LineString") {
+    // Per-vertex values go in parallel arrays, following the `coordTimes` convention
+    const properties: Record<string, unknown[]> = { coordTimes: locations.map(location => location.timestamp) };
+    METADATA_FIELDS.forEach(field => {
+      properties[field] = locations.map(location => readMetadata(location)[field] ?? null);
+    });
+
+    return JSON.stringify({
+      type: "Feature",
+      properties: { name: options.name ?? DEFAULT_NAME, ...properties },
+      geometry: { type: "LineString", coordinates: locations.map(toCoordinate) },
+    });
+  }
+
+  return JSON.stringify({
+    type: "FeatureCollection",
+    features: locations.map(location => ({
+      type: "Feature",
+      properties: { time: location.timestamp, ...readMetadata(location) },
+      geometry: { type: "Point", coordinates: toCoordinate(location) },
+    })),
+  });
+}
+
+// Uses gx:Track so every point keeps its timestamp, with the metadata as ExtendedData arrays
+export function toKml(locations: LocationUpdate[], options: ExportOptions = {}): string {
+  const schemaFields = METADATA_FIELDS.map(
+    field => `      <gx:SimpleArrayField name="${field}" type="${KML_FIELD_TYPES[field]}"/>`
+  );
+  const arrays = METADATA_FIELDS.map(field => [
+    `            <gx:SimpleArrayData name="${field}">`,
+    ...locations.map(location => {
+      const value = readMetadata(location)[field];
+      return `              <gx:value>${value === undefined ? "" : escapeXml(String(value))}</gx:value>`;
+    }),
+    "            </gx:SimpleArrayData>",
+  ].join("\n"));
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">`,
+    "  <Document>",
+    `    <name>${escapeXml(options.name ?? DEFAULT_NAME)}</name>`,
+    `    <Schema id="locationFields">`,
+    ...schemaFields,
+    "    </Schema>",
+    "    <Placemark>",
+    `      <name>${escapeXml(options.name ?? DEFAULT_NAME)}</name>`,
+    "      <gx:Track>",
+    ...locations.map(location => `        <when>${location.timestamp}</when>`),
+    ...locations.map(location => `        <gx:coord>${toCoordinate(location).join(" ")}</gx:coord>`),
+    "        <ExtendedData>",
+    `          <SchemaData schemaUrl="#locationFields">`,
+    ...arrays,
+    "          </SchemaData>",
+    "        </ExtendedData>",
+    "      </gx:Track>",
+    "    </Placemark>",
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+function toCsvValue(value: string | number | boolean | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(locations: LocationUpdate[]): string {
+  const header = ["timestamp", "latitude", "longitude", "altitude", ...METADATA_FIELDS];
+  const rows = locations.map(location => {
+    const metadata = readMetadata(location);
+    return [
+      location.timestamp,
+      location.latitude,
+      location.longitude,
+      location.altitude,
+      ...METADATA_FIELDS.map(field => metadata[field]),
+    ].map(toCsvValue).join(",");
+  });
+
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
+
+export function exportLocations(
+  locations: LocationUpdate[],
+  format: ExportFormat,
+  options: ExportOptions = {}
+): string {
+  switch (format) {
+    case "gpx":
+      return toGpx(locations, options);
+    case "geojson":
+      return toGeoJson(locations, options);
+    case "kml":
+      return toKml(locations, options);
+    case "csv":
+      return toCsv(locations);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
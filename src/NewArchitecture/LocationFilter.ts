@@ -0,0 +1,204 @@
+import { haversine } from "./GeoUtils";
+
+// Outlier rejection (and optional smoothing) applied to fixes before the tracker stores them.
+//
+// Each fix is checked against the last accepted one: too inaccurate, not newer, too old, or
+// implying an impossible speed gets it rejected. Rejections are counted by reason so the app can
+// see how much is being thrown away.
+
+export interface FilterConfig {
+  // Reject fixes whose reported accuracy radius is larger than this; 0 disables the check
+  maxAccuracyMeters: number;
+  // Reject fixes that would need a higher speed than this to reach from the last accepted fix
+  maxSpeedMps: number;
+  // Reject fixes older than this when they arrive; 0 disables the check. Off by default because
+  // replayed and simulated tracks carry historical timestamps.
+  maxFixAgeMs: number;
+  // When this many fixes in a row fail the speed check, the last accepted fix is assumed to be
+  // the outlier and the latest one is accepted as a fresh start
+  maxConsecutiveSpeedRejections: number;
+  // Kalman smoothing of accepted positions
+  smoothing: boolean;
+  // Expected movement noise for the smoother, in m/s; higher follows turns faster
+  smoothingProcessNoise: number;
+}
+
+export const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  maxAccuracyMeters: 100,
+  maxSpeedMps: 80, // ~290 km/h
+  maxFixAgeMs: 0,
+  maxConsecutiveSpeedRejections: 3,
+  smoothing: false,
+  smoothingProcessNoise: 3,
+};
+
+export function resolveFilterConfig(config?: Partial<FilterConfig>): FilterConfig {
+  const resolved = { ...DEFAULT_FILTER_CONFIG, ...config };
+  return {
+    maxAccuracyMeters: Math.max(0, resolved.maxAccuracyMeters),
+    maxSpeedMps: Math.max(0, resolved.maxSpeedMps),
+    maxFixAgeMs: Math.max(0, resolved.maxFixAgeMs),
+    maxConsecutiveSpeedRejections: Math.max(1, Math.floor(resolved.maxConsecutiveSpeedRejections)),
+    smoothing: resolved.smoothing,
+    smoothingProcessNoise: Math.max(0.1, resolved.smoothingProcessNoise),
+  };
+}
+
+export type RejectionReason = "accuracy" | "speed" | "stale";
+
+export interface FilterFix {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  accuracy?: number;
+}
+
+export type FilterResult<T extends FilterFix> =
+  | { accepted: true; fix: T }
+  | { accepted: false; reason: RejectionReason; detail: string };
+
+export interface FilterStats {
+  accepted: number;
+  rejected: Record<RejectionReason, number>;
+  totalRejected: number;
+  lastRejection: { reason: RejectionReason; detail: string; timestamp: string } | null;
+}
+
+// Accuracy assumed for fixes that don't report one
+const DEFAULT_ACCURACY_METERS = 10;
+
+// Single-variance Kalman filter over lat/lon, with the fix's accuracy as measurement noise
+class PositionSmoother {
+  private latitude = 0;
+  private longitude = 0;
+  private variance = -1; // negative until the first fix
+  private time = 0;
+
+  constructor(private readonly processNoise: number) {}
+
+  smooth(latitude: number, longitude: number, accuracy: number, time: number): { latitude: number; longitude: number } {
+    const measurementVariance = accuracy * accuracy;
+
+    if (this.variance < 0) {
+      this.latitude = latitude;
+      this.longitude = longitude;
+      this.variance = measurementVariance;
+    } else {
+      const elapsedSeconds = Math.max(0, time - this.time) / 1000;
+      this.variance += elapsedSeconds * this.processNoise * this.processNoise;
+
+      const gain = this.variance / (this.variance + measurementVariance);
+      this.latitude += gain * (latitude - this.latitude);
+      this.longitude += gain * (longitude - this.longitude);
+      this.variance = (1 - gain) * this.variance;
+    }
+
+    this.time = time;
+    return { latitude: this.latitude, longitude: this.longitude };
+  }
+
+  reset(): void {
+    this.variance = -1;
+  }
+}
+
+function emptyStats(): FilterStats {
+  return {
+    accepted: 0,
+    rejected: { accuracy: 0, speed: 0, stale: 0 },
+    totalRejected: 0,
+    lastRejection: null,
+  };
+}
+
+export class LocationFilter {
+  private lastAccepted: { latitude: number; longitude: number; time: number } | null = null;
+  private consecutiveSpeedRejections = 0;
+  private smoother: PositionSmoother;
+  private stats: FilterStats = emptyStats();
+
+  constructor(
+    private readonly config: FilterConfig = DEFAULT_FILTER_CONFIG,
+    private readonly now: () => number = Date.now
+  ) {
+    this.smoother = new PositionSmoother(config.smoothingProcessNoise);
+  }
+
+  process<T extends FilterFix>(fix: T): FilterResult<T> {
+    const result = this.check(fix);
+
+    if (!result.accepted) {
+      this.stats.rejected[result.reason]++;
+      this.stats.totalRejected++;
+      this.stats.lastRejection = { reason: result.reason, detail: result.detail, timestamp: fix.timestamp };
+      return result;
+    }
+
+    this.stats.accepted++;
+    return result;
+  }
+
+  getStats(): FilterStats {
+    return {
+      ...this.stats,
+      rejected: { ...this.stats.rejected },
+      lastRejection: this.stats.lastRejection && { ...this.stats.lastRejection },
+    };
+  }
+
+  resetStats(): void {
+    this.stats = emptyStats();
+  }
+
+  // Forget the last accepted fix, e.g. when tracking restarts after a long gap
+  reset(): void {
+    this.lastAccepted = null;
+    this.consecutiveSpeedRejections = 0;
+    this.smoother.reset();
+  }
+
+  private check<T extends FilterFix>(fix: T): FilterResult<T> {
+    const time = Date.parse(fix.timestamp);
+    const accuracy = fix.accuracy !== undefined && fix.accuracy >= 0 ? fix.accuracy : undefined;
+
+    if (this.config.maxAccuracyMeters > 0 && accuracy !== undefined && accuracy > this.config.maxAccuracyMeters) {
+      return { accepted: false, reason: "accuracy", detail: `accuracy ${accuracy.toFixed(0)}m > ${this.config.maxAccuracyMeters}m` };
+    }
+
+    if (isNaN(time)) {
+      return { accepted: false, reason: "stale", detail: `invalid timestamp ${fix.timestamp}` };
+    }
+    if (this.config.maxFixAgeMs > 0 && this.now() - time > this.config.maxFixAgeMs) {
+      return { accepted: false, reason: "stale", detail: `fix is ${this.now() - time}ms old` };
+    }
+
+    const last = this.lastAccepted;
+    if (last && time <= last.time) {
+      return { accepted: false, reason: "stale", detail: "not newer than the last accepted fix" };
+    }
+
+    if (last) {
+      const distance = haversine(last.latitude, last.longitude, fix.latitude, fix.longitude);
+      const speed = distance / ((time - last.time) / 1000);
+
+      if (speed > this.config.maxSpeedMps) {
+        this.consecutiveSpeedRejections++;
+        if (this.consecutiveSpeedRejections < this.config.maxConsecutiveSpeedRejections) {
+          return { accepted: false, reason: "speed", detail: `implied speed ${speed.toFixed(1)}m/s > ${this.config.maxSpeedMps}m/s` };
+        }
+        // Too many rejections in a row: treat the last accepted fix as the outlier and start over
+        this.smoother.reset();
+      }
+    }
+
+    this.consecutiveSpeedRejections = 0;
+    this.lastAccepted = { latitude: fix.latitude, longitude: fix.longitude, time };
+
+    if (!this.config.smoothing) {
+      return { accepted: true, fix };
+    }
+
+    const smoothed = this.smoother.smooth(fix.latitude, fix.longitude, accuracy ?? DEFAULT_ACCURACY_METERS, time);
+    return { accepted: true, fix: { ...fix, ...smoothed } };
+  }
+}
@@ -0,0 +1,148 @@
+// The one location shape used on the JS side, and the validator that turns whatever the Android
+// or iOS module emitted into it.
+//
+// Native payloads are loosely typed: timestamps arrive as epoch milliseconds, unknown accuracy
+// and speed as -1, and older builds use the misspelled `outsideVist_Total_IdleTime` key.
+// normalizeLocation() accepts all of that and either returns a LocationUpdate or throws a
+// LocationValidationError; nothing downstream has to check for NaN or missing coordinates.
+
+export interface LocationUpdate {
+  latitude: number;
+  longitude: number;
+  timestamp: string; // ISO 8601
+  accuracy?: number; // metres, omitted when the platform doesn't know
+  altitude?: number;
+  speed?: number; // m/s, omitted when the platform doesn't know
+  speedAccuracy?: number;
+  heading?: number;
+  displacement?: number;
+  updateReason?: string;
+  isSameLocation?: boolean;
+  isBelowDistanceThreshold?: boolean;
+  totalIdleTimeBelowThreshold?: number;
+  isCurrentlyIdle?: boolean;
+  outsideVisitIdleTime?: number;
+  isOutsideVisitTracking?: boolean;
+  predictionConfidence?: number;
+  averageVelocity?: number;
+  averageAccuracy?: number;
+}
+
+// Older name for LocationUpdate, kept for code written against the hook
+export type LocationData = LocationUpdate;
+
+export type LocationValidationCode = "NOT_AN_OBJECT" | "INVALID_COORDINATES" | "INVALID_TIMESTAMP";
+
+// Thrown for a native payload that can't be turned into a LocationUpdate
+export class LocationValidationError extends Error {
+  readonly code: LocationValidationCode;
+  readonly field?: string;
+  readonly payload: unknown;
+
+  constructor(code: LocationValidationCode, message: string, payload: unknown, field?: string) {
+    super(message);
+    this.name = "LocationValidationError";
+    this.code = code;
+    this.field = field;
+    this.payload = payload;
+  }
+}
+
+const NUMBER_FIELDS = [
+  "altitude",
+  "speedAccuracy",
+  "displacement",
+  "totalIdleTimeBelowThreshold",
+  "outsideVisitIdleTime",
+  "predictionConfidence",
+  "averageVelocity",
+  "averageAccuracy",
+] as const;
+
+// Platforms report "unknown" for these as a negative value
+const NON_NEGATIVE_FIELDS = ["accuracy", "speed", "heading"] as const;
+
+const BOOLEAN_FIELDS = [
+  "isSameLocation",
+  "isBelowDistanceThreshold",
+  "isCurrentlyIdle",
+  "isOutsideVisitTracking",
+] as const;
+
+function finiteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && isFinite(value) ? value : undefined;
+}
+
+function toIsoTimestamp(value: unknown): string | undefined {
+  let time: number | undefined;
+  if (typeof value === "number") {
+    time = finiteNumber(value);
+  } else if (typeof value === "string") {
+    time = Date.parse(value);
+  } else if (value instanceof Date) {
+    time = value.getTime();
+  }
+  return time !== undefined && !isNaN(time) ? new Date(time).toISOString() : undefined;
+}
+
+export function normalizeLocation(payload: unknown): LocationUpdate {
+  if (!payload || typeof payload !== "object") {
+    throw new LocationValidationError("NOT_AN_OBJECT", "Location payload is not an object", payload);
+  }
+
+  const raw = payload as Record<string, unknown>;
+  const latitude = finiteNumber(raw.latitude);
+  const longitude = finiteNumber(raw.longitude);
+
+  if (latitude === undefined || latitude < -90 || latitude > 90) {
+    throw new LocationValidationError("INVALID_COORDINATES", `Invalid latitude: ${String(raw.latitude)}`, payload, "latitude");
+  }
+  if (longitude === undefined || longitude < -180 || longitude > 180) {
+    throw new LocationValidationError("INVALID_COORDINATES", `Invalid longitude: ${String(raw.longitude)}`, payload, "longitude");
+  }
+
+  const timestamp = toIsoTimestamp(raw.timestamp);
+  if (timestamp === undefined) {
+    throw new LocationValidationError("INVALID_TIMESTAMP", `Invalid timestamp: ${String(raw.timestamp)}`, payload, "timestamp");
+  }
+
+  const location: LocationUpdate = { latitude, longitude, timestamp };
+  const fields: Record<string, unknown> = { ...raw, outsideVisitIdleTime: raw.outsideVisitIdleTime ?? raw.outsideVist_Total_IdleTime };
+
+  for (const field of NUMBER_FIELDS) {
+    const value = finiteNumber(fields[field]);
+    if (value !== undefined) {
+      location[field] = value;
+    }
+  }
+  for (const field of NON_NEGATIVE_FIELDS) {
+    const value = finiteNumber(fields[field]);
+    if (value !== undefined && value >= 0) {
+      location[field] = value;
+    }
+  }
+  for (const field of BOOLEAN_FIELDS) {
+    if (typeof fields[field] === "boolean") {
+      location[field] = fields[field] as boolean;
+    }
+  }
+  if (typeof fields.updateReason === "string") {
+    location.updateReason = fields.updateReason;
+  }
+
+  return location;
+}
+
+// Same as normalizeLocation, for callers that would rather branch than catch
+export function validateLocation(
+  payload: unknown
+): { valid: true; location: LocationUpdate } | { valid: false; error: LocationValidationError } {
+  try {
+    return { valid: true, location: normalizeLocation(payload) };
+  } catch (error) {
+    if (error instanceof LocationValidationError) {
+      return { valid: false, error };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,140 @@
+import { Platform } from "react-native";
+
+// Location permission as a small set of typed states. Native modules report them through
+// requestLocationPermissions(), getPermissionStatus(), requestBackgroundPermission() and the
+// onLocationPermissionChanged event; decodePermission() also understands the platform-specific
+// values sent by native builds that predate these states.
+
+export type PermissionStatus =
+  | "notDetermined" // never asked
+  | "foreground" // while the app is in use only
+  | "background" // always
+  | "denied"
+  | "restricted"; // blocked by parental controls or device policy; the user can't change it
+
+export type PermissionAccuracy = "precise" | "reduced" | "none";
+
+// Accuracy of granted access, from checkAccuracyAuthorization() or the native health metrics
+export type AccuracyAuthorization = "precise" | "reduced";
+
+export interface LocationPermissionState {
+  status: PermissionStatus;
+  accuracy: PermissionAccuracy;
+  // Whether asking for the next level up can still show a system prompt. False after any denial
+  // on iOS, after "Don't ask again" on Android and once iOS has shown its one "Always" prompt;
+  // only the system settings can change the permission then.
+  canAskAgain: boolean;
+}
+
+// What to do next to reach the permission an app needs; see nextPermissionAction()
+export type PermissionAction =
+  | "none" // already there
+  | "request" // ask for foreground access
+  | "requestBackground" // upgrade foreground access to background
+  | "openSettings" // the system won't prompt again
+  | "unavailable"; // restricted; nothing the user can do
+
+const STATUSES: PermissionStatus[] = ["notDetermined", "foreground", "background", "denied", "restricted"];
+
+// Values sent before the typed states existed: "granted"/"denied" on Android, the
+// CLAuthorizationStatus name or raw value on iOS
+const LEGACY_STATUSES: Record<string, PermissionStatus> = {
+  granted: "foreground",
+  authorizedWhenInUse: "foreground",
+  authorizedAlways: "background",
+  "0": "notDetermined",
+  "1": "restricted",
+  "2": "denied",
+  "3": "background",
+  "4": "foreground",
+};
+
+export function isPermissionGranted(state: LocationPermissionState): boolean {
+  return state.status === "foreground" || state.status === "background";
+}
+
+function decodeStatus(value: unknown): PermissionStatus | null {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+  const status = String(value);
+  return STATUSES.includes(status as PermissionStatus) ? (status as PermissionStatus) : LEGACY_STATUSES[status] ?? null;
+}
+
+function decodeAccuracy(raw: Record<string, unknown>, status: PermissionStatus): PermissionAccuracy {
+  if (status !== "foreground" && status !== "background") {
+    return "none";
+  }
+  if (raw.accuracy === "precise" || raw.accuracy === "full") {
+    return "precise";
+  }
+  if (raw.accuracy === "reduced") {
+    return "reduced";
+  }
+  // Legacy numeric scale: 1 is full accuracy, anything else reduced
+  if (typeof raw.accuracyStatus === "number") {
+    return raw.accuracyStatus === 1 ? "precise" : "reduced";
+  }
+  return "precise";
+}
+
+// The native modules report full accuracy as 1 on both platforms, but reduced accuracy as 2 on
+// Android and 0 on iOS; null for anything that isn't a number
+export function decodeAccuracyAuthorization(value: unknown): AccuracyAuthorization | null {
+  if (typeof value !== "number") {
+    return null;
+  }
+  return value === 1 ? "precise" : "reduced";
+}
+
+function defaultCanAskAgain(status: PermissionStatus): boolean {
+  switch (status) {
+    case "notDetermined":
+    case "foreground":
+      return true;
+    case "denied":
+      // iOS never prompts again after a denial; Android does until "Don't ask again"
+      return Platform.OS === "android";
+    default:
+      return false;
+  }
+}
+
+// Turns a raw native permission payload into a LocationPermissionState; null if it has no
+// recognisable status
+export function decodePermission(payload: unknown): LocationPermissionState | null {
+  if (typeof payload !== "object" || payload === null) {
+    return null;
+  }
+  const raw = payload as Record<string, unknown>;
+  const status = decodeStatus(raw.status);
+  if (!status) {
+    return null;
+  }
+
+  return {
+    status,
+    accuracy: decodeAccuracy(raw, status),
+    canAskAgain: typeof raw.canAskAgain === "boolean" ? raw.canAskAgain : defaultCanAskAgain(status),
+  };
+}
+
+// The guided flow: foreground access first, then (if needed) the upgrade to background, and
+// the settings screen once the system stops prompting
+export function nextPermissionAction(state: LocationPermissionState, needBackground: boolean): PermissionAction {
+  switch (state.status) {
+    case "background":
+      return "none";
+    case "foreground":
+      if (!needBackground) {
+        return "none";
+      }
+      return state.canAskAgain ? "requestBackground" : "openSettings";
+    case "notDetermined":
+      return "request";
+    case "denied":
+      return state.canAskAgain ? "request" : "openSettings";
+    case "restricted":
+      return "unavailable";
+  }
+}
@@ -0,0 +1,155 @@
+import { normalizeLocation, LocationUpdate } from "./LocationModel";
+import { Logger, defaultLogger } from "./Logger";
+
+// Versioned protocol for `onLocationUpdate` events. Every payload carries a `kind` discriminator
+// and the protocol `version`; decodeLocationEvent() is the only place that looks at raw payloads.
+//
+//   fix        a real location
+//   idle       idle-time totals sent while the user stays within the distance filter
+//   heartbeat  the service is alive but has nothing new to report
+//   status     tracking state changes (started, stopped)
+
+export const EVENT_PROTOCOL_VERSION = 1;
+
+export type LocationEventKind = "fix" | "idle" | "heartbeat" | "status";
+
+interface LocationEventBase {
+  version: number;
+  timestamp: number; // epoch milliseconds
+}
+
+export interface FixEvent extends LocationEventBase {
+  kind: "fix";
+  location: LocationUpdate;
+  provider?: string;
+}
+
+export interface IdleEvent extends LocationEventBase {
+  kind: "idle";
+  // Total idle time below the distance threshold, and the part of it spent outside a visit
+  idleTime: number;
+  outsideVisitIdleTime: number;
+  isCurrentlyIdle: boolean;
+  isOutsideVisitTracking?: boolean;
+  // "stationary" when a fix was swallowed by the distance filter, "periodic" from the idle timer
+  reason?: "stationary" | "periodic";
+  lastLocationUpdateTime?: number;
+  totalDisplacementSinceLastUpdate?: number;
+  minDistanceForUpdate?: number;
+}
+
+export interface HeartbeatEvent extends LocationEventBase {
+  kind: "heartbeat";
+  lastLocationUpdateTime?: number;
+}
+
+export interface StatusEvent extends LocationEventBase {
+  kind: "status";
+  status: "started" | "stopped" | string;
+  message?: string;
+}
+
+export type LocationEvent = FixEvent | IdleEvent | HeartbeatEvent | StatusEvent;
+
+function toNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && isFinite(value) ? value : fallback;
+}
+
+function toTimestamp(value: unknown): number {
+  if (typeof value === "number" && isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    if (!isNaN(parsed)) {
+      return parsed;
+    }
+  }
+  return Date.now();
+}
+
+function decodeFix(payload: Record<string, any>, version: number): FixEvent {
+  const location = normalizeLocation(payload);
+  return {
+    kind: "fix",
+    version,
+    timestamp: Date.parse(location.timestamp),
+    location,
+    provider: typeof payload.provider === "string" ? payload.provider : undefined,
+  };
+}
+
+function decodeIdle(payload: Record<string, any>, version: number): IdleEvent {
+  const idleTime = toNumber(payload.idleTime ?? payload.totalIdleTimeBelowThreshold, 0);
+  return {
+    kind: "idle",
+    version,
+    timestamp: toTimestamp(payload.timestamp),
+    idleTime,
+    outsideVisitIdleTime: toNumber(payload.outsideVisitIdleTime ?? payload.outsideVist_Total_IdleTime, idleTime),
+    isCurrentlyIdle: payload.isCurrentlyIdle ?? true,
+    isOutsideVisitTracking: payload.isOutsideVisitTracking,
+    reason: payload.reason,
+    lastLocationUpdateTime: payload.lastLocationUpdateTime,
+    totalDisplacementSinceLastUpdate: payload.totalDisplacementSinceLastUpdate,
+    minDistanceForUpdate: payload.minDistanceForUpdate,
+  };
+}
+
+function isPlaceholderCoordinate(value: unknown): boolean {
+  return value === -999 || Number.isNaN(value);
+}
+
+// Native builds that predate the protocol send no `kind`: idle payloads are marked with
+// type "idle_time_only" and placeholder coordinates (-999 or NaN). Kept so a JS bundle
+// updated over the air still understands an older binary. Anything else is a fix, so a
+// missing or malformed coordinate fails validation instead of passing as idle time.
+function decodeLegacy(payload: Record<string, any>): LocationEvent {
+  const isIdle =
+    payload.type === "idle_time_only" ||
+    isPlaceholderCoordinate(payload.latitude) ||
+    isPlaceholderCoordinate(payload.longitude);
+
+  if (!isIdle) {
+    return decodeFix(payload, 0);
+  }
+  return { ...decodeIdle(payload, 0), reason: payload.type === "idle_time_only" ? "stationary" : "periodic" };
+}
+
+// Returns null for payloads of an unknown kind; throws LocationValidationError for a fix whose
+// location doesn't validate
+export function decodeLocationEvent(payload: unknown, logger: Logger = defaultLogger): LocationEvent | null {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+
+  const data = payload as Record<string, any>;
+  const version = toNumber(data.version, EVENT_PROTOCOL_VERSION);
+
+  switch (data.kind) {
+    case "fix":
+      return decodeFix(data, version);
+    case "idle":
+      return decodeIdle(data, version);
+    case "heartbeat":
+      return {
+        kind: "heartbeat",
+        version,
+        timestamp: toTimestamp(data.timestamp),
+        lastLocationUpdateTime: data.lastLocationUpdateTime,
+      };
+    case "status":
+      return {
+        kind: "status",
+        version,
+        timestamp: toTimestamp(data.timestamp),
+        status: String(data.status ?? "unknown"),
+        message: data.message,
+      };
+    case undefined:
+      return decodeLegacy(data);
+    default:
+      logger.warn("Protocol", "Ignoring event of unknown kind:", data.kind);
+      return null;
+  }
+}
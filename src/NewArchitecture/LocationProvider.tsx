@@ -0,0 +1,321 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import LocationTracker, { LocationTrackerOptions } from './LocationTracker';
+import type { LocationUpdate } from './LocationModel';
+import { decodeAccuracyAuthorization } from './LocationPermissions';
+import type { LocationPermissionState, PermissionStatus } from './LocationPermissions';
+import type { TravelStatsSummary } from './Odometer';
+
+// One LocationTracker for the whole app. Components read its state through useLocationTracking()
+// or the narrower selector hooks below, so every screen sees the same fixes, idle state and sync
+// progress, and everything goes through the tracker's storage and sync pipeline.
+
+export interface IdleState {
+  isCurrentlyIdle: boolean;
+  idleTimeMs: number;
+  outsideVisitIdleTimeMs: number;
+  updatedAt: string | null;
+}
+
+export interface SyncStatus {
+  isSyncing: boolean;
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  nextAttemptAt: number | null;
+}
+
+export interface LocationState {
+  isTracking: boolean;
+  lastLocation: LocationUpdate | null;
+  permission: LocationPermissionState | null;
+  // permission.status, or 'unknown' before the first check
+  permissionStatus: PermissionStatus | 'unknown';
+  // 1 precise, 0 reduced, on both platforms
+  accuracyStatus: number;
+  error: string | null;
+  isLoading: boolean;
+  idle: IdleState;
+  sync: SyncStatus;
+  // Null until the stored totals have been read
+  travelStats: TravelStatsSummary | null;
+}
+
+const INITIAL_STATE: LocationState = {
+  isTracking: false,
+  lastLocation: null,
+  permission: null,
+  permissionStatus: 'unknown',
+  accuracyStatus: 0,
+  error: null,
+  isLoading: false,
+  idle: { isCurrentlyIdle: false, idleTimeMs: 0, outsideVisitIdleTimeMs: 0, updatedAt: null },
+  sync: {
+    isSyncing: false,
+    pendingCount: 0,
+    lastSyncedAt: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    nextAttemptAt: null,
+  },
+  travelStats: null,
+};
+
+function permissionSlice(permission: LocationPermissionState | null): Partial<LocationState> {
+  if (!permission) {
+    return {};
+  }
+  return {
+    permission,
+    permissionStatus: permission.status,
+    accuracyStatus: permission.accuracy === 'precise' ? 1 : 0,
+  };
+}
+
+// Android reports reduced accuracy as 2 rather than 0
+function accuracyStatusOf(raw: number): number {
+  return decodeAccuracyAuthorization(raw) === 'precise' ? 1 : 0;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error && err.message ? err.message : fallback;
+}
+
+// Mirrors tracker events into an immutable snapshot for useSyncExternalStore. Each update
+// replaces only the slices that changed, so selectors returning a slice stay referentially stable.
+export class LocationStore {
+  private state: LocationState;
+  private listeners = new Set<() => void>();
+
+  constructor(readonly tracker: LocationTracker) {
+    this.state = {
+      ...INITIAL_STATE,
+      isTracking: tracker.isCurrentlyTracking,
+      lastLocation: tracker.lastLocation,
+      ...permissionSlice(tracker.getPermissionState()),
+    };
+  }
+
+  getState = (): LocationState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Starts mirroring tracker events; returns a function that stops it
+  connect(): () => void {
+    const { tracker } = this;
+    const unsubscribers = [
+      tracker.on('trackingChange', isTracking => this.update({ isTracking })),
+      tracker.on('location', location => {
+        const idle =
+          location.isCurrentlyIdle === undefined
+            ? this.state.idle
+            : {
+                isCurrentlyIdle: location.isCurrentlyIdle,
+                idleTimeMs: location.totalIdleTimeBelowThreshold ?? this.state.idle.idleTimeMs,
+                outsideVisitIdleTimeMs: location.outsideVisitIdleTime ?? this.state.idle.outsideVisitIdleTimeMs,
+                updatedAt: location.timestamp,
+              };
+        this.update({ lastLocation: location, idle, error: null });
+      }),
+      tracker.on('idle', update =>
+        this.update({
+          idle: {
+            isCurrentlyIdle: update.isCurrentlyIdle,
+            idleTimeMs: update.idleTimeMs,
+            outsideVisitIdleTimeMs: update.outsideVisitIdleTimeMs ?? this.state.idle.outsideVisitIdleTimeMs,
+            updatedAt: update.timestamp,
+          },
+        })
+      ),
+      tracker.on('error', error => this.update({ error: error.error })),
+      tracker.on('invalidPayload', error => this.update({ error: error.message })),
+      tracker.on('permissionChange', permission => this.update(permissionSlice(permission))),
+      tracker.on('syncStarted', ({ pendingCount }) => this.updateSync({ isSyncing: true, pendingCount })),
+      tracker.on('syncCompleted', ({ remainingCount }) =>
+        this.updateSync({
+          isSyncing: false,
+          pendingCount: remainingCount,
+          lastSyncedAt: new Date().toISOString(),
+          lastError: null,
+          consecutiveFailures: 0,
+          nextAttemptAt: null,
+        })
+      ),
+      tracker.on('syncFailed', ({ error, pendingCount, consecutiveFailures, nextAttemptAt }) =>
+        this.updateSync({ isSyncing: false, pendingCount, lastError: error, consecutiveFailures, nextAttemptAt })
+      ),
+      tracker.on('travelStats', travelStats => this.update({ travelStats })),
+      // The session totals start from zero
+      tracker.on('sessionStart', () => this.refreshTravelStats()),
+    ];
+
+    this.refreshTravelStats();
+    tracker
+      .getPendingCount()
+      .then(pendingCount => this.updateSync({ pendingCount }))
+      .catch(err => tracker.logger.warn('Provider', 'Could not read the pending count:', err));
+    // Reported through permissionChange
+    tracker
+      .checkLocationPermission()
+      .catch(err => tracker.logger.warn('Provider', 'Could not read the location permission:', err));
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  // Actions used by useLocationTracking(). Failures end up in `error` rather than being thrown.
+
+  // `metadata` is stored on the tracking session (shift ID, vehicle, ...)
+  startTracking = async (metadata?: Record<string, unknown>): Promise<void> => {
+    await this.run('Failed to start location tracking', async () => {
+      if (!(await this.tracker.startTracking(undefined, metadata))) {
+        throw new Error('Failed to start location tracking');
+      }
+    });
+  };
+
+  stopTracking = async (): Promise<void> => {
+    await this.run('Failed to stop location tracking', () => this.tracker.stopTracking());
+  };
+
+  // The resulting state arrives through permissionChange
+  requestPermissions = async (): Promise<void> => {
+    await this.run('Failed to request permissions', async () => {
+      await this.tracker.requestLocationPermissions();
+    });
+  };
+
+  requestBackgroundPermission = async (): Promise<void> => {
+    await this.run('Failed to request background permission', async () => {
+      await this.tracker.requestBackgroundPermission();
+    });
+  };
+
+  openSettings = async (): Promise<void> => {
+    await this.run('Failed to open settings', () => this.tracker.openSettings(), false);
+  };
+
+  checkAccuracy = async (): Promise<void> => {
+    await this.run('Failed to check accuracy', async () => {
+      this.update({ accuracyStatus: accuracyStatusOf(await this.tracker.checkAccuracyAuthorization()) });
+    }, false);
+  };
+
+  requestAccuracy = async (): Promise<void> => {
+    await this.run('Failed to request accuracy', async () => {
+      this.update({ accuracyStatus: accuracyStatusOf(await this.tracker.requestAccuracyAuthorization()) });
+    }, false);
+  };
+
+  getLastLocation = async (): Promise<void> => {
+    await this.run('Failed to get last location', async () => {
+      this.update({ lastLocation: await this.tracker.getLastNativeLocation() });
+    }, false);
+  };
+
+  private async run(fallbackError: string, action: () => Promise<void>, showLoading = true): Promise<void> {
+    this.update(showLoading ? { error: null, isLoading: true } : { error: null });
+    try {
+      await action();
+    } catch (err) {
+      this.tracker.logger.error('Provider', fallbackError, err);
+      this.update({ error: errorMessage(err, fallbackError) });
+    } finally {
+      if (showLoading) {
+        this.update({ isLoading: false });
+      }
+    }
+  }
+
+  private refreshTravelStats(): void {
+    this.tracker
+      .getTravelStats()
+      .then(travelStats => this.update({ travelStats }))
+      .catch(err => this.tracker.logger.warn('Provider', 'Could not read the travel statistics:', err));
+  }
+
+  private updateSync(sync: Partial<SyncStatus>): void {
+    this.update({ sync: { ...this.state.sync, ...sync } });
+  }
+
+  private update(partial: Partial<LocationState>): void {
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const LocationContext = createContext<LocationStore | null>(null);
+
+export interface LocationProviderProps {
+  // An existing tracker to share; the provider then leaves its cleanup to the caller
+  tracker?: LocationTracker;
+  // Used to create the provider's own tracker when `tracker` isn't given. Read on mount only.
+  options?: LocationTrackerOptions;
+  children?: React.ReactNode;
+}
+
+export function LocationProvider({ tracker, options, children }: LocationProviderProps): React.JSX.Element | null {
+  const initialOptions = useRef(options).current;
+  const sharedStore = useMemo(() => (tracker ? new LocationStore(tracker) : null), [tracker]);
+  const [ownStore, setOwnStore] = useState<LocationStore | null>(null);
+
+  // The provider's own tracker lives exactly as long as this effect. A remount (StrictMode, fast
+  // refresh) cleans up one tracker and creates the next, rather than reusing a cleaned-up one.
+  useEffect(() => {
+    if (tracker) {
+      return;
+    }
+    const created = new LocationStore(new LocationTracker(initialOptions));
+    setOwnStore(created);
+    return () => {
+      setOwnStore(null);
+      created.tracker.cleanup();
+    };
+  }, [tracker, initialOptions]);
+
+  const store = sharedStore ?? ownStore;
+
+  useEffect(() => (store ? store.connect() : undefined), [store]);
+
+  if (!store) {
+    return null;
+  }
+  return <LocationContext.Provider value={store}>{children}</LocationContext.Provider>;
+}
+
+export function useLocationStore(): LocationStore {
+  const store = useContext(LocationContext);
+  if (!store) {
+    throw new Error('Location hooks must be used inside a <LocationProvider>');
+  }
+  return store;
+}
+
+// The shared tracker, for anything the hooks don't cover (history, geofences, export, ...)
+export function useLocationTracker(): LocationTracker {
+  return useLocationStore().tracker;
+}
+
+// Re-renders only when the selected value changes; selectors should return a slice of the
+// state or a primitive, not a newly built object
+export function useLocationSelector<T>(selector: (state: LocationState) => T): T {
+  const store = useLocationStore();
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+}
+
+export const useLastLocation = (): LocationUpdate | null => useLocationSelector(state => state.lastLocation);
+
+export const useIsTracking = (): boolean => useLocationSelector(state => state.isTracking);
+
+export const useSyncStatus = (): SyncStatus => useLocationSelector(state => state.sync);
+
+export const useIdleState = (): IdleState => useLocationSelector(state => state.idle);
+
+export const usePermissionState = (): LocationPermissionState | null => useLocationSelector(state => state.permission);
+
+// Distance, moving/idle time and speeds; null until the stored totals have been read
+export const useTravelStats = (): TravelStatsSummary | null => useLocationSelector(state => state.travelStats);
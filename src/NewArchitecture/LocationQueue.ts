@@ -0,0 +1,232 @@
+import { StorageAdapter } from "./StorageAdapter";
+import { SerialExecutor } from "./SerialExecutor";
+import { Logger, defaultLogger } from "./Logger";
+
+// Append-only persistent queue split into fixed-size chunks.
+//
+// Storage layout for a queue named "location_queue":
+//   location_queue_index      -> { nextChunkId, chunks: [{ id, count }], count }
+//   location_queue_chunk_<id> -> JSON array of at most `chunkSize` items
+//
+// Appends only touch the tail chunk and the index, and peeks/removals only touch the
+// chunks at the head, so each operation costs about the same however large the backlog is.
+
+export interface QueueItem {
+  id: string;
+}
+
+interface ChunkInfo {
+  id: number;
+  count: number;
+}
+
+interface QueueIndex {
+  nextChunkId: number;
+  chunks: ChunkInfo[];
+  count: number;
+}
+
+const EMPTY_INDEX: QueueIndex = { nextChunkId: 0, chunks: [], count: 0 };
+
+export const DEFAULT_CHUNK_SIZE = 100;
+
+export class LocationQueue<T extends QueueItem> {
+  private readonly indexKey: string;
+  private index: QueueIndex | null = null;
+  // Operations are serialised so a GPS append can't interleave with a sync acknowledgement
+  private readonly serial = new SerialExecutor(() => {
+    // Drop the cached index so the next operation re-reads what actually got persisted
+    this.index = null;
+  });
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly name: string,
+    private readonly chunkSize: number = DEFAULT_CHUNK_SIZE,
+    private readonly logger: Logger = defaultLogger
+  ) {
+    this.indexKey = `${name}_index`;
+  }
+
+  append(items: T[]): Promise<number> {
+    return this.serial.run(async () => {
+      const index = await this.loadIndex();
+      let remaining = items;
+
+      while (remaining.length > 0) {
+        let chunk = index.chunks[index.chunks.length - 1];
+        let stored: T[] = [];
+
+        if (chunk && chunk.count < this.chunkSize) {
+          stored = await this.readChunk(chunk.id);
+        } else {
+          chunk = { id: index.nextChunkId++, count: 0 };
+          index.chunks.push(chunk);
+        }
+
+        const room = this.chunkSize - stored.length;
+        stored = stored.concat(remaining.slice(0, room));
+        remaining = remaining.slice(room);
+
+        await this.storage.setItem(this.chunkKey(chunk.id), JSON.stringify(stored));
+        index.count += stored.length - chunk.count;
+        chunk.count = stored.length;
+      }
+
+      await this.saveIndex(index);
+      return index.count;
+    });
+  }
+
+  peek(limit: number, offset: number = 0): Promise<T[]> {
+    return this.serial.run(async () => {
+      const index = await this.loadIndex();
+      const result: T[] = [];
+      let skip = offset;
+
+      for (const chunk of index.chunks) {
+        if (result.length >= limit) {
+          break;
+        }
+        if (skip >= chunk.count) {
+          skip -= chunk.count;
+          continue;
+        }
+
+        const items = await this.readChunk(chunk.id);
+        result.push(...items.slice(skip, skip + limit - result.length));
+        skip = 0;
+      }
+
+      return result;
+    });
+  }
+
+  // Removes items by ID, scanning from the head. Items handed out by peek() are found in the first chunks.
+  remove(ids: string[]): Promise<number> {
+    return this.serial.run(async () => {
+      const removed = new Set(ids);
+      await this.rewriteChunks(new Set(ids), items => items.filter(item => !removed.has(item.id)));
+      return this.index!.count;
+    });
+  }
+
+  size(): Promise<number> {
+    return this.serial.run(async () => (await this.loadIndex()).count);
+  }
+
+  clear(): Promise<void> {
+    return this.serial.run(async () => {
+      // List keys rather than trusting the index so chunks orphaned by a crash are removed too
+      const chunkPrefix = `${this.name}_chunk_`;
+      const keys = await this.storage.getAllKeys();
+      await Promise.all(
+        keys.filter(key => key.startsWith(chunkPrefix)).map(key => this.storage.removeItem(key))
+      );
+      this.index = { ...EMPTY_INDEX, chunks: [] };
+      await this.storage.removeItem(this.indexKey);
+    });
+  }
+
+  // One-time import of a legacy single-key JSON array into the queue
+  migrateFromArray(legacyKey: string, assignId: (item: Omit<T, "id">) => T): Promise<number> {
+    return this.serial.run(async () => {
+      const legacy = await this.storage.getItem(legacyKey);
+      if (legacy === null) {
+        return 0;
+      }
+
+      let items: unknown[] = [];
+      try {
+        const parsed: unknown = JSON.parse(legacy);
+        items = Array.isArray(parsed) ? parsed : [];
+      } catch (error) {
+        this.logger.error("Queue", "Discarding unreadable legacy data in", legacyKey, error);
+      }
+
+      // Entries that aren't objects were never valid items and are dropped
+      const migrated = items
+        .filter((item): item is Record<string, unknown> => typeof item === "object" && item !== null)
+        .map(item => (typeof item.id === "string" && item.id !== "" ? (item as T) : assignId(item as Omit<T, "id">)));
+      for (let offset = 0; offset < migrated.length; offset += this.chunkSize) {
+        await this.appendUnlocked(migrated.slice(offset, offset + this.chunkSize));
+      }
+
+      await this.storage.removeItem(legacyKey);
+      this.logger.info("Queue", "Migrated", migrated.length, "items from", legacyKey, "to", this.name);
+      return migrated.length;
+    });
+  }
+
+  private async appendUnlocked(items: T[]): Promise<void> {
+    const index = await this.loadIndex();
+    const chunk = { id: index.nextChunkId++, count: items.length };
+    await this.storage.setItem(this.chunkKey(chunk.id), JSON.stringify(items));
+    index.chunks.push(chunk);
+    index.count += items.length;
+    await this.saveIndex(index);
+  }
+
+  private async rewriteChunks(pending: Set<string>, transform: (items: T[]) => T[]): Promise<void> {
+    const index = await this.loadIndex();
+    if (pending.size === 0) {
+      return;
+    }
+
+    const kept: ChunkInfo[] = [];
+    let scanning = true;
+
+    for (const chunk of index.chunks) {
+      if (!scanning) {
+        kept.push(chunk);
+        continue;
+      }
+
+      const items = await this.readChunk(chunk.id);
+      const matched = items.filter(item => pending.has(item.id));
+      if (matched.length === 0) {
+        kept.push(chunk);
+        continue;
+      }
+
+      matched.forEach(item => pending.delete(item.id));
+      const rewritten = transform(items);
+
+      if (rewritten.length === 0) {
+        await this.storage.removeItem(this.chunkKey(chunk.id));
+      } else {
+        await this.storage.setItem(this.chunkKey(chunk.id), JSON.stringify(rewritten));
+        kept.push({ id: chunk.id, count: rewritten.length });
+      }
+      index.count += rewritten.length - chunk.count;
+      scanning = pending.size > 0;
+    }
+
+    index.chunks = kept;
+    await this.saveIndex(index);
+  }
+
+  private async loadIndex(): Promise<QueueIndex> {
+    if (this.index) {
+      return this.index;
+    }
+
+    const stored = await this.storage.getItem(this.indexKey);
+    this.index = stored ? JSON.parse(stored) : { ...EMPTY_INDEX, chunks: [] };
+    return this.index!;
+  }
+
+  private async saveIndex(index: QueueIndex): Promise<void> {
+    this.index = index;
+    await this.storage.setItem(this.indexKey, JSON.stringify(index));
+  }
+
+  private async readChunk(id: number): Promise<T[]> {
+    const stored = await this.storage.getItem(this.chunkKey(id));
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private chunkKey(id: number): string {
+    return `${this.name}_chunk_${id}`;
+  }
+}
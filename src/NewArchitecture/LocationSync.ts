@@ -1,13 +1,139 @@
+import { Logger, defaultLogger } from "./Logger";
+
+// Sync configuration
+export interface SyncConfig {
+  baseUrl: string;
+  userId: string;
+  deviceId?: string;
+  // Called with forceRefresh = true after a 401 so the provider can renew the token
+  getAuthToken?: (forceRefresh: boolean) => Promise<string | null | undefined>;
+  headers?: Record<string, string>;
+  // Batch upload mode: send stored points in groups instead of one POST per point
+  batchUpload?: boolean;
+  batchSize?: number;
+  // Where request and response logging goes; defaults to the shared defaultLogger
+  logger?: Logger;
+}
+
+export interface BatchLocationPayload {
+  id: string;
+  latitude: number;
+  longitude: number;
+  // For idle events this is when the idle period started
+  timestamp: string;
+  isIdle?: boolean;
+  idleDuration?: number;
+  outsideVisitIdleTime?: number;
+  // Tracking session the point was recorded in (see TrackingSession.ts)
+  sessionId?: string;
+}
+
+export interface BatchUploadResult {
+  acknowledgedIds: string[];
+  rejectedIds: string[];
+}
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  baseUrl: "https://location-service-backend-fc6cdca3b57b.herokuapp.com",
+  userId: "June_19_PUNITH",
+  batchUpload: false,
+  batchSize: 50,
+};
+
+// Thrown when the server answered with a non-2xx status, as opposed to a network failure
+export class SyncHttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.name = "SyncHttpError";
+    this.status = status;
+  }
+}
+
+// Thrown before sending when a point can't be uploaded as it is; retrying won't change that
+export class SyncValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncValidationError";
+  }
+}
+
+const LOCATION_UPDATE_PATH = "/api/location/update";
+const LOCATION_BATCH_PATH = "/api/location/batch";
+
+export function resolveSyncConfig(config?: Partial<SyncConfig>): SyncConfig {
+  return {
+    ...DEFAULT_SYNC_CONFIG,
+    ...config,
+    headers: { ...DEFAULT_SYNC_CONFIG.headers, ...config?.headers },
+  };
+}
+
+function loggerFor(config: SyncConfig): Logger {
+  return config.logger ?? defaultLogger;
+}
+
+function buildUrl(baseUrl: string, path: string): string {
+  return baseUrl.replace(/\/+$/, "") + path;
+}
+
+async function buildHeaders(
+  config: SyncConfig,
+  forceRefresh: boolean
+): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+    ...config.headers,
+  };
+
+  if (config.getAuthToken) {
+    const token = await config.getAuthToken(forceRefresh);
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+  }
+
+  return headers;
+}
+
+// POST a JSON body, refreshing the auth token once if the server answers 401
+async function postJson(path: string, body: object, config: SyncConfig): Promise<Response> {
+  const url = buildUrl(config.baseUrl, path);
+  const payload = JSON.stringify(body);
+
+  let response = await fetch(url, {
+    method: "POST",
+    headers: await buildHeaders(config, false),
+    body: payload,
+  });
+
+  if (response.status === 401 && config.getAuthToken) {
+    loggerFor(config).info("API", "Received 401, refreshing auth token and retrying");
+    response = await fetch(url, {
+      method: "POST",
+      headers: await buildHeaders(config, true),
+      body: payload,
+    });
+  }
+
+  return response;
+}
+
 export async function sendLocationToServer(
   lat: number,
   lon: number,
   time: Date | string | number,
   isIdle: boolean = false,
-  idleDuration?: number
+  idleDuration?: number,
+  config: SyncConfig = DEFAULT_SYNC_CONFIG,
+  outsideVisitIdleTime?: number,
+  sessionId?: string
 ) {
   try {
-    console.log("[API] Sending location to server:", { lat, lon, time, isIdle, idleDuration });
-    
+    loggerFor(config).debug("API", "Sending location to server:", { lat, lon, time, isIdle, idleDuration, outsideVisitIdleTime, sessionId });
+
     // Convert time to proper format
     let timestamp: string;
     if (time instanceof Date) {
@@ -20,45 +146,39 @@ export async function sendLocationToServer(
       timestamp = new Date().toISOString();
     }
 
-    if (lat && lon && timestamp) {
+    // 0 is a valid latitude or longitude, so check for numbers rather than truthiness
+    if (Number.isFinite(lat) && Number.isFinite(lon) && timestamp) {
       const requestBody = {
-        userId: "June_19_PUNITH",
+        userId: config.userId,
+        deviceId: config.deviceId,
         latitude: lat,
         longitude: lon,
         timestamp: timestamp,
         isIdle: isIdle,
-        idleDuration: idleDuration
+        idleDuration: idleDuration,
+        outsideVisitIdleTime: outsideVisitIdleTime,
+        sessionId: sessionId
       };
 
-      console.log('[API] Request body:', requestBody);
+      loggerFor(config).debug("API", "Request body:", requestBody);
 
-      const response = await fetch(
-        "https://location-service-backend-fc6cdca3b57b.herokuapp.com/api/location/update",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Accept: "application/json",
-          },
-          body: JSON.stringify(requestBody),
-        }
-      );
+      const response = await postJson(LOCATION_UPDATE_PATH, requestBody, config);
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw new SyncHttpError(response.status);
       }
 
       const responseData = await response.json();
-      console.log("[API] Location sync successful:", responseData);
+      loggerFor(config).debug("API", "Location sync successful:", responseData);
 
 
       return responseData;
     } else {
-      throw new Error("Invalid location data provided");
+      throw new SyncValidationError("Invalid location data provided");
     }
-  } catch (error: any) {
-    console.log("[API] Failed to send location:", error);
-    
+  } catch (error: unknown) {
+    loggerFor(config).warn("API", "Failed to send location:", error);
+
     // Only show alert in development
     if (__DEV__) {
       // Alert.alert(
@@ -66,8 +186,64 @@ export async function sendLocationToServer(
       //   `Failed to sync location: ${error?.message || "Unknown error"}`
       // );
     }
-    
+
     // Re-throw to let caller handle the error
     throw error;
   }
 }
+
+// Upload many points in one request. The server may acknowledge a subset by
+// returning { acknowledgedIds: [...] }; anything not acknowledged stays queued.
+export async function sendLocationBatchToServer(
+  locations: BatchLocationPayload[],
+  config: SyncConfig = DEFAULT_SYNC_CONFIG
+): Promise<BatchUploadResult> {
+  try {
+    loggerFor(config).debug("API", "Sending location batch to server:", { count: locations.length });
+
+    if (locations.length === 0) {
+      return { acknowledgedIds: [], rejectedIds: [] };
+    }
+
+    const requestBody = {
+      userId: config.userId,
+      deviceId: config.deviceId,
+      locations,
+    };
+
+    const response = await postJson(LOCATION_BATCH_PATH, requestBody, config);
+
+    if (!response.ok) {
+      throw new SyncHttpError(response.status);
+    }
+
+    let responseData: unknown = null;
+    try {
+      responseData = await response.json();
+    } catch {
+      // An empty body on a 2xx means the whole batch was accepted
+    }
+
+    const sentIds = locations.map(location => location.id);
+    const sentIdSet = new Set(sentIds);
+    const reportedIds =
+      typeof responseData === "object" && responseData !== null && "acknowledgedIds" in responseData
+        ? responseData.acknowledgedIds
+        : undefined;
+    const acknowledgedIds = Array.isArray(reportedIds)
+      ? reportedIds.filter((id): id is string => typeof id === "string" && sentIdSet.has(id))
+      : sentIds;
+    const acknowledged = new Set(acknowledgedIds);
+    const rejectedIds = sentIds.filter(id => !acknowledged.has(id));
+
+    loggerFor(config).debug("API", "Location batch sync completed:", {
+      acknowledged: acknowledgedIds.length,
+      rejected: rejectedIds.length,
+    });
+
+    return { acknowledgedIds, rejectedIds };
+  } catch (error: unknown) {
+    loggerFor(config).warn("API", "Failed to send location batch:", error);
+    throw error;
+  }
+}
@@ -1,5 +1,4 @@
 import {
-  Alert,
   NativeEventEmitter,
   NativeModules,
   Platform,
@@ -7,131 +6,409 @@ import {
   Linking,
 } from "react-native";
 import NetInfo from "@react-native-community/netinfo";
-import AsyncStorage from "@react-native-async-storage/async-storage";
-import { sendLocationToServer } from "./LocationSync";
-import LocationModule from "./LocationModule";
-
-const { LocationModule: NativeLocationModule } = NativeModules;
+import {
+  sendLocationToServer,
+  sendLocationBatchToServer,
+  resolveSyncConfig,
+  SyncConfig,
+  SyncHttpError,
+  SyncValidationError,
+  BatchLocationPayload,
+} from "./LocationSync";
+import {
+  RetryPolicy,
+  RetryState,
+  INITIAL_RETRY_STATE,
+  resolveRetryPolicy,
+  computeRetryDelay,
+} from "./SyncRetry";
+import { LocationQueue, DEFAULT_CHUNK_SIZE } from "./LocationQueue";
+import { StorageAdapter, AsyncStorageAdapter } from "./StorageAdapter";
+import { haversine } from "./GeoUtils";
+import { ExportFormat, ExportOptions, exportLocations } from "./LocationExport";
+import {
+  TripSegmenter,
+  SegmentationConfig,
+  DEFAULT_SEGMENTATION_CONFIG,
+  SegmentEvent,
+  Stop,
+  Trip,
+  TimelineSegment,
+} from "./TripSegmenter";
+import {
+  GeofenceManager,
+  GeofenceConfig,
+  DEFAULT_GEOFENCE_CONFIG,
+  Geofence,
+  GeofenceEvent,
+} from "./GeofenceManager";
+import { TrackerConfig, resolveTrackerConfig, toNativeTrackerConfig } from "./TrackerConfig";
+import {
+  LocationFilter,
+  FilterConfig,
+  FilterStats,
+  RejectionReason,
+  resolveFilterConfig,
+} from "./LocationFilter";
+import { SimplificationConfig, resolveSimplificationConfig, simplifyTrack } from "./TrackSimplifier";
+import type { Spec, LocationError, NativeHealthMetrics, TrackingStartResult } from "./NativeLocationModule";
+import {
+  decodeLocationEvent,
+  FixEvent,
+  IdleEvent,
+  HeartbeatEvent,
+  StatusEvent,
+} from "./LocationProtocol";
+import { LocationUpdate, LocationValidationError, normalizeLocation } from "./LocationModel";
+import { Logger, LoggerConfig, LogEntry, defaultLogger } from "./Logger";
+import { SerialExecutor } from "./SerialExecutor";
+import {
+  SessionStore,
+  SessionConfig,
+  SessionStopReason,
+  TrackingSession,
+  DEFAULT_SESSION_CONFIG,
+} from "./TrackingSession";
+import {
+  Odometer,
+  OdometerConfig,
+  TravelStats,
+  DailyTravelStats,
+  TravelStatsSummary,
+  DEFAULT_ODOMETER_CONFIG,
+} from "./Odometer";
+import {
+  LocationPermissionState,
+  PermissionAction,
+  PermissionStatus,
+  AccuracyAuthorization,
+  decodePermission,
+  decodeAccuracyAuthorization,
+  isPermissionGranted,
+  nextPermissionAction,
+} from "./LocationPermissions";
+
+export type { LocationUpdate } from "./LocationModel";
 
 // Platform-specific constants
 const IS_IOS = Platform.OS === 'ios';
 const IS_ANDROID = Platform.OS === 'android';
 
 // Constants
-const BACKGROUND_LOCATIONS_KEY = "background_locations";
+const BACKGROUND_LOCATIONS_KEY = "background_locations"; // legacy single-array storage, migrated on start
 const LAST_LOCATION_KEY = "last_location";
-const DISTANCE_TO_TRACK = 50; // 50 meters minimum distance to track
-
-// Helper function to calculate distance between two points using Haversine formula
-function haversine(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
+const LOCATION_QUEUE_NAME = "location_queue";
+const DEAD_LETTER_LOCATIONS_KEY = "dead_letter_locations";
+const SYNC_RETRY_STATE_KEY = "sync_retry_state";
+const LOCATION_HISTORY_NAME = "location_history";
+const HISTORY_PAGE_SIZE = 500;
+const HEALTH_WINDOW_MS = 10 * 60 * 1000; // fixes per minute and average accuracy are over this window
+const QUEUE_PAGE_SIZE = 500;
+const TRACKER_CONFIG_KEY = "tracker_config";
+// ID of the newest queued point seen by the last simplification pass
+const SIMPLIFIED_THROUGH_KEY = "simplified_through_id";
+// Present while the app wants to be tracking; survives process death so tracking can resume
+const TRACKING_STATE_KEY = "tracking_state";
+const DEFAULT_BATCH_SIZE = 50;
+
+// Helper function to generate an ID for a stored location so batch acknowledgements can reference it
+function createLocationId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// iOS builds before the shared TrackingStartResult resolved "started" instead of "success"
+function isStartSuccess(result: TrackingStartResult | null | undefined): boolean {
+  return result?.status === "success" || result?.status === "started";
 }
 
 // Interfaces
-export interface LocationUpdate {
-  latitude: number;
-  longitude: number;
+export interface LocationTrackerOptions {
+  sync?: Partial<SyncConfig>;
+  retry?: Partial<RetryPolicy>;
+  // Defaults to AsyncStorage; inject SQLite/MMKV in production or MemoryStorageAdapter in tests
+  storage?: StorageAdapter;
+  // Defaults to the registered LocationModule; pass SimulatedLocationModule to run without a device
+  nativeModule?: Spec;
+  history?: Partial<HistoryRetention>;
+  segmentation?: Partial<SegmentationConfig>;
+  geofencing?: Partial<GeofenceConfig>;
+  // Distance and idle thresholds; a config saved later with setConfig() takes precedence on restart
+  config?: Partial<TrackerConfig>;
+  // Outlier rejection and optional Kalman smoothing applied before fixes are stored
+  filter?: Partial<FilterConfig>;
+  // Douglas-Peucker/Visvalingam simplification of the pending queue before each upload
+  simplification?: Partial<SimplificationConfig>;
+  // Defaults to the shared defaultLogger, which LocationSync also writes to
+  logger?: Logger;
+  // How many finished tracking sessions are kept
+  sessions?: Partial<SessionConfig>;
+  // Resume tracking on construction if it was running when the process died (default true)
+  autoResume?: boolean;
+  // Jitter radius, idle threshold and retention for the distance and time statistics
+  odometer?: Partial<OdometerConfig>;
+}
+
+export interface TrackingResume {
+  // "resumed": native tracking was still running and its session carries on.
+  // "restarted": native tracking had stopped too, so it was started again in a new session
+  // with the interrupted one's metadata.
+  mode: "resumed" | "restarted";
+  session: TrackingSession | null;
+}
+
+// Idle event from native, reduced to the fields that mean something
+export interface IdleUpdate {
   timestamp: string;
-  accuracy?: number;
-  speed?: number;
-  distance?: number;
-  time?: number;
-  totalIdleTimeBelowThreshold?: number;
-  isCurrentlyIdle?: boolean;
-  isBelowDistanceThreshold?: boolean;
-  updateReason?: string;
-  displacement?: number;
-  isSameLocation?: boolean;
-  outsideVist_Total_IdleTime?: number;
-  isOutsideVisitTracking?: boolean;
+  idleTimeMs: number;
+  outsideVisitIdleTimeMs?: number;
+  isCurrentlyIdle: boolean;
 }
 
-interface NativeLocation {
-  latitude: number;
-  longitude: number;
-  timestamp?: string | number;
-  accuracy?: number;
-  speed?: number;
-  distance?: number;
-  time?: number;
-  totalIdleTimeBelowThreshold?: number;
-  isCurrentlyIdle?: boolean;
-  isBelowDistanceThreshold?: boolean;
-  updateReason?: string;
-  displacement?: number;
-  isSameLocation?: boolean;
-  outsideVist_Total_IdleTime?: number;
-  isOutsideVisitTracking?: boolean;
-  type?: string;
+export interface SyncStartedEvent {
+  pendingCount: number;
 }
 
-// Helper function to convert location objects
-function convertToLocationUpdate(location: NativeLocation): LocationUpdate {
-  let timestamp: string;
+export interface SyncCompletedEvent {
+  syncedCount: number;
+  remainingCount: number;
+}
 
-  if (typeof location.timestamp === "string") {
-    timestamp = location.timestamp;
-  } else if (typeof location.timestamp === "number") {
-    timestamp = new Date(location.timestamp).toISOString();
-  } else {
-    timestamp = new Date().toISOString();
-  }
+export interface SyncFailedEvent {
+  error: string;
+  pendingCount: number;
+  consecutiveFailures: number;
+  nextAttemptAt: number | null;
+}
+
+// Result of the most recent simplification pass, plus the total removed since the tracker was created
+export interface SimplificationStats {
+  inputPoints: number;
+  outputPoints: number;
+  // inputPoints / outputPoints, so 4 means a quarter of the points were kept; 1 before any pass
+  compressionRatio: number;
+  totalRemovedPoints: number;
+}
+
+// Snapshot of the upload queue, e.g. for a support screen
+export interface QueueStats {
+  pendingCount: number;
+  // Earliest and latest `timestamp` among pending items; null when the queue is empty
+  oldestTimestamp: string | null;
+  newestTimestamp: string | null;
+  deadLetterCount: number;
+}
+
+// Upload requests since the tracker was created. A batch counts as one request.
+export interface SyncHealth {
+  successCount: number;
+  failureCount: number;
+  // Round-trip time of successful requests
+  averageLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+}
+
+// Returned by getHealth(), e.g. for a dashboard that flags devices that have stopped reporting
+export interface TrackerHealth {
+  timestamp: string;
+  isTracking: boolean;
+  // Accepted fixes per minute over the last 10 minutes, or since tracking started if that is
+  // shorter (but at least a minute)
+  fixesPerMinute: number;
+  lastFixAt: string | null;
+  // Time since a fix last reached JS; null before the first one
+  msSinceLastFix: number | null;
+  // Mean reported accuracy of the same fixes, in metres; null when none reported one
+  averageAccuracy: number | null;
+  sync: SyncHealth;
+  queueDepth: number;
+  deadLetterCount: number;
+  permissionStatus: PermissionStatus | "unknown";
+  // Null when neither the native module nor the last permission check says
+  accuracyAuthorization: AccuracyAuthorization | null;
+  // Counters from the native module; null if it couldn't be read (e.g. a native build without getHealthMetrics)
+  native: NativeHealthMetrics | null;
+}
 
-  // Check if this is idle time data
-  const isIdleTimeData = location.latitude === -999 || 
-                        location.longitude === -999 || 
-                        location.type === 'idle_time_only';
+export interface PurgeOptions {
+  // Only remove items whose timestamp is before this; everything is removed when omitted
+  olderThan?: Date | number | string;
+}
+
+// Returned by getDiagnostics(); safe to JSON.stringify and attach to a bug report
+export interface DiagnosticsReport {
+  generatedAt: string;
+  platform: { os: string; version: string | number };
+  tracking: {
+    isTracking: boolean;
+    isOnline: boolean;
+    permission: LocationPermissionState | null;
+    session: unknown;
+    lastLocation: unknown;
+    retry: RetryState;
+  };
+  config: {
+    tracker: TrackerConfig;
+    sync: unknown;
+    retry: RetryPolicy;
+    simplification: SimplificationConfig;
+    logging: LoggerConfig;
+  };
+  // null if the queue couldn't be read
+  queue: QueueStats | null;
+  filterStats: FilterStats;
+  simplificationStats: SimplificationStats;
+  logs: LogEntry[];
+}
+
+export interface RejectedFixEvent {
+  location: LocationUpdate;
+  reason: RejectionReason;
+  detail: string;
+}
+
+// Listener arguments for each LocationTracker event
+export interface LocationTrackerEventArgs {
+  location: [location: LocationUpdate];
+  trackingChange: [isTracking: boolean];
+  idle: [update: IdleUpdate];
+  heartbeat: [event: HeartbeatEvent];
+  status: [event: StatusEvent];
+  fixRejected: [event: RejectedFixEvent];
+  invalidPayload: [error: LocationValidationError];
+  error: [error: LocationError];
+  // Only sent when the state actually changes; `previous` is null for the first state seen
+  permissionChange: [state: LocationPermissionState, previous: LocationPermissionState | null];
+  sessionStart: [session: TrackingSession];
+  // Also sent shortly after construction for a session the OS killed (stopReason "osKilled")
+  sessionEnd: [session: TrackingSession];
+  trackingResumed: [resume: TrackingResume];
+  travelStats: [stats: TravelStatsSummary];
+  syncStarted: [event: SyncStartedEvent];
+  syncCompleted: [event: SyncCompletedEvent];
+  syncFailed: [event: SyncFailedEvent];
+  tripStart: [trip: Trip];
+  tripEnd: [trip: Trip];
+  arrival: [stop: Stop];
+  departure: [stop: Stop];
+  enter: [event: GeofenceEvent];
+  exit: [event: GeofenceEvent];
+  dwell: [event: GeofenceEvent];
+}
+
+// Listener signatures for LocationTracker.on()/off()
+export type LocationTrackerEvents = {
+  [E in keyof LocationTrackerEventArgs]: (...args: LocationTrackerEventArgs[E]) => void;
+};
+
+export type LocationTrackerEventName = keyof LocationTrackerEvents;
+
+type LocationTrackerListeners = { [E in LocationTrackerEventName]: Set<LocationTrackerEvents[E]> };
 
+// Every event gets its set up front: on() and off() can then index the map with a generic event
+// name, which TypeScript only allows for reads
+function createListeners(): LocationTrackerListeners {
   return {
-    latitude: location.latitude,
-    longitude: location.longitude,
-    timestamp,
-    accuracy: location.accuracy,
-    speed: location.speed,
-    distance: location.distance,
-    time: location.time,
-    totalIdleTimeBelowThreshold: location.totalIdleTimeBelowThreshold,
-    isCurrentlyIdle: location.isCurrentlyIdle,
-    isBelowDistanceThreshold: location.isBelowDistanceThreshold,
-    updateReason: isIdleTimeData ? 'idle_time_only' : location.updateReason,
-    displacement: location.displacement,
-    isSameLocation: location.isSameLocation,
-    outsideVist_Total_IdleTime: location.outsideVist_Total_IdleTime,
-    isOutsideVisitTracking: location.isOutsideVisitTracking,
+    location: new Set(),
+    trackingChange: new Set(),
+    idle: new Set(),
+    heartbeat: new Set(),
+    status: new Set(),
+    fixRejected: new Set(),
+    invalidPayload: new Set(),
+    error: new Set(),
+    permissionChange: new Set(),
+    sessionStart: new Set(),
+    sessionEnd: new Set(),
+    trackingResumed: new Set(),
+    travelStats: new Set(),
+    syncStarted: new Set(),
+    syncCompleted: new Set(),
+    syncFailed: new Set(),
+    tripStart: new Set(),
+    tripEnd: new Set(),
+    arrival: new Set(),
+    departure: new Set(),
+    enter: new Set(),
+    exit: new Set(),
+    dwell: new Set(),
   };
 }
 
+// Every fix is also kept in a separate history queue (synced or not) for export
+export interface HistoryRetention {
+  maxPoints: number;
+  maxAgeMs: number;
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxPoints: 20000,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+};
+
+export interface HistoryRange {
+  from?: Date | number | string;
+  to?: Date | number | string;
+  // Only points recorded in this tracking session
+  sessionId?: string;
+}
+
+interface HistoryLocation extends LocationUpdate {
+  id: string;
+  sessionId?: string;
+}
+
+// A fix or idle report waiting to be uploaded
+export interface StoredLocation {
+  id: string;
+  latitude: number;
+  longitude: number;
+  // For idle events this is when the idle period started
+  timestamp: string;
+  isIdle?: boolean;
+  idleDuration?: number;
+  outsideVisitIdleTime?: number;
+  // Start or end of a stop, trip or idle period; never removed by simplification
+  boundary?: boolean;
+  // Tracking session the point was recorded in; absent for points stored while not tracking
+  sessionId?: string;
+  attempts?: number;
+  lastError?: string;
+}
+
+export interface DeadLetterLocation extends StoredLocation {
+  deadLetteredAt: string;
+}
+
 // Helper functions for last location
-async function getLastLocation(): Promise<{ latitude: number; longitude: number } | null> {
+async function getLastLocation(
+  storage: StorageAdapter,
+  logger: Logger
+): Promise<{ latitude: number; longitude: number } | null> {
   try {
-    const lastLocation = await AsyncStorage.getItem(LAST_LOCATION_KEY);
+    const lastLocation = await storage.getItem(LAST_LOCATION_KEY);
     return lastLocation ? JSON.parse(lastLocation) : null;
   } catch (error) {
-    console.error("[Tracker] Error getting last location:", error);
+    logger.error("Tracker", "Error getting last location:", error);
     return null;
   }
 }
 
-async function saveLastLocation(location: { latitude: number; longitude: number }): Promise<void> {
+async function saveLastLocation(
+  storage: StorageAdapter,
+  logger: Logger,
+  location: { latitude: number; longitude: number }
+): Promise<void> {
   try {
-    await AsyncStorage.setItem(LAST_LOCATION_KEY, JSON.stringify(location));
+    await storage.setItem(LAST_LOCATION_KEY, JSON.stringify(location));
   } catch (error) {
-    console.error("[Tracker] Error saving last location:", error);
+    logger.error("Tracker", "Error saving last location:", error);
   }
 }
 
 class LocationTracker {
+  readonly logger: Logger;
   private eventEmitter: NativeEventEmitter;
   private locationSubscription: any | null = null;
   private onLocationUpdate: ((location: LocationUpdate) => void) | null = null;
@@ -144,12 +421,60 @@ class LocationTracker {
   private activeListeners: Set<string> = new Set();
   private lastKnownLocation: LocationUpdate | null = null;
   private syncTimeout: NodeJS.Timeout | null = null;
+  private syncConfig: SyncConfig;
+  private retryPolicy: RetryPolicy;
+  private retryState: RetryState = { ...INITIAL_RETRY_STATE };
+  private isSyncing: boolean = false;
+  private storage: StorageAdapter;
+  private nativeModule: Spec;
+  private locationQueue: LocationQueue<StoredLocation>;
+  private deadLetterQueue: LocationQueue<DeadLetterLocation>;
+  private historyQueue: LocationQueue<HistoryLocation>;
+  private historyRetention: HistoryRetention;
+  private tripSegmenter: TripSegmenter;
+  private geofenceManager: GeofenceManager;
+  private listeners = createListeners();
+  private initialConfig: Partial<TrackerConfig>;
+  private locationFilter: LocationFilter;
+  private simplificationConfig: SimplificationConfig;
+  private simplificationStats: SimplificationStats = {
+    inputPoints: 0,
+    outputPoints: 0,
+    compressionRatio: 1,
+    totalRemovedPoints: 0,
+  };
+  private wasIdle: boolean = false;
+  // Fixes and idle events are handled one at a time, in arrival order, so each one sees the
+  // idle, trip and geofence state the previous one left behind
+  private readonly locationProcessing = new SerialExecutor();
+  private permission: LocationPermissionState | null = null;
+  private sessionStore: SessionStore;
+  private session: TrackingSession | null = null;
+  // Set while stopTracking() waits for native, so its "stopped" status isn't taken for a failure
+  private stopRequested: boolean = false;
+  private autoResume: boolean;
+  private odometer: Odometer;
+  // Settles once the stored config is applied and tracking has been reconciled with native
+  private restoration: Promise<void>;
+
+  // Health metrics (see getHealth)
+  private trackingStartedAt: number | null = null;
+  private recentFixes: { receivedAt: number; accuracy?: number }[] = [];
+  private lastFixReceivedAt: number | null = null;
+  private syncHealth: Omit<SyncHealth, "averageLatencyMs"> & { totalLatencyMs: number } = {
+    successCount: 0,
+    failureCount: 0,
+    totalLatencyMs: 0,
+    lastLatencyMs: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+  };
+  private trackerConfig: TrackerConfig;
   
-  // Idle tracking properties
+  // Idle tracking properties. The start of the current idle period is the first stationary fix
+  // or native idle event after the user last moved; both report paths use it.
   private staticLocationStartTime: number | null = null;
-  private readonly IDLE_THRESHOLD = 15 * 60 * 1000; // 15 minutes in milliseconds
-  private lastIdleReportTime: number | null = null;
-  private readonly IDLE_REPORT_INTERVAL = 15 * 60 * 1000; // Report idle status every 15 minutes
+  private lastIdleReport: { startTime: number; reportTime: number } | null = null;
 
   // Event names
   private static readonly EVENT_NAMES = {
@@ -158,63 +483,102 @@ class LocationTracker {
     PERMISSION_CHANGED: "onLocationPermissionChanged",
   } as const;
 
-  constructor() {
-    console.log("[DEBUG] 🔧 Initializing LocationTracker for", Platform.OS);
+  constructor(options: LocationTrackerOptions = {}) {
+    this.logger = options.logger ?? defaultLogger;
+    this.logger.debug("Tracker", "Initializing LocationTracker");
+
+    this.syncConfig = resolveSyncConfig({ logger: this.logger, ...options.sync });
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.initialConfig = options.config ?? {};
+    this.trackerConfig = resolveTrackerConfig(this.initialConfig);
+    this.locationFilter = new LocationFilter(resolveFilterConfig(options.filter));
+    this.simplificationConfig = resolveSimplificationConfig(options.simplification);
+    this.storage = options.storage ?? new AsyncStorageAdapter();
+    this.locationQueue = new LocationQueue<StoredLocation>(this.storage, LOCATION_QUEUE_NAME, DEFAULT_CHUNK_SIZE, this.logger);
+    this.deadLetterQueue = new LocationQueue<DeadLetterLocation>(this.storage, DEAD_LETTER_LOCATIONS_KEY, DEFAULT_CHUNK_SIZE, this.logger);
+    this.historyQueue = new LocationQueue<HistoryLocation>(this.storage, LOCATION_HISTORY_NAME, DEFAULT_CHUNK_SIZE, this.logger);
+    this.historyRetention = { ...DEFAULT_HISTORY_RETENTION, ...options.history };
+    this.tripSegmenter = new TripSegmenter(
+      this.storage,
+      { ...DEFAULT_SEGMENTATION_CONFIG, ...options.segmentation },
+      this.logger
+    );
+    this.geofenceManager = new GeofenceManager(this.storage, {
+      ...DEFAULT_GEOFENCE_CONFIG,
+      ...options.geofencing,
+    });
+    this.sessionStore = new SessionStore(this.storage, { ...DEFAULT_SESSION_CONFIG, ...options.sessions });
+    this.autoResume = options.autoResume ?? true;
+    this.odometer = new Odometer(this.storage, { ...DEFAULT_ODOMETER_CONFIG, ...options.odometer });
     
-    if (!NativeLocationModule) {
-      console.error("[DEBUG] ❌ LocationModule is not available!");
+    this.nativeModule = options.nativeModule ?? NativeModules.LocationModule;
+    if (!this.nativeModule) {
+      this.logger.error("Tracker", "LocationModule is not available!");
       throw new Error("LocationModule is not available");
     }
 
-    this.eventEmitter = new NativeEventEmitter(NativeLocationModule);
-    console.log("[DEBUG] ✅ Event emitter created for", Platform.OS);
+    this.eventEmitter = new NativeEventEmitter(this.nativeModule);
+    this.logger.debug("Tracker", "Event emitter created");
 
     this.setupNetworkListener();
     this.setupAppStateListener();
     this.setupEventEmitterListeners();
+    this.migrateLegacyStorage();
+    this.restoreSyncRetryState();
+    this.restoration = this.restoreTrackerConfig().then(() => this.restoreTracking());
     
-    console.log("[DEBUG] ✅ LocationTracker initialization complete for", Platform.OS);
+    this.logger.debug("Tracker", "LocationTracker initialization complete");
   }
 
   private setupEventEmitterListeners(): void {
-    console.log("[DEBUG] 📡 Setting up event emitter listeners for", Platform.OS);
+    this.logger.debug("Tracker", "Setting up event emitter listeners");
 
     // Location update listener
     this.locationSubscription = this.eventEmitter.addListener(
       LocationTracker.EVENT_NAMES.LOCATION_UPDATE,
-      (locationData: NativeLocation) => {
-        console.log("[DEBUG] 📍 LOCATION UPDATE RECEIVED from native (", Platform.OS, "):", locationData);
+      (payload: unknown) => {
+        this.logger.debug("Tracker", "Location event received from native:", payload);
         
         try {
-          const locationUpdate = convertToLocationUpdate(locationData);
-          this.lastKnownLocation = locationUpdate;
-          
-          console.log("[DEBUG] 📍 Converted location update:", {
-            latitude: locationUpdate.latitude,
-            longitude: locationUpdate.longitude,
-            timestamp: locationUpdate.timestamp,
-            updateReason: locationUpdate.updateReason,
-            platform: Platform.OS,
-          });
-          
-          // Process the location update
-          this.processLocationUpdate(locationUpdate);
-          
-          // Only call the callback for actual location updates, not idle time data
-          const isIdleTimeData = locationUpdate.latitude === -999 || 
-                                locationUpdate.longitude === -999 || 
-                                locationUpdate.updateReason === 'idle_time_only';
-          
-          if (!isIdleTimeData && this.onLocationUpdate) {
-            console.log("[DEBUG] 📍 Calling user callback with location update");
-            this.onLocationUpdate(locationUpdate);
-          } else if (isIdleTimeData) {
-            console.log("[DEBUG] 📍 Skipping user callback for idle time data");
-          } else {
-            console.log("[DEBUG] ⚠️ No user callback set for location update");
+          const event = decodeLocationEvent(payload, this.logger);
+          if (!event) {
+            this.logger.warn("Tracker", "Ignoring undecodable location event:", payload);
+            return;
+          }
+
+          switch (event.kind) {
+            case "fix":
+              this.handleFix(event);
+              break;
+            case "idle":
+              this.emit("idle", {
+                timestamp: new Date(event.timestamp).toISOString(),
+                idleTimeMs: event.idleTime,
+                outsideVisitIdleTimeMs: event.outsideVisitIdleTime,
+                isCurrentlyIdle: event.isCurrentlyIdle,
+              });
+              this.locationProcessing
+                .run(() => this.handleIdleTimeData(event))
+                .catch((error) => this.logger.error("Idle", "Error handling idle time data:", error));
+              break;
+            case "heartbeat":
+              this.emit("heartbeat", event);
+              break;
+            case "status":
+              this.logger.info("Tracker", "Native tracking status:", event.status, event.message ?? "");
+              this.emit("status", event);
+              if (event.status === "stopped" && this.isTracking && !this.stopRequested) {
+                this.handleNativeStopped(event.message);
+              }
+              break;
           }
         } catch (error) {
-          console.error("[DEBUG] ❌ Error processing location update:", error);
+          if (error instanceof LocationValidationError) {
+            this.logger.warn("Tracker", `Dropping malformed location payload (${error.code}):`, error.message);
+            this.emit("invalidPayload", error);
+            return;
+          }
+          this.logger.error("Tracker", "Error processing location update:", error);
         }
       }
     );
@@ -222,90 +586,159 @@ class LocationTracker {
     // Error listener
     this.errorSubscription = this.eventEmitter.addListener(
       LocationTracker.EVENT_NAMES.LOCATION_ERROR,
-      (errorData: any) => {
-        console.error("[DEBUG] ❌ LOCATION ERROR RECEIVED from native (", Platform.OS, "):", errorData);
-        Alert.alert("Location Error", `Location tracking error: ${errorData?.error || "Unknown error"}`);
+      (errorData: LocationError) => {
+        this.logger.error("Tracker", "Location error received from native:", errorData);
+        this.emit("error", errorData);
       }
     );
 
     // Permission change listener
     this.permissionSubscription = this.eventEmitter.addListener(
       LocationTracker.EVENT_NAMES.PERMISSION_CHANGED,
-      (permissionData: any) => {
-        console.log("[DEBUG] 🔐 PERMISSION CHANGE RECEIVED from native (", Platform.OS, "):", permissionData);
+      (permissionData: unknown) => {
+        this.logger.debug("Tracker", "Permission change received from native:", permissionData);
+        if (!this.updatePermission(permissionData)) {
+          this.logger.warn("Tracker", "Ignoring undecodable permission event:", permissionData);
+        }
       }
     );
 
-    console.log("[DEBUG] ✅ Event emitter listeners set up successfully for", Platform.OS);
+    this.logger.debug("Tracker", "Event emitter listeners set up successfully");
   }
 
-  private async processLocationUpdate(location: LocationUpdate): Promise<void> {
-    try {
-      console.log("[Tracker] Processing location update (", Platform.OS, "):", {
-        latitude: location.latitude,
-        longitude: location.longitude,
-        timestamp: location.timestamp,
-        isBelowDistanceThreshold: location.isBelowDistanceThreshold,
-        updateReason: location.updateReason,
-      });
-
-      // Check if this is idle time data (indicated by -999 coordinates or type field)
-      const isIdleTimeData = location.latitude === -999 || 
-                           location.longitude === -999 || 
-                           location.updateReason === 'idle_time_only';
-
-      if (isIdleTimeData) {
-        console.log("[Tracker] Processing idle time data - handling separately");
-        await this.handleIdleTimeData(location);
-        return;
-      }
+  private handleFix(fix: FixEvent): void {
+    let locationUpdate = fix.location;
+    
+    this.logger.debug("Tracker", "Converted location update:", {
+      latitude: locationUpdate.latitude,
+      longitude: locationUpdate.longitude,
+      timestamp: locationUpdate.timestamp,
+      updateReason: locationUpdate.updateReason,
+      platform: Platform.OS,
+    });
 
-      // Always store background location for actual location updates
-      await this.storeBackgroundLocation(
-        location.latitude,
-        location.longitude,
-        new Date(location.timestamp)
-      );
+    // Outliers never reach storage or subscribers, but are counted and reported
+    const filtered = this.locationFilter.process(locationUpdate);
+    if (!filtered.accepted) {
+      this.logger.debug("Tracker", `Rejected fix (${filtered.reason}):`, filtered.detail);
+      this.emit("fixRejected", { location: locationUpdate, reason: filtered.reason, detail: filtered.detail });
+      return;
+    }
+    locationUpdate = filtered.fix;
+    this.lastKnownLocation = locationUpdate;
+    this.recordFixForHealth(locationUpdate);
+
+    // Process the location update
+    this.locationProcessing
+      .run(() => this.processLocationUpdate(locationUpdate))
+      .catch((error) => this.logger.error("Tracker", "Error processing location update:", error));
+
+    if (this.onLocationUpdate) {
+      this.logger.debug("Tracker", "Calling user callback with location update");
+      this.onLocationUpdate(locationUpdate);
+    }
+    this.emit("location", locationUpdate);
+  }
 
-      // Handle distance-based tracking only for actual location updates
-      await this.saveDistanceIfMoved_handler(
-        location.latitude,
-        location.longitude,
-        location.isBelowDistanceThreshold || false,
-        location.timestamp
-      );
+  private async processLocationUpdate(location: LocationUpdate): Promise<void> {
+    this.logger.debug("Tracker", "Processing location update:", {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timestamp: location.timestamp,
+      isBelowDistanceThreshold: location.isBelowDistanceThreshold,
+      updateReason: location.updateReason,
+    });
 
-    } catch (error) {
-      console.error("[Tracker] Error processing location update:", error);
+    await this.recordHistory(location);
+    const segmentEvents = await this.updateSegments(location);
+    await this.updateGeofences(location);
+
+    // Fixes where a stop, trip or idle period starts or ends are kept by simplification
+    const isIdle = location.isCurrentlyIdle ?? false;
+    const boundary = segmentEvents.length > 0 || isIdle !== this.wasIdle;
+    this.wasIdle = isIdle;
+
+    // Always store background location for actual location updates
+    await this.storeBackgroundLocation(
+      location.latitude,
+      location.longitude,
+      new Date(location.timestamp),
+      boundary
+    );
+    if (this.session) {
+      await this.sessionStore.recordPoint(location.timestamp);
     }
+    await this.updateTravelStats(location);
+
+    // Handle distance-based tracking only for actual location updates
+    await this.saveDistanceIfMoved_handler(
+      location.latitude,
+      location.longitude,
+      location.isBelowDistanceThreshold || false,
+      location.timestamp
+    );
   }
 
-  private async handleIdleTimeData(location: LocationUpdate): Promise<void> {
-    try {
-      console.log("[Idle] Handling idle time data (", Platform.OS, "):", {
-        totalIdleTime: location.totalIdleTimeBelowThreshold,
-        isCurrentlyIdle: location.isCurrentlyIdle,
-        outsideVisitIdleTime: location.outsideVist_Total_IdleTime,
-      });
+  private async handleIdleTimeData(event: IdleEvent): Promise<void> {
+    this.logger.debug("Idle", "Handling idle time data:", {
+      totalIdleTime: event.idleTime,
+      isCurrentlyIdle: event.isCurrentlyIdle,
+      outsideVisitIdleTime: event.outsideVisitIdleTime,
+    });
 
-      // For idle time data, we store locally only, don't sync to server in foreground
-      // The idle time information is for internal tracking only
-      // We only send idle status when the user has been idle for the threshold period AND app is in background
-      
-      if (location.totalIdleTimeBelowThreshold && location.totalIdleTimeBelowThreshold >= this.IDLE_THRESHOLD) {
-        console.log("[Idle] User has been idle for threshold period, storing locally only");
-        
-        // Store idle status locally only, don't sync to server in foreground
-        const lastLocation = await getLastLocation();
-        if (lastLocation) {
-          console.log("[Idle] Idle status stored locally (no foreground sync)");
-        }
+    // Native idle time is a running total across stops, so it can't date this one
+    if (this.staticLocationStartTime === null) {
+      this.staticLocationStartTime = event.timestamp;
+      this.logger.debug("Idle", "Started tracking static location at:", new Date(event.timestamp).toISOString());
+    }
+
+    // Idle reports are queued with the fixes and uploaded by the background sync
+    if (event.timestamp - this.staticLocationStartTime >= this.trackerConfig.idleThresholdMs) {
+      // Idle events carry no position; the user is idle where the last fix was saved
+      const lastLocation = await getLastLocation(this.storage, this.logger);
+      if (lastLocation) {
+        await this.recordIdleReport(lastLocation, event.timestamp, event.outsideVisitIdleTime);
       } else {
-        console.log("[Idle] Idle time below threshold, storing locally only");
+        this.logger.debug("Idle", "No last location yet, idle report skipped");
       }
-    } catch (error) {
-      console.error("[Idle] Error handling idle time data:", error);
+    } else {
+      this.logger.debug("Idle", "Idle time below threshold, nothing to report");
+    }
+  }
+
+  // Queues an idle event for the current idle period at most once per idleReportIntervalMs.
+  // Reports for the same period share its start time, so the server can keep the latest duration.
+  private async recordIdleReport(
+    position: { latitude: number; longitude: number },
+    reportTime: number,
+    outsideVisitIdleTime?: number
+  ): Promise<void> {
+    const idleStartTime = this.staticLocationStartTime!;
+    if (
+      this.lastIdleReport?.startTime === idleStartTime &&
+      reportTime - this.lastIdleReport.reportTime < this.trackerConfig.idleReportIntervalMs
+    ) {
+      return;
     }
+    this.lastIdleReport = { startTime: idleStartTime, reportTime };
+    const idleDuration = reportTime - idleStartTime;
+
+    const totalStored = await this.locationQueue.append([{
+      id: createLocationId(),
+      latitude: position.latitude,
+      longitude: position.longitude,
+      timestamp: new Date(idleStartTime).toISOString(),
+      isIdle: true,
+      idleDuration,
+      outsideVisitIdleTime,
+      ...this.sessionTag(),
+    }]);
+
+    this.logger.debug("Idle", "Queued idle report:", {
+      idleMinutes: Math.floor(idleDuration / 60000),
+      startedAt: new Date(idleStartTime).toISOString(),
+      totalStored,
+    });
   }
 
   private setupNetworkListener() {
@@ -313,7 +746,7 @@ class LocationTracker {
       const isConnected = (state.isConnected && state.isInternetReachable) ?? false;
       
       if (this.lastNetworkState !== isConnected) {
-        console.log("[Tracker] Network state changed (", Platform.OS, "):", {
+        this.logger.info("Tracker", "Network state changed:", {
           from: this.lastNetworkState,
           to: isConnected,
         });
@@ -330,263 +763,1239 @@ class LocationTracker {
 
   private setupAppStateListener() {
     this.appStateSubscription = AppState.addEventListener("change", (nextAppState) => {
-      console.log("[Tracker] App state changed (", Platform.OS, "):", nextAppState);
+      this.logger.info("Tracker", "App state changed:", nextAppState);
       
       if (nextAppState === "active") {
         // App came to foreground, sync any pending locations
-        console.log("[Tracker] App came to foreground - syncing pending locations");
+        this.logger.debug("Tracker", "App came to foreground - syncing pending locations");
         this.syncBackgroundLocations();
+        // The user may be back from the settings screen, so the permission may have changed
+        this.checkLocationPermission().catch((error) => {
+          this.logger.warn("Tracker", "Could not re-check location permission:", error);
+        });
       } else if (nextAppState === "background") {
-        console.log("[Tracker] App went to background - continuing location tracking");
+        this.logger.debug("Tracker", "App went to background - continuing location tracking");
       } else if (nextAppState === "inactive") {
-        console.log("[Tracker] App became inactive");
+        this.logger.debug("Tracker", "App became inactive");
       }
     });
   }
 
-  private showNoInternetAlert = () => {
-    Alert.alert(
-      "No Internet Connection",
-      "Please check your internet connection and try again.",
-      [{ text: "OK" }]
-    );
-  };
-
   private async checkInternetConnection(): Promise<boolean> {
     try {
       const state = await NetInfo.fetch();
       return (state.isConnected && state.isInternetReachable) ?? false;
     } catch (error) {
-      console.error("[Tracker] Error checking internet connection:", error);
+      this.logger.error("Tracker", "Error checking internet connection:", error);
       return false;
     }
   }
 
-  async startTracking(callback: (location: LocationUpdate) => void): Promise<boolean> {
+  // `callback` is kept for existing callers; use on("location") to add more subscribers.
+  // `metadata` (shift ID, vehicle, ...) is stored on the tracking session this call starts.
+  async startTracking(
+    callback?: (location: LocationUpdate) => void,
+    metadata: Record<string, unknown> = {}
+  ): Promise<boolean> {
     try {
-      console.log("[DEBUG] 🚀 Starting location tracking on", Platform.OS);
-      console.log("[DEBUG] 📱 NativeLocationModule available:", !!NativeLocationModule);
-      console.log("[DEBUG] 📱 NativeLocationModule methods:", Object.keys(NativeLocationModule));
+      this.logger.info("Tracker", "Starting location tracking");
+      this.logger.debug("Tracker", "NativeLocationModule available:", !!this.nativeModule);
+      this.logger.debug("Tracker", "NativeLocationModule methods:", Object.keys(this.nativeModule));
 
+      await this.restoration;
       if (this.isTracking) {
-        console.log("[DEBUG] ⚠️ Already tracking, skipping start");
+        this.logger.debug("Tracker", "Already tracking, skipping start");
         return true;
       }
 
+      // Speed and ordering checks start from scratch; the previous session's last fix may be hours old
+      this.locationFilter.reset();
+
       // Set the callback
-      this.onLocationUpdate = callback;
-      console.log("[DEBUG] ✅ Callback set");
+      this.onLocationUpdate = callback ?? null;
+      this.logger.debug("Tracker", "Callback set");
 
       // Request permissions first
-      console.log("[DEBUG] 🔐 Requesting permissions...");
+      this.logger.debug("Tracker", "Requesting permissions...");
       const hasPermissions = await this.requestLocationPermissions();
-      console.log("[DEBUG] 🔐 Permission result:", hasPermissions);
+      this.logger.debug("Tracker", "Permission result:", hasPermissions);
       
       if (!hasPermissions) {
-        console.error("[DEBUG] ❌ Location permissions not granted");
+        this.logger.error("Tracker", "Location permissions not granted");
         return false;
       }
 
       // Start native tracking
-      console.log("[DEBUG] 🚀 Calling native startLocationTracking...");
-      const result = await NativeLocationModule.startLocationTracking();
-      console.log("[DEBUG] 🚀 Native tracking start result:", result);
+      this.logger.debug("Tracker", "Calling native startLocationTracking...");
+      const result = await this.nativeModule.startLocationTracking();
+      this.logger.debug("Tracker", "Native tracking start result:", result);
 
-      if (result?.status === "success") {
-        this.isTracking = true;
-        console.log("[DEBUG] ✅ Location tracking started successfully on", Platform.OS);
+      if (isStartSuccess(result)) {
+        await this.beginTracking(metadata);
+        this.logger.info("Tracker", "Location tracking started successfully");
         return true;
       } else {
-        console.error("[DEBUG] ❌ Failed to start location tracking:", result);
+        this.logger.error("Tracker", "Failed to start location tracking:", result);
         return false;
       }
     } catch (error) {
-      console.error("[DEBUG] ❌ Error starting location tracking:", error);
+      this.logger.error("Tracker", "Error starting location tracking:", error);
       return false;
     }
   }
 
   async stopTracking(): Promise<void> {
     try {
-      console.log("[DEBUG] 🛑 Stopping location tracking on", Platform.OS);
+      this.logger.info("Tracker", "Stopping location tracking");
 
+      await this.restoration;
       if (!this.isTracking) {
-        console.log("[DEBUG] ⚠️ Not tracking, skipping stop");
+        this.logger.debug("Tracker", "Not tracking, skipping stop");
         return;
       }
 
       // Stop native tracking
-      await NativeLocationModule.stopLocationTracking();
+      this.stopRequested = true;
+      await this.nativeModule.stopLocationTracking();
       
       this.isTracking = false;
       this.onLocationUpdate = null;
+      this.emit("trackingChange", false);
+      await this.endSession("user");
+      await this.setTrackingWanted(false);
       
-      console.log("[DEBUG] ✅ Location tracking stopped successfully on", Platform.OS);
+      this.logger.info("Tracker", "Location tracking stopped successfully");
+    } catch (error) {
+      this.logger.error("Tracker", "Error stopping location tracking:", error);
+    } finally {
+      this.stopRequested = false;
+    }
+  }
+
+  // The active tracking session; null while not tracking
+  getCurrentSession(): TrackingSession | null {
+    return this.session;
+  }
+
+  // Finished sessions oldest first (up to sessions.maxSessions), then the active one
+  async getSessions(): Promise<TrackingSession[]> {
+    return this.sessionStore.list();
+  }
+
+  async getSession(id: string): Promise<TrackingSession | null> {
+    return this.sessionStore.get(id);
+  }
+
+  // Merges into the active session's metadata, e.g. when the driver switches vehicle mid-shift
+  async setSessionMetadata(metadata: Record<string, unknown>): Promise<TrackingSession | null> {
+    const session = await this.sessionStore.updateMetadata(metadata);
+    if (session && this.session?.id === session.id) {
+      this.session = session;
+    }
+    return session;
+  }
+
+  // Tracking still works if the session can't be stored; its points just go untagged
+  private async startSession(metadata: Record<string, unknown>): Promise<void> {
+    try {
+      this.session = await this.sessionStore.start(metadata);
+      this.logger.info("Tracker", `Session ${this.session.id} started`);
+      this.emit("sessionStart", this.session);
+    } catch (error) {
+      this.logger.error("Tracker", "Error starting tracking session:", error);
+    }
+  }
+
+  private async endSession(reason: SessionStopReason, detail?: string): Promise<void> {
+    if (!this.session) {
+      return;
+    }
+    this.session = null;
+    try {
+      const session = await this.sessionStore.end(reason, detail);
+      if (session) {
+        this.logger.info("Tracker", `Session ${session.id} ended (${reason})`);
+        this.emit("sessionEnd", session);
+      }
+    } catch (error) {
+      this.logger.error("Tracker", "Error ending tracking session:", error);
+    }
+  }
+
+  private async recoverInterruptedSession(): Promise<TrackingSession | null> {
+    try {
+      const session = await this.sessionStore.recoverInterrupted();
+      if (session) {
+        this.logger.warn("Tracker", `Session ${session.id} was interrupted by the OS; closed at ${session.endedAt}`);
+        this.emit("sessionEnd", session);
+      }
+      return session;
+    } catch (error) {
+      this.logger.error("Tracker", "Error recovering tracking session:", error);
+      return null;
+    }
+  }
+
+  // Shared by startTracking() and restoreTracking() once native tracking is running. The tracker
+  // only counts as tracking once the odometer and session are ready; if they can't be set up,
+  // native tracking is stopped again and the error passed on.
+  private async beginTracking(metadata: Record<string, unknown>): Promise<void> {
+    try {
+      await this.odometer.breakTrack();
+      await this.startSession(metadata);
+    } catch (error) {
+      try {
+        await this.nativeModule.stopLocationTracking();
+      } catch (stopError) {
+        this.logger.error("Tracker", "Error stopping native tracking after a failed start:", stopError);
+      }
+      throw error;
+    }
+
+    this.isTracking = true;
+    this.trackingStartedAt = Date.now();
+    await this.setTrackingWanted(true);
+    this.emit("trackingChange", true);
+  }
+
+  private async setTrackingWanted(wanted: boolean): Promise<void> {
+    try {
+      if (wanted) {
+        await this.storage.setItem(TRACKING_STATE_KEY, JSON.stringify({ since: new Date().toISOString() }));
+      } else {
+        await this.storage.removeItem(TRACKING_STATE_KEY);
+      }
+    } catch (error) {
+      this.logger.error("Tracker", "Error saving tracking state:", error);
+    }
+  }
+
+  // Runs once on construction. If the app was tracking when its process died, either carries on
+  // with native tracking that survived (an Android foreground service, iOS relaunching the app
+  // for a location event) or starts it again. Without that, an open session is closed as osKilled.
+  private async restoreTracking(): Promise<void> {
+    try {
+      const wanted = (await this.storage.getItem(TRACKING_STATE_KEY)) !== null;
+      if (!wanted || !this.autoResume) {
+        await this.recoverInterruptedSession();
+        return;
+      }
+
+      // Null on native builds without getHealthMetrics(); treated as not tracking, so the
+      // interrupted session is closed and tracking started again
+      const native = await this.readNativeHealth();
+      if (native?.isTracking) {
+        this.session = await this.sessionStore.current();
+        this.isTracking = true;
+        this.trackingStartedAt = Date.now();
+        if (!this.session) {
+          await this.startSession({});
+        }
+        this.logger.info("Tracker", "Native tracking survived a restart; resuming");
+        this.emit("trackingChange", true);
+        this.emit("trackingResumed", { mode: "resumed", session: this.session });
+        return;
+      }
+
+      const interrupted = await this.recoverInterruptedSession();
+      const permission = await this.checkLocationPermission();
+      if (!isPermissionGranted(permission)) {
+        this.logger.warn("Tracker", `Not restarting tracking without location permission (${permission.status})`);
+        await this.setTrackingWanted(false);
+        return;
+      }
+
+      const result = await this.nativeModule.startLocationTracking();
+      if (!isStartSuccess(result)) {
+        this.logger.error("Tracker", "Failed to restart location tracking:", result);
+        return;
+      }
+      this.locationFilter.reset();
+      await this.beginTracking(interrupted?.metadata ?? {});
+      this.logger.info("Tracker", "Location tracking restarted after the app was killed");
+      this.emit("trackingResumed", { mode: "restarted", session: this.session });
     } catch (error) {
-      console.error("[DEBUG] ❌ Error stopping location tracking:", error);
+      this.logger.error("Tracker", "Error restoring location tracking:", error);
     }
   }
 
+  private sessionTag(): { sessionId?: string } {
+    return this.session ? { sessionId: this.session.id } : {};
+  }
+
+  // Native tracking stopped without stopTracking(), e.g. Android's service giving up after errors
+  private handleNativeStopped(message?: string): void {
+    this.logger.warn("Tracker", "Native tracking stopped unexpectedly:", message ?? "");
+    this.isTracking = false;
+    this.onLocationUpdate = null;
+    this.emit("trackingChange", false);
+    this.endSession("error", message);
+  }
+
+  // Asks for foreground access (prompting if the system still will); true when the app has
+  // foreground or background access afterwards
   async requestLocationPermissions(): Promise<boolean> {
     try {
-      console.log("[DEBUG] 🔐 Requesting location permissions on", Platform.OS);
+      this.logger.debug("Tracker", "Requesting location permissions");
 
-      const result = await NativeLocationModule.requestLocationPermissions();
-      console.log("[DEBUG] 🔐 Permission request result:", result);
+      const result = await this.nativeModule.requestLocationPermissions();
+      this.logger.debug("Tracker", "Permission request result:", result);
+      const state = this.updatePermission(result);
 
-      if (result?.status === "granted") {
-        console.log("[DEBUG] ✅ Location permissions granted on", Platform.OS);
+      if (state && isPermissionGranted(state)) {
+        this.logger.info("Tracker", `Location permissions granted (${state.status}, ${state.accuracy})`);
         return true;
       } else {
-        console.error("[DEBUG] ❌ Location permissions denied on", Platform.OS, ":", result);
+        this.logger.error("Tracker", "Location permissions denied:", result);
         return false;
       }
     } catch (error) {
-      console.error("[DEBUG] ❌ Error requesting location permissions:", error);
+      this.logger.error("Tracker", "Error requesting location permissions:", error);
       return false;
     }
   }
 
+  // Last permission state reported by the native module; null until the first request, check
+  // or permission event
+  getPermissionState(): LocationPermissionState | null {
+    return this.permission;
+  }
+
+  // Reads the current permission without prompting
+  async checkLocationPermission(): Promise<LocationPermissionState> {
+    const result = await this.nativeModule.getPermissionStatus();
+    const state = this.updatePermission(result);
+    if (!state) {
+      throw new Error(`Unrecognised permission status: ${JSON.stringify(result)}`);
+    }
+    return state;
+  }
+
+  // Upgrades foreground access to background. Explain why before calling this: iOS shows its
+  // "Always" prompt only once, and Android 11+ sends the user to the settings screen instead.
+  async requestBackgroundPermission(): Promise<LocationPermissionState> {
+    this.logger.debug("Tracker", "Requesting background location permission");
+    const result = await this.nativeModule.requestBackgroundPermission();
+    const state = this.updatePermission(result);
+    if (!state) {
+      throw new Error(`Unrecognised permission status: ${JSON.stringify(result)}`);
+    }
+    this.logger.info("Tracker", "Background permission request result:", state.status);
+    return state;
+  }
+
+  // App settings screen, for when the system no longer prompts. The state is re-checked when
+  // the app returns to the foreground.
+  async openSettings(): Promise<void> {
+    this.logger.info("Tracker", "Opening app settings for location permission");
+    await Linking.openSettings();
+  }
+
+  // Walks the guided flow from nextPermissionAction() until the app has the access it needs or
+  // nothing more can be done. `explain` runs before each prompt or trip to the settings screen
+  // (e.g. to show a rationale dialog) and can cancel it by returning false. Each step is tried
+  // at most once, and the flow stops after opening the settings screen.
+  async ensureLocationPermission(
+    options: {
+      background?: boolean;
+      explain?: (action: PermissionAction, state: LocationPermissionState) => boolean | Promise<boolean>;
+    } = {}
+  ): Promise<LocationPermissionState> {
+    let state = await this.checkLocationPermission();
+    const tried = new Set<PermissionAction>();
+
+    for (;;) {
+      const action = nextPermissionAction(state, options.background ?? false);
+      if (action === "none" || action === "unavailable" || tried.has(action)) {
+        return state;
+      }
+      tried.add(action);
+
+      if (options.explain && !(await options.explain(action, state))) {
+        return state;
+      }
+
+      if (action === "request") {
+        await this.requestLocationPermissions();
+        state = this.permission ?? state;
+      } else if (action === "requestBackground") {
+        state = await this.requestBackgroundPermission();
+      } else {
+        await this.openSettings();
+        return state;
+      }
+    }
+  }
+
+  // Records a native permission payload, emits permissionChange if the state moved and stops
+  // tracking if access was revoked; null if the payload couldn't be decoded
+  private updatePermission(payload: unknown): LocationPermissionState | null {
+    const state = decodePermission(payload);
+    if (!state) {
+      return null;
+    }
+
+    const previous = this.permission;
+    this.permission = state;
+    if (
+      previous?.status !== state.status ||
+      previous.accuracy !== state.accuracy ||
+      previous.canAskAgain !== state.canAskAgain
+    ) {
+      this.logger.info("Tracker", `Location permission: ${previous?.status ?? "unknown"} -> ${state.status}`);
+      this.emit("permissionChange", state, previous);
+    }
+
+    if (this.isTracking && !isPermissionGranted(state)) {
+      this.handlePermissionRevoked(state);
+    }
+    return state;
+  }
+
+  private handlePermissionRevoked(state: LocationPermissionState): void {
+    this.logger.warn("Tracker", `Location permission revoked while tracking (${state.status}); stopping`);
+    this.isTracking = false;
+    this.onLocationUpdate = null;
+    this.emit("trackingChange", false);
+    this.endSession("permissionRevoked");
+    this.setTrackingWanted(false);
+
+    // Lets the native side drop its foreground service and location requests
+    this.nativeModule.stopLocationTracking().catch((error) => {
+      this.logger.warn("Tracker", "Error stopping native tracking after revocation:", error);
+    });
+  }
+
+  // Raw native value: 1 for full accuracy; reduced accuracy is 0 on iOS and 2 on Android (coarse
+  // location only). decodeAccuracyAuthorization() turns it into "precise" or "reduced".
+  async checkAccuracyAuthorization(): Promise<number> {
+    return this.nativeModule.checkAccuracyAuthorization();
+  }
+
+  async requestAccuracyAuthorization(): Promise<number> {
+    return this.nativeModule.requestAccuracyAuthorization();
+  }
+
+  // Last fix the native module knows about, which may predate this tracker; null if there is none
+  async getLastNativeLocation(): Promise<LocationUpdate | null> {
+    const payload = await this.nativeModule.getLastLocation();
+    return payload ? normalizeLocation(payload) : null;
+  }
+
+  // Number of fixes and idle reports waiting to be uploaded
+  async getPendingCount(): Promise<number> {
+    return this.locationQueue.size();
+  }
+
   async storeBackgroundLocation(
     latitude: number,
     longitude: number,
-    time: Date
+    time: Date,
+    boundary: boolean = false
   ): Promise<void> {
     try {
-      // Check if this is idle time data (indicated by -999 coordinates)
-      if (latitude === -999 || longitude === -999) {
-        console.log("[Background] Skipping idle time data in storeBackgroundLocation");
-        return;
-      }
-
-      const storedLocations = await AsyncStorage.getItem(BACKGROUND_LOCATIONS_KEY);
-      let locations = storedLocations ? JSON.parse(storedLocations) : [];
-
-      locations.push({
+      const totalStored = await this.locationQueue.append([{
+        id: createLocationId(),
         latitude,
         longitude,
         timestamp: time.toISOString(),
-      });
-
-      await AsyncStorage.setItem(BACKGROUND_LOCATIONS_KEY, JSON.stringify(locations));
+        ...(boundary ? { boundary } : {}),
+        ...this.sessionTag(),
+      }]);
       
-      console.log("[Background] Stored location locally (will sync when app goes to background):", {
+      this.logger.debug("Background", "Stored location locally (will sync when app goes to background):", {
         latitude,
         longitude,
         timestamp: time.toISOString(),
-        totalStored: locations.length,
+        totalStored,
         platform: Platform.OS,
       });
     } catch (error) {
-      console.error("[Background] Failed to store location:", error);
+      this.logger.error("Background", "Failed to store location:", error);
       throw error;
     }
   }
 
   async syncBackgroundLocations(): Promise<void> {
+    if (this.isSyncing) {
+      this.logger.debug("Background", "Sync already in progress, skipping");
+      return;
+    }
+
+    this.isSyncing = true;
     try {
-      console.log("[Background] Starting background location sync (background-only mode) on", Platform.OS);
+      this.logger.debug("Background", "Starting background location sync (background-only mode)");
       const isOnline = await this.checkInternetConnection();
       if (!isOnline) {
-        console.log("[Background] No internet connection, skipping sync");
+        // Not counted as a failure: the NetInfo listener resumes sync once the device reconnects
+        this.logger.debug("Background", "No internet connection, skipping sync");
         return;
       }
 
-      const storedLocations = await AsyncStorage.getItem(BACKGROUND_LOCATIONS_KEY);
-      let locations = storedLocations ? JSON.parse(storedLocations) : [];
+      if (this.simplificationConfig.enabled) {
+        await this.simplifyPendingLocations();
+      }
+
+      const pendingCount = await this.locationQueue.size();
 
-      if (locations.length === 0) {
-        console.log("[Background] No stored locations to sync");
+      if (pendingCount === 0) {
+        this.logger.debug("Background", "No stored locations to sync");
+        await this.resetSyncRetry();
         return;
       }
 
-      console.log("[Background] Starting sync of", locations.length, "locations (background-only mode) on", Platform.OS);
+      this.logger.info("Background", `Starting sync of ${pendingCount} locations`);
+      this.emit("syncStarted", { pendingCount });
 
-      let successCount = 0;
-      let failureCount = 0;
-      let processedCount = 0;
+      const allSynced = this.syncConfig.batchUpload
+        ? await this.syncBackgroundLocationsInBatches(pendingCount)
+        : await this.syncBackgroundLocationsOneByOne(pendingCount);
 
-      // Process locations one by one and remove them immediately after successful sync
-      while (locations.length > 0 && processedCount < locations.length) {
-        const location = locations[0]; // Always take the first location
-        
-        try {
-          await sendLocationToServer(
-            location.latitude,
-            location.longitude,
-            location.timestamp
-          );
-          successCount++;
-          console.log("[Background] Successfully synced location to server:", location);
-          
-          // Remove this location from the array after successful sync
-          locations.shift(); // Remove the first element
-          
-          // Update AsyncStorage with remaining locations
-          await AsyncStorage.setItem(BACKGROUND_LOCATIONS_KEY, JSON.stringify(locations));
-          console.log("[Background] Removed synced location from storage. Remaining:", locations.length);
-          
-        } catch (error) {
-          failureCount++;
-          console.error("[Background] Error syncing location to server:", error);
-          
-          // Move failed location to the end of the array for retry later
-          const failedLocation = locations.shift();
-          if (failedLocation) {
-            locations.push(failedLocation);
-            await AsyncStorage.setItem(BACKGROUND_LOCATIONS_KEY, JSON.stringify(locations));
-            console.log("[Background] Moved failed location to end for retry. Remaining:", locations.length);
-          }
-        }
-        
-        processedCount++;
+      const remainingCount = await this.locationQueue.size();
+      if (allSynced) {
+        await this.resetSyncRetry();
+        this.emit("syncCompleted", {
+          syncedCount: Math.max(0, pendingCount - remainingCount),
+          remainingCount,
+        });
+      } else {
+        await this.scheduleSyncRetry();
+        this.emitSyncFailed("Some locations could not be synced", remainingCount);
       }
-
-      console.log("[Background] Background sync completed - Success:", successCount, "Failed:", failureCount, "Remaining in storage:", locations.length, "on", Platform.OS);
     } catch (error) {
-      console.error("[Background] Failed to sync locations:", error);
+      this.logger.error("Background", "Failed to sync locations:", error);
+      await this.scheduleSyncRetry();
+      this.emitSyncFailed(error instanceof Error ? error.message : String(error), await this.locationQueue.size());
       throw error;
+    } finally {
+      this.isSyncing = false;
     }
   }
 
-  async saveDistanceIfMoved_handler(
-    lat: number,
-    lon: number,
-    isBelowDistanceThreshold: boolean,
-    time: Date | string | number
-  ): Promise<void> {
+  // Drops points queued since the last pass that lie on the simplified line. Each session's points
+  // are simplified in timestamp order; idle reports and boundary fixes are kept. Points that were
+  // already sent once are left alone: they were simplified before their first attempt.
+  private async simplifyPendingLocations(): Promise<void> {
     try {
-      // Check if this is idle time data (indicated by -999 coordinates)
-      if (lat === -999 || lon === -999) {
-        console.log("[Tracking] Skipping idle time data in saveDistanceIfMoved_handler");
-        return;
+      const queued = await this.peekLocationsSinceLastSimplification();
+      const fresh = queued.filter((location) => !location.attempts);
+
+      const sessions = new Map<string | undefined, StoredLocation[]>();
+      for (const location of fresh) {
+        const points = sessions.get(location.sessionId) ?? [];
+        points.push(location);
+        sessions.set(location.sessionId, points);
       }
 
-      let lastLocation = await getLastLocation();
+      const keptIds = new Set<string>();
+      for (const points of sessions.values()) {
+        points.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+        const kept = simplifyTrack(
+          points,
+          this.simplificationConfig,
+          (location) => !!location.isIdle || !!location.boundary
+        );
+        kept.forEach((location) => keptIds.add(location.id));
+      }
 
-      // Convert time to a valid Date object
-      let timestamp: Date;
-      try {
-        if (time instanceof Date) {
-          timestamp = time;
-        } else if (typeof time === "string") {
-          timestamp = new Date(time);
-        } else if (typeof time === "number") {
-          timestamp = new Date(time);
-        } else {
-          timestamp = new Date();
-        }
+      const dropped = new Set(fresh.filter((location) => !keptIds.has(location.id)).map((location) => location.id));
+      if (dropped.size > 0) {
+        await this.locationQueue.remove([...dropped]);
+      }
+      // The newest point still queued; anything appended after it belongs to the next pass
+      const newest = [...queued].reverse().find((location) => !dropped.has(location.id));
+      if (newest) {
+        await this.storage.setItem(SIMPLIFIED_THROUGH_KEY, newest.id);
+      }
 
-        if (isNaN(timestamp.getTime())) {
-          console.warn("[Tracking] Invalid timestamp, using current time:", time);
+      this.simplificationStats = {
+        inputPoints: fresh.length,
+        outputPoints: keptIds.size,
+        compressionRatio: keptIds.size > 0 ? fresh.length / keptIds.size : 1,
+        totalRemovedPoints: this.simplificationStats.totalRemovedPoints + dropped.size,
+      };
+      this.logger.debug("Background", "Simplified pending track:", {
+        before: fresh.length,
+        after: keptIds.size,
+        compressionRatio: this.simplificationStats.compressionRatio.toFixed(2),
+      });
+    } catch (error) {
+      // Simplification is an optimisation; upload the full queue if it fails
+      this.logger.error("Background", "Error simplifying pending locations:", error);
+    }
+  }
+
+  // Reads the queue backwards from the tail, page by page, until the point the last pass ended
+  // at. When that point has gone (uploaded, or the queue was cleared) everything still queued is
+  // newer, apart from retried points.
+  private async peekLocationsSinceLastSimplification(): Promise<StoredLocation[]> {
+    const simplifiedThrough = await this.storage.getItem(SIMPLIFIED_THROUGH_KEY);
+    const pages: StoredLocation[][] = [];
+
+    for (let end = await this.locationQueue.size(); end > 0; end -= QUEUE_PAGE_SIZE) {
+      const offset = Math.max(0, end - QUEUE_PAGE_SIZE);
+      const page = await this.locationQueue.peek(end - offset, offset);
+      const seen = page.findIndex((location) => location.id === simplifiedThrough);
+      if (seen !== -1) {
+        pages.unshift(page.slice(seen + 1));
+        break;
+      }
+      pages.unshift(page);
+    }
+    return pages.flat();
+  }
+
+  getSimplificationStats(): SimplificationStats {
+    return { ...this.simplificationStats };
+  }
+
+  // Each pass only visits the points that were queued when it started; failed points move to the tail
+  private async syncBackgroundLocationsOneByOne(total: number): Promise<boolean> {
+    let successCount = 0;
+    let failureCount = 0;
+    let rejectedCount = 0;
+    let processedCount = 0;
+    let remaining = total;
+
+    // Process locations one by one and remove them immediately after successful sync
+    while (processedCount < total) {
+      const [location] = await this.locationQueue.peek(1); // Always take the first location
+      if (!location) {
+        break;
+      }
+      
+      try {
+        await this.measureUpload(() =>
+          sendLocationToServer(
+            location.latitude,
+            location.longitude,
+            location.timestamp,
+            location.isIdle ?? false,
+            location.idleDuration,
+            this.syncConfig,
+            location.outsideVisitIdleTime,
+            location.sessionId
+          )
+        );
+        successCount++;
+        this.logger.debug("Background", "Successfully synced location to server:", location);
+        
+        // Remove this location from the queue after successful sync
+        remaining = await this.locationQueue.remove([location.id]);
+        this.logger.debug("Background", "Removed synced location from storage. Remaining:", remaining);
+        
+      } catch (error) {
+        this.logger.error("Background", "Error syncing location to server:", error);
+
+        if (error instanceof SyncValidationError) {
+          // Permanent: retrying can't fix the point, and left at the head it would block the queue
+          rejectedCount++;
+          remaining = await this.locationQueue.remove([location.id]);
+          await this.addToDeadLetter([this.markFailedAttempt(location, error)], "failing validation");
+          processedCount++;
+          continue;
+        }
+
+        failureCount++;
+        if (!(error instanceof SyncHttpError)) {
+          // Network failure - the remaining points would fail the same way, let the scheduler retry
+          break;
+        }
+
+        // Count the attempt against this point and move it to the end of the queue for retry later
+        remaining = await this.requeueFailedLocations([location], error);
+        this.logger.debug("Background", "Moved failed location to end for retry. Remaining:", remaining);
+      }
+      
+      processedCount++;
+    }
+
+    this.logger.info("Background", `Background sync completed - Success: ${successCount}, Failed: ${failureCount}, Rejected: ${rejectedCount}, Remaining: ${remaining}`);
+    return failureCount === 0;
+  }
+
+  private async syncBackgroundLocationsInBatches(total: number): Promise<boolean> {
+    const batchSize = Math.max(1, Math.floor(this.syncConfig.batchSize ?? DEFAULT_BATCH_SIZE));
+
+    let successCount = 0;
+    let failureCount = 0;
+    let processedCount = 0;
+
+    while (processedCount < total) {
+      const batch = await this.locationQueue.peek(Math.min(batchSize, total - processedCount));
+      if (batch.length === 0) {
+        break;
+      }
+      processedCount += batch.length;
+
+      const payload: BatchLocationPayload[] = batch.map((location) => ({
+        id: location.id,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timestamp: location.timestamp,
+        isIdle: location.isIdle,
+        idleDuration: location.idleDuration,
+        outsideVisitIdleTime: location.outsideVisitIdleTime,
+        sessionId: location.sessionId,
+      }));
+
+      try {
+        const { acknowledgedIds, rejectedIds } = await this.measureUpload(() =>
+          sendLocationBatchToServer(payload, this.syncConfig)
+        );
+        successCount += acknowledgedIds.length;
+        failureCount += rejectedIds.length;
+
+        let remaining = await this.locationQueue.remove(acknowledgedIds);
+        if (rejectedIds.length > 0) {
+          const rejected = new Set(rejectedIds);
+          remaining = await this.requeueFailedLocations(
+            batch.filter((location) => rejected.has(location.id)),
+            new Error("Rejected by server")
+          );
+        }
+        this.logger.debug("Background", `Synced batch of ${batch.length} locations - Acknowledged: ${acknowledgedIds.length}, Rejected: ${rejectedIds.length}, Remaining: ${remaining}`);
+      } catch (error) {
+        // The whole batch failed (network or server error); keep everything queued and stop here
+        failureCount += batch.length;
+        this.logger.error("Background", "Error syncing location batch to server:", error);
+        if (error instanceof SyncHttpError) {
+          await this.requeueFailedLocations(batch, error);
+        }
+        break;
+      }
+    }
+
+    this.logger.info("Background", `Batch sync completed - Success: ${successCount}, Failed: ${failureCount}`);
+    return failureCount === 0;
+  }
+
+  private markFailedAttempt(location: StoredLocation, error: unknown): StoredLocation {
+    return {
+      ...location,
+      attempts: (location.attempts ?? 0) + 1,
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  // Count a server-side failure against each point and move it to the tail of the queue;
+  // points past maxAttempts go to the dead-letter bucket instead
+  private async requeueFailedLocations(locations: StoredLocation[], error: unknown): Promise<number> {
+    const retry: StoredLocation[] = [];
+    const exhausted: StoredLocation[] = [];
+    for (const location of locations) {
+      const attempted = this.markFailedAttempt(location, error);
+      if (attempted.attempts! >= this.retryPolicy.maxAttempts) {
+        exhausted.push(attempted);
+      } else {
+        retry.push(attempted);
+      }
+    }
+
+    let remaining = await this.locationQueue.remove(locations.map((location) => location.id));
+    if (retry.length > 0) {
+      remaining = await this.locationQueue.append(retry);
+    }
+    await this.addToDeadLetter(exhausted, `${this.retryPolicy.maxAttempts} attempts`);
+    return remaining;
+  }
+
+  // `reason` completes "Moved N locations to dead-letter bucket after ..."
+  private async addToDeadLetter(locations: StoredLocation[], reason: string): Promise<void> {
+    if (locations.length === 0) {
+      return;
+    }
+
+    const deadLetteredAt = new Date().toISOString();
+    const total = await this.deadLetterQueue.append(
+      locations.map((location) => ({ ...location, deadLetteredAt }))
+    );
+
+    this.logger.warn("Background", `Moved ${locations.length} locations to dead-letter bucket after ${reason}. Total dead-lettered: ${total}`);
+  }
+
+  async getDeadLetterLocations(): Promise<DeadLetterLocation[]> {
+    try {
+      return await this.deadLetterQueue.peek(await this.deadLetterQueue.size());
+    } catch (error) {
+      this.logger.error("Background", "Error reading dead-letter locations:", error);
+      return [];
+    }
+  }
+
+  async getQueueStats(): Promise<QueueStats> {
+    let oldest = Infinity;
+    let newest = -Infinity;
+    let pendingCount = 0;
+
+    await this.scanQueue(this.locationQueue, (page) => {
+      for (const location of page) {
+        const time = Date.parse(location.timestamp);
+        oldest = Math.min(oldest, time);
+        newest = Math.max(newest, time);
+      }
+      pendingCount += page.length;
+    });
+
+    return {
+      pendingCount,
+      oldestTimestamp: pendingCount > 0 && isFinite(oldest) ? new Date(oldest).toISOString() : null,
+      newestTimestamp: pendingCount > 0 && isFinite(newest) ? new Date(newest).toISOString() : null,
+      deadLetterCount: await this.deadLetterQueue.size(),
+    };
+  }
+
+  // Pending items in upload order
+  async peekPendingLocations(limit: number = 50, offset: number = 0): Promise<StoredLocation[]> {
+    return this.locationQueue.peek(Math.max(0, limit), Math.max(0, offset));
+  }
+
+  // Uploads now instead of waiting for the app to background or for the retry backoff.
+  // Resolves with the number of items still pending afterwards.
+  async forceSync(): Promise<number> {
+    this.logger.info("Background", "Forced sync requested");
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout);
+      this.syncTimeout = null;
+    }
+
+    try {
+      await this.syncBackgroundLocations();
+    } catch (error) {
+      // Already reported through syncFailed, and a retry has been scheduled
+      this.logger.error("Background", "Forced sync failed:", error);
+    }
+    return this.locationQueue.size();
+  }
+
+  // Removes pending items without uploading them. Resolves with the number removed.
+  async purgePendingLocations(options: PurgeOptions = {}): Promise<number> {
+    if (options.olderThan === undefined) {
+      const count = await this.locationQueue.size();
+      await this.locationQueue.clear();
+      this.logger.warn("Background", `Purged all ${count} pending locations`);
+      return count;
+    }
+
+    const cutoff = new Date(options.olderThan).getTime();
+    if (isNaN(cutoff)) {
+      throw new Error(`Invalid purge cutoff: ${String(options.olderThan)}`);
+    }
+
+    const expired: string[] = [];
+    await this.scanQueue(this.locationQueue, (page) => {
+      for (const location of page) {
+        if (Date.parse(location.timestamp) < cutoff) {
+          expired.push(location.id);
+        }
+      }
+    });
+
+    if (expired.length > 0) {
+      await this.locationQueue.remove(expired);
+    }
+    this.logger.warn("Background", `Purged ${expired.length} pending locations older than ${new Date(cutoff).toISOString()}`);
+    return expired.length;
+  }
+
+  // Moves dead-lettered items (all, or the given IDs) back to the upload queue with their attempt
+  // count reset. Resolves with the number re-queued.
+  async requeueDeadLetterLocations(ids?: string[]): Promise<number> {
+    const wanted = ids ? new Set(ids) : null;
+    const requeued: StoredLocation[] = [];
+
+    await this.scanQueue(this.deadLetterQueue, (page) => {
+      for (const item of page) {
+        if (!wanted || wanted.has(item.id)) {
+          const location: StoredLocation & Partial<DeadLetterLocation> = { ...item };
+          delete location.deadLetteredAt;
+          delete location.attempts;
+          delete location.lastError;
+          requeued.push(location);
+        }
+      }
+    });
+
+    if (requeued.length === 0) {
+      return 0;
+    }
+
+    // Append before removing so a crash in between duplicates items rather than losing them
+    await this.locationQueue.append(requeued);
+    await this.deadLetterQueue.remove(requeued.map((location) => location.id));
+    this.logger.info("Background", `Re-queued ${requeued.length} dead-lettered locations`);
+    return requeued.length;
+  }
+
+  // Visits a queue page by page without loading it all at once
+  private async scanQueue<T extends { id: string }>(
+    queue: LocationQueue<T>,
+    visit: (page: T[]) => void
+  ): Promise<void> {
+    for (let offset = 0; ; offset += QUEUE_PAGE_SIZE) {
+      const page = await queue.peek(QUEUE_PAGE_SIZE, offset);
+      visit(page);
+      if (page.length < QUEUE_PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  private async recordHistory(location: LocationUpdate): Promise<void> {
+    try {
+      const count = await this.historyQueue.append([{ ...location, id: createLocationId(), ...this.sessionTag() }]);
+      await this.pruneHistory(count);
+    } catch (error) {
+      this.logger.error("History", "Error recording location history:", error);
+    }
+  }
+
+  // Drops points from the head of the history until it is within the retention limits
+  private async pruneHistory(count: number): Promise<void> {
+    const cutoff = Date.now() - this.historyRetention.maxAgeMs;
+    let excess = Math.max(0, count - this.historyRetention.maxPoints);
+
+    while (true) {
+      const head = await this.historyQueue.peek(HISTORY_PAGE_SIZE);
+      const expired: string[] = [];
+      for (const location of head) {
+        if (excess <= 0 && Date.parse(location.timestamp) >= cutoff) {
+          break;
+        }
+        expired.push(location.id);
+        excess--;
+      }
+
+      if (expired.length === 0) {
+        return;
+      }
+      await this.historyQueue.remove(expired);
+      if (expired.length < head.length) {
+        return;
+      }
+    }
+  }
+
+  // Distance, moving/idle time and speeds for all time, today and the active session
+  async getTravelStats(): Promise<TravelStatsSummary> {
+    return this.odometer.getSummary(this.session?.id ?? null);
+  }
+
+  // Per-day totals oldest first; `from` and `to` are local dates (YYYY-MM-DD, inclusive)
+  async getDailyTravelStats(from?: string, to?: string): Promise<DailyTravelStats[]> {
+    return this.odometer.getDailyStats(from, to);
+  }
+
+  async getSessionTravelStats(sessionId: string): Promise<TravelStats | null> {
+    return this.odometer.getSessionStats(sessionId);
+  }
+
+  // Zeroes every total, e.g. after a reimbursement period has been paid out
+  async resetTravelStats(): Promise<void> {
+    this.logger.info("History", "Resetting travel statistics");
+    await this.odometer.clear();
+  }
+
+  private async updateTravelStats(location: LocationUpdate): Promise<void> {
+    try {
+      const stats = await this.odometer.process(location, this.session?.id ?? null);
+      if (stats) {
+        this.emit("travelStats", stats);
+      }
+    } catch (error) {
+      this.logger.error("History", "Error updating travel statistics:", error);
+    }
+  }
+
+  // Recorded fixes in arrival order, optionally limited to a time range (inclusive)
+  async getLocationHistory(range: HistoryRange = {}): Promise<LocationUpdate[]> {
+    const from = range.from !== undefined ? new Date(range.from).getTime() : -Infinity;
+    const to = range.to !== undefined ? new Date(range.to).getTime() : Infinity;
+    const result: LocationUpdate[] = [];
+
+    try {
+      for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+        const page = await this.historyQueue.peek(HISTORY_PAGE_SIZE, offset);
+        for (const location of page) {
+          const time = Date.parse(location.timestamp);
+          const inSession = range.sessionId === undefined || location.sessionId === range.sessionId;
+          if (time >= from && time <= to && inSession) {
+            result.push(location);
+          }
+        }
+        if (page.length < HISTORY_PAGE_SIZE) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error("History", "Error reading location history:", error);
+    }
+
+    return result;
+  }
+
+  // Serialises recorded history as GPX, GeoJSON, KML or CSV
+  async exportLocationHistory(
+    format: ExportFormat,
+    range: HistoryRange = {},
+    options: ExportOptions = {}
+  ): Promise<string> {
+    const locations = await this.getLocationHistory(range);
+    this.logger.info("History", `Exporting ${locations.length} locations as ${format}`);
+    return exportLocations(locations, format, options);
+  }
+
+  async clearLocationHistory(): Promise<void> {
+    await this.historyQueue.clear();
+    this.logger.info("History", "Location history cleared");
+  }
+
+  private async updateSegments(location: LocationUpdate): Promise<SegmentEvent[]> {
+    let events: SegmentEvent[] = [];
+    try {
+      events = await this.tripSegmenter.process(location);
+    } catch (error) {
+      this.logger.error("Segments", "Error updating trip timeline:", error);
+    }
+
+    for (const event of events) {
+      if (event.type === "tripStart" || event.type === "tripEnd") {
+        this.emit(event.type, event.trip);
+      } else {
+        this.emit(event.type, event.stop);
+      }
+    }
+    return events;
+  }
+
+  // Persisted timeline of stops and trips, ending with the one in progress. Returns all of it
+  // unless `limit` is given.
+  async getTimeline(limit: number = Infinity, offset: number = 0): Promise<TimelineSegment[]> {
+    return this.tripSegmenter.getTimeline(Math.max(0, limit), Math.max(0, offset));
+  }
+
+  async getCurrentStop(): Promise<Stop | null> {
+    return this.tripSegmenter.getCurrentStop();
+  }
+
+  async getCurrentTrip(): Promise<Trip | null> {
+    return this.tripSegmenter.getCurrentTrip();
+  }
+
+  private async updateGeofences(location: LocationUpdate): Promise<void> {
+    let events: GeofenceEvent[] = [];
+    try {
+      events = await this.geofenceManager.process(location);
+    } catch (error) {
+      this.logger.error("Geofence", "Error evaluating geofences:", error);
+    }
+
+    for (const event of events) {
+      this.logger.info("Geofence", `${event.type} ${event.geofence.id} at ${event.timestamp}`);
+      this.emit(event.type, event);
+    }
+  }
+
+  // Adds or replaces a circular or polygon geofence; throws if the definition is invalid
+  async addGeofence(geofence: Geofence): Promise<void> {
+    await this.geofenceManager.addGeofence(geofence);
+  }
+
+  async removeGeofence(id: string): Promise<boolean> {
+    return this.geofenceManager.removeGeofence(id);
+  }
+
+  async getGeofences(): Promise<Geofence[]> {
+    return this.geofenceManager.getGeofences();
+  }
+
+  // Counts of fixes accepted and rejected by the outlier filter since start (or the last reset)
+  getFilterStats(): FilterStats {
+    return this.locationFilter.getStats();
+  }
+
+  resetFilterStats(): void {
+    this.locationFilter.resetStats();
+  }
+
+  // Event subscriptions. Returns a function that removes the listener.
+  on<E extends LocationTrackerEventName>(event: E, listener: LocationTrackerEvents[E]): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends LocationTrackerEventName>(event: E, listener: LocationTrackerEvents[E]): void {
+    this.listeners[event].delete(listener);
+  }
+
+  private emit<E extends LocationTrackerEventName>(event: E, ...args: LocationTrackerEventArgs[E]): void {
+    this.listeners[event].forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        this.logger.error("Tracker", `Error in ${event} listener:`, error);
+      }
+    });
+  }
+
+  // Move data written by older versions (one JSON array per key) into the chunked queues
+  private async migrateLegacyStorage(): Promise<void> {
+    try {
+      await this.locationQueue.migrateFromArray(BACKGROUND_LOCATIONS_KEY, (location) => ({
+        ...location,
+        id: createLocationId(),
+      }));
+      await this.deadLetterQueue.migrateFromArray(DEAD_LETTER_LOCATIONS_KEY, (location) => ({
+        ...location,
+        id: createLocationId(),
+      }));
+    } catch (error) {
+      this.logger.error("Background", "Error migrating legacy location storage:", error);
+    }
+  }
+
+  // Tracker configuration - runtime changes are persisted and pushed to the native module
+  getConfig(): TrackerConfig {
+    return { ...this.trackerConfig };
+  }
+
+  async setConfig(config: Partial<TrackerConfig>): Promise<TrackerConfig> {
+    const stored = await this.storage.getItem(TRACKER_CONFIG_KEY);
+    const overrides: Partial<TrackerConfig> = { ...(stored ? JSON.parse(stored) : {}), ...config };
+
+    this.trackerConfig = resolveTrackerConfig({ ...this.initialConfig, ...overrides });
+    await this.storage.setItem(TRACKER_CONFIG_KEY, JSON.stringify(overrides));
+    this.logger.info("Tracker", "Tracker config updated:", this.trackerConfig);
+
+    await this.nativeModule.setConfig(toNativeTrackerConfig(this.trackerConfig));
+    return this.getConfig();
+  }
+
+  private async restoreTrackerConfig(): Promise<void> {
+    try {
+      const stored = await this.storage.getItem(TRACKER_CONFIG_KEY);
+      if (stored) {
+        this.trackerConfig = resolveTrackerConfig({ ...this.initialConfig, ...JSON.parse(stored) });
+      }
+      await this.nativeModule.setConfig(toNativeTrackerConfig(this.trackerConfig));
+    } catch (error) {
+      this.logger.error("Tracker", "Error applying tracker config:", error);
+    }
+  }
+
+  // Retry scheduling - state is persisted so a pending retry survives an app restart
+  private async restoreSyncRetryState(): Promise<void> {
+    try {
+      const stored = await this.storage.getItem(SYNC_RETRY_STATE_KEY);
+      if (stored) {
+        this.retryState = { ...INITIAL_RETRY_STATE, ...JSON.parse(stored) };
+      }
+
+      if (this.retryState.nextAttemptAt === null) {
+        return;
+      }
+
+      const delay = Math.max(0, this.retryState.nextAttemptAt - Date.now());
+      this.logger.info("Background", "Restored sync retry state:", {
+        consecutiveFailures: this.retryState.consecutiveFailures,
+        resumeInMs: delay,
+      });
+      this.scheduleSync(delay);
+    } catch (error) {
+      this.logger.error("Background", "Error restoring sync retry state:", error);
+    }
+  }
+
+  private async scheduleSyncRetry(): Promise<void> {
+    const consecutiveFailures = this.retryState.consecutiveFailures + 1;
+    const delay = computeRetryDelay(consecutiveFailures, this.retryPolicy);
+
+    this.retryState = {
+      consecutiveFailures,
+      nextAttemptAt: Date.now() + delay,
+    };
+    await this.persistSyncRetryState();
+
+    this.logger.info("Background", `Scheduling sync retry ${consecutiveFailures} in ${Math.round(delay / 1000)}s`);
+    this.scheduleSync(delay);
+  }
+
+  private emitSyncFailed(error: string, pendingCount: number): void {
+    this.emit("syncFailed", {
+      error,
+      pendingCount,
+      consecutiveFailures: this.retryState.consecutiveFailures,
+      nextAttemptAt: this.retryState.nextAttemptAt,
+    });
+  }
+
+  private async resetSyncRetry(): Promise<void> {
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout);
+      this.syncTimeout = null;
+    }
+
+    if (this.retryState.consecutiveFailures === 0 && this.retryState.nextAttemptAt === null) {
+      return;
+    }
+
+    this.retryState = { ...INITIAL_RETRY_STATE };
+    await this.persistSyncRetryState();
+  }
+
+  private async persistSyncRetryState(): Promise<void> {
+    try {
+      await this.storage.setItem(SYNC_RETRY_STATE_KEY, JSON.stringify(this.retryState));
+    } catch (error) {
+      this.logger.error("Background", "Error saving sync retry state:", error);
+    }
+  }
+
+  private scheduleSync(delayMs: number): void {
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout);
+    }
+
+    this.syncTimeout = setTimeout(() => {
+      this.syncTimeout = null;
+      this.syncBackgroundLocations().catch((error) => {
+        this.logger.error("Background", "Scheduled sync failed:", error);
+      });
+    }, delayMs);
+  }
+
+  async saveDistanceIfMoved_handler(
+    lat: number,
+    lon: number,
+    isBelowDistanceThreshold: boolean,
+    time: Date | string | number
+  ): Promise<void> {
+    try {
+      let lastLocation = await getLastLocation(this.storage, this.logger);
+
+      // Convert time to a valid Date object
+      let timestamp: Date;
+      try {
+        if (time instanceof Date) {
+          timestamp = time;
+        } else if (typeof time === "string") {
+          timestamp = new Date(time);
+        } else if (typeof time === "number") {
+          timestamp = new Date(time);
+        } else {
+          timestamp = new Date();
+        }
+
+        if (isNaN(timestamp.getTime())) {
+          this.logger.warn("Tracking", "Invalid timestamp, using current time:", time);
           timestamp = new Date();
         }
       } catch (error) {
-        console.warn("[Tracking] Error parsing timestamp, using current time:", error);
+        this.logger.warn("Tracking", "Error parsing timestamp, using current time:", error);
         timestamp = new Date();
       }
 
-      console.log("[Tracking] Processing location update (", Platform.OS, "):", {
+      this.logger.debug("Tracking", "Processing location update:", {
         current: { lat, lon, time: timestamp.toISOString() },
         last: lastLocation,
         originalTime: time,
@@ -595,8 +2004,8 @@ class LocationTracker {
 
       if (!lastLocation) {
         // First location update - store locally only, don't sync to server
-        console.log("[Tracking] First location update - storing locally only");
-        await saveLastLocation({ latitude: lat, longitude: lon });
+        this.logger.debug("Tracking", "First location update - storing locally only");
+        await saveLastLocation(this.storage, this.logger, { latitude: lat, longitude: lon });
         return;
       }
 
@@ -608,74 +2017,179 @@ class LocationTracker {
         lon
       );
 
-      console.log("[Tracking] Distance calculation:", {
+      this.logger.debug("Tracking", "Distance calculation:", {
         distance: distance.toFixed(2) + "m",
-        threshold: DISTANCE_TO_TRACK + "m",
-        shouldUpdate: distance >= DISTANCE_TO_TRACK,
+        threshold: this.trackerConfig.distanceFilterMeters + "m",
+        shouldUpdate: distance >= this.trackerConfig.distanceFilterMeters,
       });
 
       // Check if displacement is greater than threshold
-      if (distance >= DISTANCE_TO_TRACK) {
+      if (distance >= this.trackerConfig.distanceFilterMeters) {
         // User has moved beyond threshold - store locally only
-        console.log("[Tracking] Displacement > threshold - storing locally only");
+        this.logger.debug("Tracking", "Displacement > threshold - storing locally only");
         
         // Reset idle tracking since user has moved
         this.staticLocationStartTime = null;
-        this.lastIdleReportTime = null;
-        console.log("[Tracking] Reset idle tracking - user has moved");
+        this.lastIdleReport = null;
+        this.logger.debug("Tracking", "Reset idle tracking - user has moved");
         
-        await saveLastLocation({ latitude: lat, longitude: lon });
-        console.log("[Tracking] Location stored locally (no foreground sync)");
+        await saveLastLocation(this.storage, this.logger, { latitude: lat, longitude: lon });
+        this.logger.debug("Tracking", "Location stored locally (no foreground sync)");
       } else {
         // User is within threshold - handle idle time tracking
-        console.log("[Tracking] Displacement < threshold - handling idle time tracking");
+        this.logger.debug("Tracking", "Displacement < threshold - handling idle time tracking");
         
-        // Handle idle time tracking
-        const currentTime = Date.now();
+        // Handle idle time tracking, on the fix's own clock
+        const currentTime = timestamp.getTime();
 
         // Initialize static location start time if not set
         if (this.staticLocationStartTime === null) {
           this.staticLocationStartTime = currentTime;
-          console.log(
-            "[Idle] Started tracking static location at:",
-            new Date(currentTime).toISOString()
-          );
+          this.logger.debug("Idle", "Started tracking static location at:", new Date(currentTime).toISOString());
         }
 
         // Check if we've been idle for the threshold
         const idleDuration = currentTime - this.staticLocationStartTime;
 
-        if (idleDuration >= this.IDLE_THRESHOLD) {
-          // Check if we should report idle status
-          if (
-            this.lastIdleReportTime === null ||
-            currentTime - this.lastIdleReportTime >= this.IDLE_REPORT_INTERVAL
-          ) {
-            console.log(
-              "[Idle] User has been idle for",
-              Math.floor(idleDuration / 60000),
-              "minutes"
-            );
-
-            // Store idle status locally only, don't sync to server in foreground
-            console.log("[Idle] Idle status stored locally (no foreground sync)");
-            this.lastIdleReportTime = currentTime;
-          }
+        if (idleDuration >= this.trackerConfig.idleThresholdMs) {
+          this.logger.debug("Idle", `User has been idle for ${Math.floor(idleDuration / 60000)} minutes`);
+          await this.recordIdleReport(lastLocation, currentTime);
         }
       }
     } catch (error) {
-      console.error("[Tracking] Error in saveDistanceIfMoved_handler:", error);
+      this.logger.error("Tracking", "Error in saveDistanceIfMoved_handler:", error);
       throw error;
     }
   }
 
+  // Liveness and throughput at a glance. Permission and accuracy come from the native module when
+  // it can report them, otherwise from the last permission result the tracker saw.
+  async getHealth(): Promise<TrackerHealth> {
+    const now = Date.now();
+    this.recentFixes = this.recentFixes.filter((fix) => now - fix.receivedAt <= HEALTH_WINDOW_MS);
+
+    const windowMs = Math.max(
+      60000,
+      Math.min(HEALTH_WINDOW_MS, now - (this.trackingStartedAt ?? now - HEALTH_WINDOW_MS))
+    );
+    const accuracies = this.recentFixes
+      .map((fix) => fix.accuracy)
+      .filter((accuracy): accuracy is number => accuracy !== undefined);
+    const { totalLatencyMs, ...sync } = this.syncHealth;
+    const [native, queue] = await Promise.all([this.readNativeHealth(), this.getQueueStats()]);
+
+    return {
+      timestamp: new Date(now).toISOString(),
+      isTracking: this.isTracking,
+      fixesPerMinute: (this.recentFixes.length * 60000) / windowMs,
+      lastFixAt: this.lastFixReceivedAt === null ? null : new Date(this.lastFixReceivedAt).toISOString(),
+      msSinceLastFix: this.lastFixReceivedAt === null ? null : now - this.lastFixReceivedAt,
+      averageAccuracy:
+        accuracies.length > 0 ? accuracies.reduce((sum, accuracy) => sum + accuracy, 0) / accuracies.length : null,
+      sync: {
+        ...sync,
+        averageLatencyMs: sync.successCount > 0 ? totalLatencyMs / sync.successCount : null,
+      },
+      queueDepth: queue.pendingCount,
+      deadLetterCount: queue.deadLetterCount,
+      permissionStatus:
+        decodePermission({ status: native?.permissionStatus })?.status ?? this.permission?.status ?? "unknown",
+      accuracyAuthorization:
+        decodeAccuracyAuthorization(native?.accuracyAuthorization) ?? this.accuracyAuthorizationFromPermission(),
+      native,
+    };
+  }
+
+  private recordFixForHealth(location: LocationUpdate): void {
+    const now = Date.now();
+    this.lastFixReceivedAt = now;
+    this.recentFixes.push({ receivedAt: now, accuracy: location.accuracy });
+    if (now - this.recentFixes[0].receivedAt > HEALTH_WINDOW_MS) {
+      this.recentFixes = this.recentFixes.filter((fix) => now - fix.receivedAt <= HEALTH_WINDOW_MS);
+    }
+  }
+
+  // Times one upload request for getHealth(); the result or error passes through unchanged
+  private async measureUpload<T>(upload: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await upload();
+      const latency = Date.now() - startedAt;
+      this.syncHealth.successCount++;
+      this.syncHealth.totalLatencyMs += latency;
+      this.syncHealth.lastLatencyMs = latency;
+      this.syncHealth.lastSuccessAt = new Date().toISOString();
+      return result;
+    } catch (error) {
+      this.syncHealth.failureCount++;
+      this.syncHealth.lastFailureAt = new Date().toISOString();
+      throw error;
+    }
+  }
+
+  private async readNativeHealth(): Promise<NativeHealthMetrics | null> {
+    if (typeof this.nativeModule.getHealthMetrics !== "function") {
+      return null;
+    }
+    try {
+      return await this.nativeModule.getHealthMetrics();
+    } catch (error) {
+      this.logger.warn("Tracker", "Could not read native health metrics:", error);
+      return null;
+    }
+  }
+
+  // Null before any permission has been granted
+  private accuracyAuthorizationFromPermission(): AccuracyAuthorization | null {
+    if (!this.permission || !isPermissionGranted(this.permission)) {
+      return null;
+    }
+    return this.permission.accuracy === "precise" ? "precise" : "reduced";
+  }
+
+  // Everything support needs to look into a bug report, as plain JSON: recent logs, config, queue
+  // state and platform. Coordinates and ids are redacted when the logger redacts; custom sync
+  // headers are reduced to their names either way, since any of them may carry a credential.
+  async getDiagnostics(): Promise<DiagnosticsReport> {
+    let queue: QueueStats | null = null;
+    try {
+      queue = await this.getQueueStats();
+    } catch (error) {
+      this.logger.error("Tracker", "Error reading queue stats for diagnostics:", error);
+    }
+
+    const { baseUrl, userId, deviceId, headers, batchUpload, batchSize } = this.syncConfig;
+    return {
+      generatedAt: new Date().toISOString(),
+      platform: { os: Platform.OS, version: Platform.Version },
+      tracking: {
+        isTracking: this.isTracking,
+        isOnline: this.lastNetworkState,
+        permission: this.permission,
+        session: this.logger.redact(this.session),
+        lastLocation: this.logger.redact(this.lastKnownLocation),
+        retry: { ...this.retryState },
+      },
+      config: {
+        tracker: this.getConfig(),
+        sync: this.logger.redact({ baseUrl, userId, deviceId, headerNames: Object.keys(headers ?? {}), batchUpload, batchSize }),
+        retry: { ...this.retryPolicy },
+        simplification: { ...this.simplificationConfig },
+        logging: this.logger.getConfig(),
+      },
+      queue,
+      filterStats: this.getFilterStats(),
+      simplificationStats: this.getSimplificationStats(),
+      logs: this.logger.getEntries(),
+    };
+  }
+
   // Debug method for checking stored locations
   async debugStoredLocations(): Promise<any[]> {
     try {
-      const storedLocations = await AsyncStorage.getItem(BACKGROUND_LOCATIONS_KEY);
-      const locations = storedLocations ? JSON.parse(storedLocations) : [];
+      const locations = await this.locationQueue.peek(await this.locationQueue.size());
       
-      console.log("[Debug] Stored locations in AsyncStorage (", Platform.OS, "):", {
+      this.logger.debug("Tracker", "Stored locations in storage:", {
         count: locations.length,
         locations: locations.slice(0, 5), // Show first 5 locations
         totalStored: locations.length,
@@ -683,7 +2197,7 @@ class LocationTracker {
       
       return locations;
     } catch (error) {
-      console.error("[Debug] Error checking stored locations:", error);
+      this.logger.error("Tracker", "Error checking stored locations:", error);
       return [];
     }
   }
@@ -691,7 +2205,7 @@ class LocationTracker {
   // Cleanup method
   async cleanup(): Promise<void> {
     try {
-      console.log("[Tracker] Cleaning up LocationTracker on", Platform.OS);
+      this.logger.info("Tracker", "Cleaning up LocationTracker");
 
       // Stop tracking
       await this.stopTracking();
@@ -722,18 +2236,30 @@ class LocationTracker {
         this.appStateSubscription = null;
       }
 
+      this.listeners = createListeners();
+
       // Clear timeout
       if (this.syncTimeout) {
         clearTimeout(this.syncTimeout);
         this.syncTimeout = null;
       }
 
-      console.log("[Tracker] LocationTracker cleanup completed on", Platform.OS);
+      this.logger.info("Tracker", "LocationTracker cleanup completed");
     } catch (error) {
-      console.error("[Tracker] Error during cleanup:", error);
+      this.logger.error("Tracker", "Error during cleanup:", error);
     }
   }
 
+  // Update the sync configuration, e.g. after sign-in or when switching environments
+  setSyncConfig(config: Partial<SyncConfig>): void {
+    this.syncConfig = resolveSyncConfig({ ...this.syncConfig, ...config });
+    this.logger.info("Tracker", "Sync configuration updated:", {
+      baseUrl: this.syncConfig.baseUrl,
+      userId: this.syncConfig.userId,
+      deviceId: this.syncConfig.deviceId,
+    });
+  }
+
   // Getter for tracking state
   get isCurrentlyTracking(): boolean {
     return this.isTracking;
@@ -747,45 +2273,45 @@ class LocationTracker {
   // Debug method for testing native module communication
   async testNativeCommunication(): Promise<void> {
     try {
-      console.log("[DEBUG] 🧪 Testing native module communication on", Platform.OS);
+      this.logger.info("Tracker", "Testing native module communication");
       
       // Test 1: Check if module exists
-      console.log("[DEBUG] 🧪 Module exists:", !!NativeLocationModule);
+      this.logger.info("Tracker", "Module exists:", !!this.nativeModule);
       
       // Test 2: Check available methods
-      const methods = Object.getOwnPropertyNames(NativeLocationModule);
-      console.log("[DEBUG] 🧪 Available methods:", methods);
+      const methods = Object.getOwnPropertyNames(this.nativeModule);
+      this.logger.info("Tracker", "Available methods:", methods);
       
       // Test 3: Test permission request
-      const permissionResult = await NativeLocationModule.requestLocationPermissions();
-      console.log("[DEBUG] 🧪 Permission test result:", permissionResult);
+      const permissionResult = await this.nativeModule.requestLocationPermissions();
+      this.logger.info("Tracker", "Permission test result:", permissionResult);
       
       // Test 4: Test get last location
-      const lastLocation = await NativeLocationModule.getLastLocation();
-      console.log("[DEBUG] 🧪 Last location test:", lastLocation);
+      const lastLocation = await this.nativeModule.getLastLocation();
+      this.logger.info("Tracker", "Last location test:", lastLocation);
       
     } catch (error) {
-      console.error("[DEBUG] ❌ Native communication test failed:", error);
+      this.logger.error("Tracker", "Native communication test failed:", error);
     }
   }
 
   // Debug method for checking event listeners
   debugEventListeners(): void {
-    console.log("[DEBUG] 📡 Event listener status on", Platform.OS);
-    console.log("[DEBUG]   - Location subscription:", !!this.locationSubscription);
-    console.log("[DEBUG]   - Error subscription:", !!this.errorSubscription);
-    console.log("[DEBUG]   - Permission subscription:", !!this.permissionSubscription);
-    console.log("[DEBUG]   - Event emitter:", !!this.eventEmitter);
+    this.logger.info("Tracker", "Event listener status");
+    this.logger.info("Tracker", "Location subscription:", !!this.locationSubscription);
+    this.logger.info("Tracker", "Error subscription:", !!this.errorSubscription);
+    this.logger.info("Tracker", "Permission subscription:", !!this.permissionSubscription);
+    this.logger.info("Tracker", "Event emitter:", !!this.eventEmitter);
     
     // Test event emitter
     if (this.eventEmitter) {
-      console.log("[DEBUG] 📡 Event emitter listeners:", this.eventEmitter.listenerCount);
+      this.logger.info("Tracker", "Event emitter listeners:", this.eventEmitter.listenerCount);
     }
   }
 
   // Comprehensive debug method
   async debugLocationTracking(): Promise<void> {
-    console.log("=== LOCATION TRACKING DEBUG (", Platform.OS, ") ===");
+    this.logger.info("Tracker", "Location tracking debug started");
     
     // Test 1: Native module availability
     await this.testNativeCommunication();
@@ -794,21 +2320,21 @@ class LocationTracker {
     this.debugEventListeners();
     
     // Test 3: Start tracking with debug
-    console.log("[DEBUG] 🚀 Starting tracking with debug...");
+    this.logger.info("Tracker", "Starting tracking with debug...");
     const success = await this.startTracking((location) => {
-      console.log("[DEBUG] 📍 LOCATION RECEIVED:", location);
+      this.logger.info("Tracker", "Location received:", location);
     });
     
-    console.log("[DEBUG] 🚀 Tracking start result:", success);
+    this.logger.info("Tracker", "Tracking start result:", success);
     
     // Test 4: Wait for updates
     setTimeout(() => {
-      console.log("[DEBUG] ⏰ 10 seconds passed, checking for updates...");
-      console.log("[DEBUG] 📍 Last known location:", this.lastLocation);
-      console.log("[DEBUG] 🔄 Is tracking:", this.isCurrentlyTracking);
+      this.logger.info("Tracker", "10 seconds passed, checking for updates...");
+      this.logger.info("Tracker", "Last known location:", this.lastLocation);
+      this.logger.info("Tracker", "Is tracking:", this.isCurrentlyTracking);
     }, 10000);
     
-    console.log("=== DEBUG COMPLETE (", Platform.OS, ") ===");
+    this.logger.info("Tracker", "Location tracking debug complete");
   }
 }
 
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -8,12 +8,18 @@ import {
   Alert,
 } from 'react-native';
 import { useLocationTracking } from './useLocationTracking';
-import { LocationData, LocationError, PermissionResult } from './LocationModule';
+import { LocationError } from './NativeLocationModule';
+import { LocationData } from './LocationModel';
+import { LocationPermissionState, nextPermissionAction } from './LocationPermissions';
 
 const LocationTrackingDemo: React.FC = () => {
+  const [locationHistory, setLocationHistory] = useState<LocationData[]>([]);
+  const [errorHistory, setErrorHistory] = useState<LocationError[]>([]);
+
   const {
     isTracking,
     lastLocation,
+    permission,
     permissionStatus,
     accuracyStatus,
     error,
@@ -21,37 +27,24 @@ const LocationTrackingDemo: React.FC = () => {
     startTracking,
     stopTracking,
     requestPermissions,
+    requestBackgroundPermission,
+    openSettings,
     checkAccuracy,
     requestAccuracy,
     getLastLocation,
-  } = useLocationTracking();
-
-  const [locationHistory, setLocationHistory] = useState<LocationData[]>([]);
-  const [errorHistory, setErrorHistory] = useState<LocationError[]>([]);
-
-  // Set up event handlers
-  useEffect(() => {
-    // Handle location updates
-    const handleLocationUpdate = (location: LocationData) => {
+  } = useLocationTracking({
+    onLocationUpdate: (location: LocationData) => {
       console.log('📍 [NewArch Demo] Location Update:', location);
       setLocationHistory(prev => [location, ...prev.slice(0, 9)]); // Keep last 10
-    };
-
-    // Handle location errors
-    const handleLocationError = (error: LocationError) => {
-      console.log('❌ [NewArch Demo] Location Error:', error);
-      setErrorHistory(prev => [error, ...prev.slice(0, 4)]); // Keep last 5
-    };
-
-    // Handle permission changes
-    const handlePermissionChange = (permission: PermissionResult) => {
-      console.log('🔐 [NewArch Demo] Permission Changed:', permission);
-      // Alert.alert('Permission Changed', `Status: ${permission.status}`);
-    };
-
-    // Set the event handlers
-    // Note: In a real implementation, these would be set through the hook
-  }, []);
+    },
+    onLocationError: (locationError: LocationError) => {
+      console.log('❌ [NewArch Demo] Location Error:', locationError);
+      setErrorHistory(prev => [locationError, ...prev.slice(0, 4)]); // Keep last 5
+    },
+    onPermissionChange: (next: LocationPermissionState, previous: LocationPermissionState | null) => {
+      console.log('🔐 [NewArch Demo] Permission Changed:', previous?.status, '->', next.status, next);
+    },
+  });
 
   const handleStartTracking = async () => {
     try {
@@ -80,18 +73,26 @@ const LocationTrackingDemo: React.FC = () => {
     }
   };
 
+  // Next step of the guided flow towards background access
+  const permissionAction = permission ? nextPermissionAction(permission, true) : 'none';
+
   const formatLocation = (location: LocationData) => {
-    return `📍 ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}
-Accuracy: ${location.accuracy}m
-Speed: ${location.speed}m/s
-Idle Time: ${location.totalIdleTimeBelowThreshold}ms
-Reason: ${location.updateReason}`;
+    // Accuracy, speed and the idle fields are omitted when the platform doesn't report them
+    return [
+      `📍 ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`,
+      `Accuracy: ${location.accuracy !== undefined ? `${location.accuracy}m` : 'unknown'}`,
+      `Speed: ${location.speed !== undefined ? `${location.speed}m/s` : 'unknown'}`,
+      location.totalIdleTimeBelowThreshold !== undefined && `Idle Time: ${location.totalIdleTimeBelowThreshold}ms`,
+      location.updateReason && `Reason: ${location.updateReason}`,
+    ]
+      .filter(Boolean)
+      .join('\n');
   };
 
-  const formatError = (error: LocationError) => {
-    return `❌ ${error.error}
-Code: ${error.code}
-Count: ${error.errorCount}`;
+  const formatError = (locationError: LocationError) => {
+    return `❌ ${locationError.error}
+Code: ${locationError.code}
+Count: ${locationError.errorCount}`;
   };
 
   return (
@@ -147,6 +148,22 @@ Count: ${error.errorCount}`;
           <Text style={styles.buttonText}>Request Permissions</Text>
         </TouchableOpacity>
 
+        {permissionAction === 'requestBackground' && (
+          <TouchableOpacity
+            style={[styles.button, styles.permissionButton]}
+            onPress={requestBackgroundPermission}
+            disabled={isLoading}
+          >
+            <Text style={styles.buttonText}>Allow Background Location</Text>
+          </TouchableOpacity>
+        )}
+
+        {permissionAction === 'openSettings' && (
+          <TouchableOpacity style={[styles.button, styles.permissionButton]} onPress={openSettings}>
+            <Text style={styles.buttonText}>Open Settings</Text>
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={[styles.button, styles.accuracyButton]}
           onPress={checkAccuracy}
@@ -188,9 +205,9 @@ Count: ${error.errorCount}`;
       {errorHistory.length > 0 && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Error History</Text>
-          {errorHistory.map((error, index) => (
+          {errorHistory.map((pastError, index) => (
             <View key={index} style={styles.errorItem}>
-              <Text style={styles.errorHistoryText}>{formatError(error)}</Text>
+              <Text style={styles.errorHistoryText}>{formatError(pastError)}</Text>
             </View>
           ))}
         </View>
@@ -0,0 +1,172 @@
+// Leveled, tagged logging for the tracker, sync and hooks. Entries are redacted before they reach
+// the console or the ring buffer, and the buffer keeps the most recent `bufferSize` of them for
+// LocationTracker.getDiagnostics().
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogEntry {
+  timestamp: string; // ISO 8601
+  level: LogLevel;
+  tag: string;
+  message: string;
+  // Extra arguments, already redacted and reduced to plain JSON values
+  data?: unknown[];
+}
+
+export interface LoggerConfig {
+  // Entries below this level are dropped entirely
+  level: LogLevel;
+  // Number of recent entries kept in memory
+  bufferSize: number;
+  // Rounds coordinates to about 1 km and hides ids, tokens and auth headers
+  redact: boolean;
+  // Also print entries to the console
+  console: boolean;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+export const DEFAULT_LOGGER_CONFIG: LoggerConfig = {
+  level: __DEV__ ? "debug" : "info",
+  bufferSize: 500,
+  redact: !__DEV__,
+  console: true,
+};
+
+export function resolveLoggerConfig(config?: Partial<LoggerConfig>): LoggerConfig {
+  const resolved = { ...DEFAULT_LOGGER_CONFIG, ...config };
+  return {
+    ...resolved,
+    level: LEVEL_ORDER[resolved.level] === undefined ? DEFAULT_LOGGER_CONFIG.level : resolved.level,
+    bufferSize: Math.max(0, Math.floor(resolved.bufferSize)),
+  };
+}
+
+const COORDINATE_KEYS = new Set(["latitude", "longitude", "lat", "lon", "lng"]);
+const SECRET_KEYS = new Set(["authorization", "token", "accesstoken", "password", "userid", "deviceid"]);
+const COORDINATE_DECIMALS = 2;
+const MAX_DEPTH = 5;
+const REDACTED = "[redacted]";
+
+// Turns a log argument into something JSON.stringify can handle, redacting on the way
+function toLoggable(value: unknown, redact: boolean, key?: string, depth = 0): unknown {
+  const lowerKey = key?.toLowerCase();
+  if (redact && lowerKey !== undefined) {
+    if (SECRET_KEYS.has(lowerKey) && value !== undefined && value !== null) {
+      return REDACTED;
+    }
+    if (COORDINATE_KEYS.has(lowerKey) && typeof value === "number") {
+      return Number(value.toFixed(COORDINATE_DECIMALS));
+    }
+  }
+
+  if (value === null || typeof value !== "object") {
+    if (typeof value === "function") {
+      return "[function]";
+    }
+    return typeof value === "number" && !isFinite(value) ? String(value) : value;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? "[array]" : "[object]";
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => toLoggable(item, redact, undefined, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (fieldValue !== undefined) {
+      result[field] = toLoggable(fieldValue, redact, field, depth + 1);
+    }
+  }
+  return result;
+}
+
+export class Logger {
+  private config: LoggerConfig;
+  private buffer: LogEntry[] = [];
+  // Index the next entry is written to once the buffer is full
+  private next = 0;
+
+  constructor(config?: Partial<LoggerConfig>) {
+    this.config = resolveLoggerConfig(config);
+  }
+
+  getConfig(): LoggerConfig {
+    return { ...this.config };
+  }
+
+  // Changing bufferSize keeps the most recent entries that still fit
+  configure(config: Partial<LoggerConfig>): void {
+    const entries = this.getEntries();
+    this.config = resolveLoggerConfig({ ...this.config, ...config });
+    this.buffer = this.config.bufferSize > 0 ? entries.slice(-this.config.bufferSize) : [];
+    this.next = 0;
+  }
+
+  debug(tag: string, message: string, ...data: unknown[]): void {
+    this.write("debug", tag, message, data);
+  }
+
+  info(tag: string, message: string, ...data: unknown[]): void {
+    this.write("info", tag, message, data);
+  }
+
+  warn(tag: string, message: string, ...data: unknown[]): void {
+    this.write("warn", tag, message, data);
+  }
+
+  error(tag: string, message: string, ...data: unknown[]): void {
+    this.write("error", tag, message, data);
+  }
+
+  // Buffered entries, oldest first
+  getEntries(): LogEntry[] {
+    return [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.next = 0;
+  }
+
+  // For values logged or reported elsewhere (e.g. config in a diagnostics report)
+  redact(value: unknown): unknown {
+    return toLoggable(value, this.config.redact);
+  }
+
+  private write(level: LogLevel, tag: string, message: string, data: unknown[]): void {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.config.level]) {
+      return;
+    }
+
+    const entry: LogEntry = { timestamp: new Date().toISOString(), level, tag, message };
+    if (data.length > 0) {
+      entry.data = data.map(value => toLoggable(value, this.config.redact));
+    }
+
+    if (this.config.bufferSize > 0) {
+      if (this.buffer.length < this.config.bufferSize) {
+        this.buffer.push(entry);
+      } else {
+        this.buffer[this.next] = entry;
+        this.next = (this.next + 1) % this.config.bufferSize;
+      }
+    }
+
+    if (this.config.console) {
+      const print = level === "debug" || level === "info" ? console.log : console[level];
+      // Unredacted output keeps the original objects so errors still show their stack
+      print(`[${tag}] ${message}`, ...(this.config.redact ? entry.data ?? [] : data));
+    }
+  }
+}
+
+// Used when no logger is injected; LocationTracker shares it with LocationSync by default
+export const defaultLogger = new Logger();
@@ -1,28 +1,6 @@
 import type { TurboModule } from 'react-native';
 import { TurboModuleRegistry } from 'react-native';
 
-export interface LocationData {
-  latitude: number;
-  longitude: number;
-  accuracy: number;
-  altitude: number;
-  speed: number;
-  speedAccuracy: number;
-  heading: number;
-  timestamp: number;
-  displacement: number;
-  updateReason: string;
-  isSameLocation: boolean;
-  isBelowDistanceThreshold: boolean;
-  totalIdleTimeBelowThreshold: number;
-  isCurrentlyIdle: boolean;
-  outsideVist_Total_IdleTime: number;
-  isOutsideVisitTracking: boolean;
-  predictionConfidence?: number;
-  averageVelocity?: number;
-  averageAccuracy?: number;
-}
-
 export interface LocationError {
   error: string;
   code: number;
@@ -31,27 +9,78 @@ export interface LocationError {
   recoveryAttempts: number;
 }
 
+// Raw permission payload; decodePermission() (LocationPermissions.ts) turns it into a
+// LocationPermissionState
 export interface PermissionResult {
+  // "notDetermined", "foreground", "background", "denied" or "restricted"
   status: string;
+  // "precise", "reduced" or "none"
   accuracy?: string;
+  // Only sent by older native builds: 1 for full accuracy, anything else reduced
   accuracyStatus?: number;
+  canAskAgain?: boolean;
   message?: string;
 }
 
+export interface TrackingStartResult {
+  status: string;
+  permission?: string;
+  accuracy?: string;
+  message?: string;
+}
+
+// Native thresholds that can be changed at runtime; omitted fields keep their current value
+export interface NativeTrackerConfig {
+  distanceFilterMeters?: number;
+  forceUpdateIntervalMs?: number;
+  idleUpdateIntervalMs?: number;
+}
+
+// Counters kept by the native module since tracking last started; read with getHealthMetrics()
+export interface NativeHealthMetrics {
+  isTracking: boolean;
+  // Current OS permission, read without prompting; same values as PermissionResult.status
+  permissionStatus: string;
+  // Same raw values as checkAccuracyAuthorization() (1 full; reduced 0 on iOS, 2 on Android), but
+  // read without prompting. getHealth() reports it as "precise" or "reduced".
+  accuracyAuthorization: number;
+  locationUpdateCount: number;
+  errorCount: number;
+  averageAccuracy: number; // metres, 0 before the first fix
+  lastUpdateTime: number; // epoch milliseconds, 0 before the first fix
+}
+
 export interface Spec extends TurboModule {
   // Location tracking methods
-  startLocationTracking(): Promise<boolean>;
+  startLocationTracking(): Promise<TrackingStartResult>;
   
   stopLocationTracking(): Promise<boolean>;
   
-  getLastLocation(): Promise<LocationData | null>;
+  // Raw native payload; run it through normalizeLocation() (LocationModel.ts) before use
+  getLastLocation(): Promise<Object | null>;
   
   // Permission methods
+  // Resolves with the resulting state, including when the user denies access
   requestLocationPermissions(): Promise<PermissionResult>;
+
+  // Current state, read without prompting
+  getPermissionStatus(): Promise<PermissionResult>;
+
+  // Upgrades foreground access to background; resolves with the current state without
+  // prompting when foreground access hasn't been granted yet
+  requestBackgroundPermission(): Promise<PermissionResult>;
   
   checkAccuracyAuthorization(): Promise<number>;
   
   requestAccuracyAuthorization(): Promise<number>;
+
+  // Runtime configuration. `config` is a NativeTrackerConfig; it is declared as Object so
+  // codegen hands iOS an NSDictionary and Android a ReadableMap rather than a C++ struct.
+  setConfig(config: Object): Promise<NativeTrackerConfig>;
+
+  getConfig(): Promise<NativeTrackerConfig>;
+
+  getHealthMetrics(): Promise<NativeHealthMetrics>;
   
   // Event emitter methods
   addListener(eventName: string): void;
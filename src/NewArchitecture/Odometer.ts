@@ -0,0 +1,296 @@
+import { StorageAdapter } from "./StorageAdapter";
+import { SerialExecutor } from "./SerialExecutor";
+import { haversine } from "./GeoUtils";
+
+// Cumulative distance, moving and idle time and speeds, kept for all time, per local calendar
+// day and per tracking session.
+//
+// Distance is measured from an anchor: the last position the user is known to have left. A fix
+// only adds distance once it is further from the anchor than `jitterRadiusMeters` (or its own
+// accuracy, if that is worse), and then becomes the new anchor, so fixes wandering around a
+// parked car never add up while slow movement is still counted in full. Time spent near the
+// anchor is idle once the pause reaches `minIdleDurationMs`; shorter pauses (traffic lights,
+// walking slower than the fix rate) count as moving.
+
+export interface TravelStats {
+  distanceMeters: number;
+  movingTimeMs: number;
+  idleTimeMs: number;
+  maxSpeed: number; // m/s, between consecutive anchors
+  averageSpeed: number; // m/s over moving time; 0 before any movement
+  firstFixAt: string | null;
+  lastFixAt: string | null;
+}
+
+export interface DailyTravelStats extends TravelStats {
+  date: string; // YYYY-MM-DD, local time
+}
+
+export interface TravelStatsSummary {
+  allTime: TravelStats;
+  // The current day; for a summary from process(), the day of the fix
+  today: DailyTravelStats;
+  // The active tracking session; null while not tracking
+  session: TravelStats | null;
+}
+
+export interface OdometerConfig {
+  jitterRadiusMeters: number;
+  // Fixes less accurate than this are ignored
+  maxAccuracyMeters: number;
+  minIdleDurationMs: number;
+  // Movement across a longer gap between fixes isn't counted; the track was lost
+  maxGapMs: number;
+  // Days and sessions with stored stats; the oldest are dropped first
+  maxDays: number;
+  maxSessions: number;
+}
+
+export const DEFAULT_ODOMETER_CONFIG: OdometerConfig = {
+  jitterRadiusMeters: 20,
+  maxAccuracyMeters: 100,
+  minIdleDurationMs: 60 * 1000, // 1 minute
+  maxGapMs: 10 * 60 * 1000, // 10 minutes
+  maxDays: 90,
+  maxSessions: 100, // same as DEFAULT_SESSION_CONFIG
+};
+
+export interface OdometerFix {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  accuracy?: number;
+}
+
+interface Delta {
+  distanceMeters: number;
+  movingTimeMs: number;
+  idleTimeMs: number;
+  speed: number;
+}
+
+interface OdometerState {
+  anchor: { latitude: number; longitude: number; time: number } | null;
+  lastTime: number | null;
+  // End of the idle time already counted at the current anchor
+  idleCountedUntil: number | null;
+  allTime: TravelStats;
+  // Keys with stored stats, oldest first
+  days: string[];
+  sessions: string[];
+}
+
+const STATE_KEY = "odometer_state";
+const DAY_KEY_PREFIX = "odometer_day_";
+const SESSION_KEY_PREFIX = "odometer_session_";
+
+const NO_MOVEMENT: Delta = { distanceMeters: 0, movingTimeMs: 0, idleTimeMs: 0, speed: 0 };
+
+export function emptyTravelStats(): TravelStats {
+  return {
+    distanceMeters: 0,
+    movingTimeMs: 0,
+    idleTimeMs: 0,
+    maxSpeed: 0,
+    averageSpeed: 0,
+    firstFixAt: null,
+    lastFixAt: null,
+  };
+}
+
+function initialState(): OdometerState {
+  return { anchor: null, lastTime: null, idleCountedUntil: null, allTime: emptyTravelStats(), days: [], sessions: [] };
+}
+
+function localDate(time: number): string {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDelta(stats: TravelStats, delta: Delta, timestamp: string): TravelStats {
+  const distanceMeters = stats.distanceMeters + delta.distanceMeters;
+  const movingTimeMs = stats.movingTimeMs + delta.movingTimeMs;
+  return {
+    distanceMeters,
+    movingTimeMs,
+    idleTimeMs: stats.idleTimeMs + delta.idleTimeMs,
+    maxSpeed: Math.max(stats.maxSpeed, delta.speed),
+    averageSpeed: movingTimeMs > 0 ? distanceMeters / (movingTimeMs / 1000) : 0,
+    firstFixAt: stats.firstFixAt ?? timestamp,
+    lastFixAt: timestamp,
+  };
+}
+
+export class Odometer {
+  private state: OdometerState | null = null;
+  // Fixes are processed one at a time so persisted totals never go backwards
+  private readonly serial = new SerialExecutor(() => {
+    // Re-read the persisted state after a failed write
+    this.state = null;
+  });
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly config: OdometerConfig = DEFAULT_ODOMETER_CONFIG
+  ) {}
+
+  // Adds a fix to the all-time, day and (if given) session totals. A stretch between two fixes
+  // is credited to the day of the later one. Resolves to null if the fix was ignored.
+  process(fix: OdometerFix, sessionId: string | null): Promise<TravelStatsSummary | null> {
+    return this.serial.run(() => this.processUnlocked(fix, sessionId));
+  }
+
+  // The next fix starts a new track; nothing is counted across the gap before it. Called when
+  // tracking starts, so the time and distance between two sessions never count.
+  breakTrack(): Promise<void> {
+    return this.serial.run(async () => {
+      const state = await this.loadState();
+      state.anchor = null;
+      state.lastTime = null;
+      state.idleCountedUntil = null;
+      await this.saveState(state);
+    });
+  }
+
+  getSummary(sessionId: string | null, now: Date = new Date()): Promise<TravelStatsSummary> {
+    return this.serial.run(async () => {
+      const state = await this.loadState();
+      const date = localDate(now.getTime());
+      return {
+        allTime: state.allTime,
+        today: { date, ...((await this.loadStats(DAY_KEY_PREFIX + date)) ?? emptyTravelStats()) },
+        session: sessionId ? (await this.loadStats(SESSION_KEY_PREFIX + sessionId)) ?? emptyTravelStats() : null,
+      };
+    });
+  }
+
+  // Stored days oldest first, optionally limited to dates between `from` and `to` (YYYY-MM-DD, inclusive)
+  getDailyStats(from?: string, to?: string): Promise<DailyTravelStats[]> {
+    return this.serial.run(async () => {
+      const state = await this.loadState();
+      const result: DailyTravelStats[] = [];
+      for (const date of state.days) {
+        if ((from === undefined || date >= from) && (to === undefined || date <= to)) {
+          const stats = await this.loadStats(DAY_KEY_PREFIX + date);
+          if (stats) {
+            result.push({ date, ...stats });
+          }
+        }
+      }
+      return result;
+    });
+  }
+
+  // Null for a session with no recorded fixes, or one older than the last `maxSessions`
+  getSessionStats(sessionId: string): Promise<TravelStats | null> {
+    return this.serial.run(() => this.loadStats(SESSION_KEY_PREFIX + sessionId));
+  }
+
+  clear(): Promise<void> {
+    return this.serial.run(async () => {
+      const state = await this.loadState();
+      for (const date of state.days) {
+        await this.storage.removeItem(DAY_KEY_PREFIX + date);
+      }
+      for (const sessionId of state.sessions) {
+        await this.storage.removeItem(SESSION_KEY_PREFIX + sessionId);
+      }
+      this.state = initialState();
+      await this.storage.removeItem(STATE_KEY);
+    });
+  }
+
+  private async processUnlocked(fix: OdometerFix, sessionId: string | null): Promise<TravelStatsSummary | null> {
+    const time = Date.parse(fix.timestamp);
+    if (isNaN(time) || (fix.accuracy !== undefined && fix.accuracy > this.config.maxAccuracyMeters)) {
+      return null;
+    }
+
+    const state = await this.loadState();
+    if (state.lastTime !== null && time <= state.lastTime) {
+      return null;
+    }
+
+    const delta = this.measure(state, fix, time);
+    state.lastTime = time;
+    state.allTime = addDelta(state.allTime, delta, fix.timestamp);
+
+    const date = localDate(time);
+    const day = addDelta((await this.loadStats(DAY_KEY_PREFIX + date)) ?? emptyTravelStats(), delta, fix.timestamp);
+    await this.saveStats(DAY_KEY_PREFIX, date, day, state.days, this.config.maxDays);
+
+    let session: TravelStats | null = null;
+    if (sessionId) {
+      const stored = (await this.loadStats(SESSION_KEY_PREFIX + sessionId)) ?? emptyTravelStats();
+      session = addDelta(stored, delta, fix.timestamp);
+      await this.saveStats(SESSION_KEY_PREFIX, sessionId, session, state.sessions, this.config.maxSessions);
+    }
+
+    await this.saveState(state);
+    return { allTime: state.allTime, today: { date, ...day }, session };
+  }
+
+  // Updates the anchor and returns what the fix adds to the totals
+  private measure(state: OdometerState, fix: OdometerFix, time: number): Delta {
+    const anchor = state.anchor;
+    if (!anchor) {
+      state.anchor = { latitude: fix.latitude, longitude: fix.longitude, time };
+      state.idleCountedUntil = null;
+      return NO_MOVEMENT;
+    }
+
+    const distance = haversine(anchor.latitude, anchor.longitude, fix.latitude, fix.longitude);
+    if (distance < Math.max(this.config.jitterRadiusMeters, fix.accuracy ?? 0)) {
+      if (time - anchor.time < this.config.minIdleDurationMs) {
+        return NO_MOVEMENT;
+      }
+      const idleFrom = state.idleCountedUntil ?? anchor.time;
+      state.idleCountedUntil = time;
+      return { ...NO_MOVEMENT, idleTimeMs: time - idleFrom };
+    }
+
+    // Left the anchor. After a long pause the journey starts at the last fix counted as idle;
+    // after a short one it includes the pause.
+    const departedAt = state.idleCountedUntil ?? anchor.time;
+    state.anchor = { latitude: fix.latitude, longitude: fix.longitude, time };
+    state.idleCountedUntil = null;
+
+    const movingTimeMs = time - departedAt;
+    if (movingTimeMs > this.config.maxGapMs) {
+      return NO_MOVEMENT;
+    }
+    return { distanceMeters: distance, movingTimeMs, idleTimeMs: 0, speed: distance / (movingTimeMs / 1000) };
+  }
+
+  private async loadState(): Promise<OdometerState> {
+    if (this.state) {
+      return this.state;
+    }
+
+    const stored = await this.storage.getItem(STATE_KEY);
+    this.state = stored ? { ...initialState(), ...JSON.parse(stored) } : initialState();
+    return this.state!;
+  }
+
+  private async saveState(state: OdometerState): Promise<void> {
+    await this.storage.setItem(STATE_KEY, JSON.stringify(state));
+  }
+
+  private async loadStats(key: string): Promise<TravelStats | null> {
+    const stored = await this.storage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  // Writes one bucket and drops the oldest ones past `max`; `index` is updated in place
+  private async saveStats(prefix: string, id: string, stats: TravelStats, index: string[], max: number): Promise<void> {
+    await this.storage.setItem(prefix + id, JSON.stringify(stats));
+    if (!index.includes(id)) {
+      index.push(id);
+      while (index.length > max) {
+        await this.storage.removeItem(prefix + index.shift());
+      }
+    }
+  }
+}
@@ -0,0 +1,16 @@
+// Runs async operations one at a time, in call order. Persisted stores keep their state cached
+// in memory and read-modify-write it, so two operations must never interleave.
+export class SerialExecutor {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  // `onError` runs after an operation fails and before the next one starts. Stores use it to
+  // drop their cache, so the next operation re-reads what actually got persisted.
+  constructor(private readonly onError: () => void = () => {}) {}
+
+  // Resolves or rejects with the operation; a failure doesn't stop later operations
+  run<R>(operation: () => Promise<R>): Promise<R> {
+    const result = this.tail.then(operation);
+    this.tail = result.catch(() => this.onError());
+    return result;
+  }
+}
@@ -0,0 +1,595 @@
+import { DeviceEventEmitter } from "react-native";
+import type {
+  Spec,
+  LocationError,
+  PermissionResult,
+  TrackingStartResult,
+  NativeTrackerConfig,
+  NativeHealthMetrics,
+} from "./NativeLocationModule";
+import { haversine } from "./GeoUtils";
+import { EVENT_PROTOCOL_VERSION } from "./LocationProtocol";
+import type { PermissionStatus } from "./LocationPermissions";
+
+// JS stand-in for the LocationModule TurboModule. It replays a GPX or GeoJSON track on a
+// virtual clock and emits the same events, with the same payload shapes, as the Android
+// module - including the idle events sent while the user stays within the distance
+// threshold. Nothing happens until the clock is advanced, so tests control time exactly.
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  time: number; // epoch milliseconds
+  altitude?: number;
+  accuracy?: number;
+  speed?: number;
+}
+
+export type TrackInput = string | object | TrackPoint[];
+
+export interface SimulatedLocationModuleOptions {
+  track?: TrackInput;
+  // Virtual clock start; defaults to the time of the first track point
+  startTime?: number;
+  // Spacing used for points that carry no timestamp
+  defaultIntervalMs?: number;
+  // Same meaning as the TrackingConfig fields in LocationService.kt; can be changed with setConfig
+  distanceFilterMeters?: number;
+  forceUpdateIntervalMs?: number;
+  // Only reported back by getConfig: idle-only payloads are sent per swallowed point, not on a timer
+  idleUpdateIntervalMs?: number;
+  permission?: PermissionStatus; // defaults to "background"
+  accuracy?: "precise" | "reduced";
+  // Whether a permission request still prompts; the simulated user accepts every prompt
+  canAskAgain?: boolean;
+  // Defaults to DeviceEventEmitter, which is what NativeEventEmitter listens on
+  emit?: (eventName: string, payload: object) => void;
+}
+
+type ScriptedEvent =
+  | { at: number; kind: "error"; error: Partial<LocationError> }
+  | { at: number; kind: "permission"; status: PermissionStatus; accuracy?: "precise" | "reduced" };
+
+const EVENT_NAMES = {
+  LOCATION_UPDATE: "onLocationUpdate",
+  LOCATION_ERROR: "onLocationError",
+  PERMISSION_CHANGED: "onLocationPermissionChanged",
+} as const;
+
+const DEFAULT_INTERVAL_MS = 1000;
+const DEFAULT_DISTANCE_FILTER_METERS = 50;
+const DEFAULT_FORCE_UPDATE_INTERVAL_MS = 15000;
+const DEFAULT_IDLE_UPDATE_INTERVAL_MS = 8000;
+const DEFAULT_ACCURACY_METERS = 5;
+const IDLE_THRESHOLD_MS = 60000;
+
+// Track parsing
+
+function toEpochMs(value: unknown): number {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value === "string") {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? NaN : parsed;
+  }
+  return NaN;
+}
+
+// Points without a usable timestamp are spaced `intervalMs` after the previous one
+function fillMissingTimes(points: TrackPoint[], intervalMs: number): TrackPoint[] {
+  let previous = Date.now() - intervalMs;
+  return points.map((point) => {
+    const time = isNaN(point.time) ? previous + intervalMs : point.time;
+    previous = time;
+    return { ...point, time };
+  });
+}
+
+export function parseGpx(gpx: string, defaultIntervalMs: number = DEFAULT_INTERVAL_MS): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  const pointPattern = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  const readAttribute = (attributes: string, name: string) =>
+    attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`))?.[1];
+  const readElement = (body: string, name: string) =>
+    body.match(new RegExp(`<${name}>\\s*([^<]+?)\\s*</${name}>`))?.[1];
+
+  let match: RegExpExecArray | null;
+  while ((match = pointPattern.exec(gpx)) !== null) {
+    const [, , attributes, body = ""] = match;
+    const latitude = parseFloat(readAttribute(attributes, "lat") ?? "");
+    const longitude = parseFloat(readAttribute(attributes, "lon") ?? "");
+    if (isNaN(latitude) || isNaN(longitude)) {
+      continue;
+    }
+
+    const elevation = readElement(body, "ele");
+    const speed = readElement(body, "speed");
+    points.push({
+      latitude,
+      longitude,
+      time: toEpochMs(readElement(body, "time")),
+      altitude: elevation !== undefined ? parseFloat(elevation) : undefined,
+      speed: speed !== undefined ? parseFloat(speed) : undefined,
+    });
+  }
+
+  return fillMissingTimes(points, defaultIntervalMs);
+}
+
+export function parseGeoJson(input: string | object, defaultIntervalMs: number = DEFAULT_INTERVAL_MS): TrackPoint[] {
+  const root: any = typeof input === "string" ? JSON.parse(input) : input;
+  const points: TrackPoint[] = [];
+
+  const fromCoordinate = (coordinate: number[], time: unknown, properties: any = {}): TrackPoint => ({
+    longitude: coordinate[0],
+    latitude: coordinate[1],
+    altitude: coordinate[2],
+    time: toEpochMs(time),
+    accuracy: typeof properties.accuracy === "number" ? properties.accuracy : undefined,
+    speed: typeof properties.speed === "number" ? properties.speed : undefined,
+  });
+
+  const visit = (node: any, properties: any = {}) => {
+    if (!node) {
+      return;
+    }
+
+    switch (node.type) {
+      case "FeatureCollection":
+        (node.features ?? []).forEach((feature: any) => visit(feature));
+        break;
+      case "Feature":
+        visit(node.geometry, node.properties ?? {});
+        break;
+      case "Point":
+        points.push(fromCoordinate(node.coordinates, properties.time ?? properties.timestamp, properties));
+        break;
+      case "LineString": {
+        // togeojson writes per-vertex times to `coordTimes`; `times` is also common
+        const times = properties.coordTimes ?? properties.times ?? [];
+        node.coordinates.forEach((coordinate: number[], index: number) =>
+          points.push(fromCoordinate(coordinate, times[index]))
+        );
+        break;
+      }
+      case "MultiLineString": {
+        const times = properties.coordTimes ?? properties.times ?? [];
+        node.coordinates.forEach((line: number[][], lineIndex: number) =>
+          visit({ type: "LineString", coordinates: line }, { coordTimes: times[lineIndex] })
+        );
+        break;
+      }
+      default:
+        break;
+    }
+  };
+
+  visit(root);
+  return fillMissingTimes(points, defaultIntervalMs);
+}
+
+export function parseTrack(input: TrackInput, defaultIntervalMs: number = DEFAULT_INTERVAL_MS): TrackPoint[] {
+  if (Array.isArray(input)) {
+    return input;
+  }
+  if (typeof input === "string" && input.trim().startsWith("<")) {
+    return parseGpx(input, defaultIntervalMs);
+  }
+  return parseGeoJson(input, defaultIntervalMs);
+}
+
+// Simulated module
+
+export class SimulatedLocationModule implements Spec {
+  private options: Required<Omit<SimulatedLocationModuleOptions, "track" | "startTime">>;
+  private points: TrackPoint[] = [];
+  private scripted: ScriptedEvent[] = [];
+  private clock: number;
+  private listenerCount = 0;
+
+  // Replay state
+  private isTracking = false;
+  private trackingStartedAt = 0;
+  private nextPointIndex = 0;
+  private nextScriptedIndex = 0;
+  private lastFix: object | null = null;
+  private lastPoint: TrackPoint | null = null;
+  private lastUpdateTime = 0;
+  private displacementSinceLastUpdate = 0;
+  private idleStartTime: number | null = null;
+  private completedIdleTime = 0;
+  private errorCount = 0;
+  private fixCount = 0;
+  private accuracySum = 0;
+
+  constructor(options: SimulatedLocationModuleOptions = {}) {
+    this.options = {
+      defaultIntervalMs: options.defaultIntervalMs ?? DEFAULT_INTERVAL_MS,
+      distanceFilterMeters: options.distanceFilterMeters ?? DEFAULT_DISTANCE_FILTER_METERS,
+      forceUpdateIntervalMs: options.forceUpdateIntervalMs ?? DEFAULT_FORCE_UPDATE_INTERVAL_MS,
+      idleUpdateIntervalMs: options.idleUpdateIntervalMs ?? DEFAULT_IDLE_UPDATE_INTERVAL_MS,
+      permission: options.permission ?? "background",
+      accuracy: options.accuracy ?? "precise",
+      canAskAgain: options.canAskAgain ?? true,
+      emit: options.emit ?? ((eventName, payload) => DeviceEventEmitter.emit(eventName, payload)),
+    };
+
+    if (options.track) {
+      this.loadTrack(options.track);
+    }
+    this.clock = options.startTime ?? this.points[0]?.time ?? Date.now();
+  }
+
+  loadTrack(track: TrackInput): void {
+    this.points = parseTrack(track, this.options.defaultIntervalMs);
+    this.nextPointIndex = 0;
+  }
+
+  // Virtual clock
+
+  now(): number {
+    return this.clock;
+  }
+
+  // Moves the clock forward, emitting every track point and scripted event that falls due.
+  // Returns the number of events emitted.
+  advanceBy(ms: number): number {
+    const target = this.clock + Math.max(0, ms);
+    let emitted = 0;
+
+    while (this.isTracking) {
+      const due = this.nextDueTime();
+      if (due === null || due > target) {
+        break;
+      }
+      this.clock = due;
+      this.processNextDueEvent();
+      emitted++;
+    }
+
+    this.clock = target;
+    return emitted;
+  }
+
+  // Replays the rest of the track and any remaining scripted events
+  advanceToEnd(): number {
+    let emitted = 0;
+    let due = this.nextDueTime();
+    while (this.isTracking && due !== null) {
+      emitted += this.advanceBy(due - this.clock);
+      due = this.nextDueTime();
+    }
+    return emitted;
+  }
+
+  // Number of JS subscriptions, as tracked by NativeEventEmitter through addListener/removeListeners
+  get activeListeners(): number {
+    return this.listenerCount;
+  }
+
+  get remainingPoints(): number {
+    return this.points.length - this.nextPointIndex;
+  }
+
+  // Scripted events, relative to the moment tracking started
+
+  scheduleError(atMs: number, error: Partial<LocationError> = {}): void {
+    this.addScripted({ at: atMs, kind: "error", error });
+  }
+
+  schedulePermissionChange(atMs: number, status: PermissionStatus, accuracy?: "precise" | "reduced"): void {
+    this.addScripted({ at: atMs, kind: "permission", status, accuracy });
+  }
+
+  // Immediate events
+
+  emitError(error: Partial<LocationError> = {}): void {
+    this.errorCount++;
+    const payload: LocationError = {
+      error: "Simulated location error",
+      code: -1,
+      domain: "SimulatedLocationModule",
+      errorCount: this.errorCount,
+      recoveryAttempts: 0,
+      ...error,
+    };
+    this.emit(EVENT_NAMES.LOCATION_ERROR, payload);
+  }
+
+  setPermission(status: PermissionStatus, accuracy: "precise" | "reduced" = this.options.accuracy): void {
+    const revoked = this.isTracking && !this.hasPermission(status);
+    this.options.permission = status;
+    this.options.accuracy = accuracy;
+    if (revoked) {
+      this.isTracking = false;
+    }
+    this.emit(EVENT_NAMES.PERMISSION_CHANGED, this.permissionResult("Permission changed"));
+
+    if (revoked) {
+      this.emitError({ error: "Location permission revoked", code: -2 });
+    }
+  }
+
+  // Native tracking giving up on its own, as Android's service does when error recovery fails
+  failTracking(message: string = "Error recovery failed"): void {
+    if (!this.isTracking) {
+      return;
+    }
+    this.isTracking = false;
+    this.sendStatus("stopped", message);
+  }
+
+  // Spec
+
+  async startLocationTracking(): Promise<TrackingStartResult> {
+    if (!this.hasPermission(this.options.permission)) {
+      throw this.createError("PERMISSION_ERROR", "Missing required permissions");
+    }
+
+    this.isTracking = true;
+    this.trackingStartedAt = this.clock;
+    this.nextPointIndex = 0;
+    this.nextScriptedIndex = 0;
+    this.lastPoint = null;
+    this.displacementSinceLastUpdate = 0;
+    this.idleStartTime = null;
+    this.completedIdleTime = 0;
+    this.errorCount = 0;
+    this.fixCount = 0;
+    this.accuracySum = 0;
+    this.sendStatus("started");
+
+    return { status: "success", permission: this.options.permission, message: "Location tracking started" };
+  }
+
+  async stopLocationTracking(): Promise<boolean> {
+    if (this.isTracking) {
+      this.sendStatus("stopped");
+    }
+    this.isTracking = false;
+    return true;
+  }
+
+  async getLastLocation(): Promise<object | null> {
+    return this.lastFix;
+  }
+
+  async requestLocationPermissions(): Promise<PermissionResult> {
+    const { permission, canAskAgain } = this.options;
+    if (permission === "notDetermined" || (permission === "denied" && canAskAgain)) {
+      this.setPermission("foreground");
+      return this.permissionResult("Permission granted");
+    }
+    return this.permissionResult("Permission unchanged");
+  }
+
+  async getPermissionStatus(): Promise<PermissionResult> {
+    return this.permissionResult("Current permission");
+  }
+
+  async requestBackgroundPermission(): Promise<PermissionResult> {
+    if (this.options.permission === "foreground" && this.options.canAskAgain) {
+      this.setPermission("background");
+      return this.permissionResult("Background permission granted");
+    }
+    return this.permissionResult("Permission unchanged");
+  }
+
+  async checkAccuracyAuthorization(): Promise<number> {
+    return this.options.accuracy === "precise" ? 1 : 0;
+  }
+
+  async requestAccuracyAuthorization(): Promise<number> {
+    return this.checkAccuracyAuthorization();
+  }
+
+  async setConfig(config: NativeTrackerConfig): Promise<NativeTrackerConfig> {
+    const next = { ...(await this.getConfig()), ...config };
+    if (!(next.distanceFilterMeters! >= 0) || !(next.forceUpdateIntervalMs! > 0) || !(next.idleUpdateIntervalMs! > 0)) {
+      throw this.createError("CONFIG_ERROR", "distanceFilterMeters must be >= 0 and intervals must be > 0");
+    }
+
+    this.options = {
+      ...this.options,
+      distanceFilterMeters: next.distanceFilterMeters!,
+      forceUpdateIntervalMs: next.forceUpdateIntervalMs!,
+      idleUpdateIntervalMs: next.idleUpdateIntervalMs!,
+    };
+    return this.getConfig();
+  }
+
+  async getConfig(): Promise<NativeTrackerConfig> {
+    return {
+      distanceFilterMeters: this.options.distanceFilterMeters,
+      forceUpdateIntervalMs: this.options.forceUpdateIntervalMs,
+      idleUpdateIntervalMs: this.options.idleUpdateIntervalMs,
+    };
+  }
+
+  async getHealthMetrics(): Promise<NativeHealthMetrics> {
+    return {
+      isTracking: this.isTracking,
+      permissionStatus: this.options.permission,
+      accuracyAuthorization: await this.checkAccuracyAuthorization(),
+      locationUpdateCount: this.fixCount,
+      errorCount: this.errorCount,
+      averageAccuracy: this.fixCount > 0 ? this.accuracySum / this.fixCount : 0,
+      lastUpdateTime: this.fixCount > 0 ? this.lastUpdateTime : 0,
+    };
+  }
+
+  addListener(_eventName: string): void {
+    this.listenerCount++;
+  }
+
+  removeListeners(count: number): void {
+    this.listenerCount = Math.max(0, this.listenerCount - count);
+  }
+
+  testMethod(): void {}
+
+  // Replay
+
+  private addScripted(event: ScriptedEvent): void {
+    this.scripted.push(event);
+    this.scripted.sort((a, b) => a.at - b.at);
+  }
+
+  private nextDueTime(): number | null {
+    const point = this.points[this.nextPointIndex];
+    const scripted = this.scripted[this.nextScriptedIndex];
+    const pointDue = point ? this.trackingStartedAt + (point.time - this.points[0].time) : null;
+    const scriptedDue = scripted ? this.trackingStartedAt + scripted.at : null;
+
+    if (pointDue === null) {
+      return scriptedDue;
+    }
+    if (scriptedDue === null) {
+      return pointDue;
+    }
+    return Math.min(pointDue, scriptedDue);
+  }
+
+  private processNextDueEvent(): void {
+    const scripted = this.scripted[this.nextScriptedIndex];
+    if (scripted && this.trackingStartedAt + scripted.at <= this.clock) {
+      this.nextScriptedIndex++;
+      if (scripted.kind === "error") {
+        this.emitError(scripted.error);
+      } else {
+        this.setPermission(scripted.status, scripted.accuracy);
+      }
+      return;
+    }
+
+    const point = this.points[this.nextPointIndex++];
+    this.processPoint(point);
+  }
+
+  // Mirrors LocationService.processLocationUpdate: fixes within the distance filter are
+  // swallowed and reported as idle-only payloads until the force-update interval elapses
+  private processPoint(point: TrackPoint): void {
+    const previous = this.lastPoint;
+    this.lastPoint = point;
+
+    if (!previous) {
+      this.sendFix(point, undefined, "first_location");
+      return;
+    }
+
+    const displacement = haversine(previous.latitude, previous.longitude, point.latitude, point.longitude);
+    const totalDisplacement = this.displacementSinceLastUpdate + displacement;
+    const isBelowThreshold = totalDisplacement < this.options.distanceFilterMeters;
+    const shouldForceUpdate = this.clock - this.lastUpdateTime >= this.options.forceUpdateIntervalMs;
+
+    if (isBelowThreshold) {
+      if (this.idleStartTime === null) {
+        this.idleStartTime = this.clock;
+      }
+    } else if (this.idleStartTime !== null) {
+      this.completedIdleTime += this.clock - this.idleStartTime;
+      this.idleStartTime = null;
+    }
+
+    if (isBelowThreshold && !shouldForceUpdate) {
+      this.displacementSinceLastUpdate = totalDisplacement;
+      this.sendIdleOnly(totalDisplacement);
+      return;
+    }
+
+    this.sendFix(point, previous, shouldForceUpdate && isBelowThreshold ? "force_update" : "location_update", isBelowThreshold);
+  }
+
+  private totalIdleTime(): number {
+    return this.completedIdleTime + (this.idleStartTime !== null ? this.clock - this.idleStartTime : 0);
+  }
+
+  private sendFix(point: TrackPoint, previous: TrackPoint | undefined, updateReason: string, isBelowThreshold = false): void {
+    let speed = point.speed;
+    if (speed === undefined && previous && point.time > previous.time) {
+      speed = haversine(previous.latitude, previous.longitude, point.latitude, point.longitude) / ((point.time - previous.time) / 1000);
+    }
+
+    const fix = {
+      latitude: point.latitude,
+      longitude: point.longitude,
+      accuracy: point.accuracy ?? DEFAULT_ACCURACY_METERS,
+      altitude: point.altitude ?? 0,
+      speed: speed ?? 0,
+      speedAccuracy: 0,
+      heading: 0,
+      timestamp: this.clock,
+      displacement: this.displacementSinceLastUpdate,
+      updateReason,
+      isSameLocation: false,
+      isBelowDistanceThreshold: isBelowThreshold,
+      totalIdleTimeBelowThreshold: this.totalIdleTime(),
+      isCurrentlyIdle: this.idleStartTime !== null,
+      outsideVisitIdleTime: this.totalIdleTime(),
+      isOutsideVisitTracking: true,
+    };
+
+    this.lastFix = fix;
+    this.lastUpdateTime = this.clock;
+    this.fixCount++;
+    this.accuracySum += fix.accuracy;
+    this.displacementSinceLastUpdate = 0;
+    this.emit(EVENT_NAMES.LOCATION_UPDATE, { kind: "fix", version: EVENT_PROTOCOL_VERSION, ...fix });
+  }
+
+  // Same shape as LocationService.sendIdleTimeOnlyUpdate
+  private sendIdleOnly(totalDisplacement: number): void {
+    const idleTime = this.totalIdleTime();
+    this.emit(EVENT_NAMES.LOCATION_UPDATE, {
+      kind: "idle",
+      version: EVENT_PROTOCOL_VERSION,
+      reason: "stationary",
+      timestamp: this.clock,
+      idleTime,
+      outsideVisitIdleTime: idleTime,
+      isCurrentlyIdle: true,
+      isOutsideVisitTracking: true,
+      lastLocationUpdateTime: this.lastUpdateTime,
+      idleThreshold: IDLE_THRESHOLD_MS,
+      totalDisplacementSinceLastUpdate: totalDisplacement,
+      minDistanceForUpdate: this.options.distanceFilterMeters,
+    });
+  }
+
+  private sendStatus(status: string, message?: string): void {
+    this.emit(EVENT_NAMES.LOCATION_UPDATE, {
+      kind: "status",
+      version: EVENT_PROTOCOL_VERSION,
+      timestamp: this.clock,
+      status,
+      ...(message !== undefined ? { message } : {}),
+    });
+  }
+
+  private hasPermission(status: PermissionStatus): boolean {
+    return status === "foreground" || status === "background";
+  }
+
+  private permissionResult(message: string): PermissionResult {
+    const { permission, accuracy, canAskAgain } = this.options;
+    return {
+      status: permission,
+      accuracy: this.hasPermission(permission) ? accuracy : "none",
+      canAskAgain: permission !== "background" && permission !== "restricted" && canAskAgain,
+      message,
+    };
+  }
+
+  private emit(eventName: string, payload: object): void {
+    this.options.emit(eventName, payload);
+  }
+
+  private createError(code: string, message: string): Error {
+    const error = new Error(message) as Error & { code: string };
+    error.code = code;
+    return error;
+  }
+}
+
+export default SimulatedLocationModule;
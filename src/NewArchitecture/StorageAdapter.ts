@@ -0,0 +1,66 @@
+import type AsyncStorageStatic from "@react-native-async-storage/async-storage";
+
+// Key-value storage used by LocationTracker and its queues. The method names mirror
+// AsyncStorage so SQLite- or MMKV-backed implementations are easy to drop in.
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+// Default adapter. AsyncStorage is required lazily because its module throws on import
+// when the native side is missing, which would break trackers built on other adapters.
+export class AsyncStorageAdapter implements StorageAdapter {
+  private storage: typeof AsyncStorageStatic | null = null;
+
+  getItem(key: string): Promise<string | null> {
+    return this.getStorage().getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.getStorage().setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.getStorage().removeItem(key);
+  }
+
+  getAllKeys(): Promise<readonly string[]> {
+    return this.getStorage().getAllKeys();
+  }
+
+  private getStorage(): typeof AsyncStorageStatic {
+    if (!this.storage) {
+      const asyncStorage = require("@react-native-async-storage/async-storage");
+      // The package's Jest mock is a plain CommonJS object without a default export
+      this.storage = asyncStorage.default ?? asyncStorage;
+    }
+    return this.storage!;
+  }
+}
+
+// Non-persistent adapter for tests, simulators and short-lived tooling
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    return Array.from(this.items.keys());
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
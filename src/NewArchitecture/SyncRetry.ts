@@ -0,0 +1,47 @@
+// Retry policy for background location sync
+export interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Server-side failures a single point may accumulate before it is dead-lettered
+  maxAttempts: number;
+  // Fraction (0..1) of each delay that is randomised so devices don't retry in lockstep
+  jitter: number;
+}
+
+export interface RetryState {
+  consecutiveFailures: number;
+  nextAttemptAt: number | null;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 5 * 1000, // 5 seconds
+  maxDelayMs: 30 * 60 * 1000, // 30 minutes
+  maxAttempts: 8,
+  jitter: 0.5,
+};
+
+export const INITIAL_RETRY_STATE: RetryState = {
+  consecutiveFailures: 0,
+  nextAttemptAt: null,
+};
+
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+  return {
+    baseDelayMs: Math.max(0, resolved.baseDelayMs),
+    maxDelayMs: Math.max(resolved.baseDelayMs, resolved.maxDelayMs),
+    maxAttempts: Math.max(1, Math.floor(resolved.maxAttempts)),
+    jitter: Math.min(1, Math.max(0, resolved.jitter)),
+  };
+}
+
+// Exponential backoff: base * 2^(failures - 1), capped at maxDelayMs, minus up to `jitter` of itself
+export function computeRetryDelay(
+  consecutiveFailures: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponent = Math.max(0, consecutiveFailures - 1);
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, exponent));
+  return Math.round(delay * (1 - policy.jitter * random()));
+}
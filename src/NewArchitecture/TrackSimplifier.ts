@@ -0,0 +1,203 @@
+// Line simplification for queued tracks, so dense walking tracks upload fewer points.
+//
+// Anchor points (stop and idle boundaries, idle reports) are always kept. The track is split at
+// the anchors and each run between two of them is simplified on its own, so a run's end points
+// never move.
+
+export type SimplificationAlgorithm = "douglas-peucker" | "visvalingam";
+
+export interface SimplificationConfig {
+  enabled: boolean;
+  algorithm: SimplificationAlgorithm;
+  // Douglas-Peucker: maximum distance of a dropped point from the simplified line.
+  // Visvalingam: points whose triangle is smaller than toleranceMeters² are dropped.
+  toleranceMeters: number;
+}
+
+export const DEFAULT_SIMPLIFICATION_CONFIG: SimplificationConfig = {
+  enabled: false,
+  algorithm: "douglas-peucker",
+  toleranceMeters: 10,
+};
+
+export function resolveSimplificationConfig(config?: Partial<SimplificationConfig>): SimplificationConfig {
+  const resolved = { ...DEFAULT_SIMPLIFICATION_CONFIG, ...config };
+  return {
+    enabled: resolved.enabled,
+    algorithm: resolved.algorithm === "visvalingam" ? "visvalingam" : "douglas-peucker",
+    toleranceMeters: Math.max(0, resolved.toleranceMeters),
+  };
+}
+
+export interface SimplifyPoint {
+  latitude: number;
+  longitude: number;
+}
+
+interface Projected {
+  x: number;
+  y: number;
+}
+
+const METERS_PER_DEGREE = 111320;
+
+// Equirectangular projection around the first point; fine at the scale of one upload batch
+function project(points: SimplifyPoint[]): Projected[] {
+  const cosLatitude = Math.cos(((points[0]?.latitude ?? 0) * Math.PI) / 180);
+  return points.map((point) => ({
+    x: point.longitude * METERS_PER_DEGREE * cosLatitude,
+    y: point.latitude * METERS_PER_DEGREE,
+  }));
+}
+
+function distanceToSegment(p: Projected, a: Projected, b: Projected): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function triangleArea(a: Projected, b: Projected, c: Projected): number {
+  return Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+}
+
+// Marks the points of [start, end] to keep. Iterative so long runs can't overflow the stack.
+function douglasPeucker(points: Projected[], start: number, end: number, tolerance: number, keep: boolean[]): void {
+  const stack: Array<[number, number]> = [[start, end]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([first, maxIndex], [maxIndex, last]);
+    }
+  }
+}
+
+// Repeatedly drops the interior point with the smallest effective area, using a binary heap.
+// When a neighbour's area changes it is pushed again; entries whose area no longer matches are stale.
+function visvalingam(points: Projected[], start: number, end: number, minArea: number, keep: boolean[]): void {
+  const previous: number[] = [];
+  const next: number[] = [];
+  const area: number[] = [];
+  const heap: Array<{ index: number; area: number }> = [];
+
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+  };
+  const push = (index: number) => {
+    heap.push({ index, area: area[index] });
+    let i = heap.length - 1;
+    let parent = Math.floor((i - 1) / 2);
+    while (i > 0 && heap[i].area < heap[parent].area) {
+      swap(i, parent);
+      i = parent;
+      parent = Math.floor((i - 1) / 2);
+    }
+  };
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left].area < heap[smallest].area) {
+          smallest = left;
+        }
+        if (right < heap.length && heap[right].area < heap[smallest].area) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  for (let i = start; i <= end; i++) {
+    previous[i] = i - 1;
+    next[i] = i + 1;
+    keep[i] = true;
+  }
+  for (let i = start + 1; i < end; i++) {
+    area[i] = triangleArea(points[i - 1], points[i], points[i + 1]);
+    push(i);
+  }
+
+  while (heap.length > 0) {
+    const entry = pop();
+    if (!keep[entry.index] || entry.area !== area[entry.index]) {
+      continue;
+    }
+    if (entry.area >= minArea) {
+      break;
+    }
+
+    keep[entry.index] = false;
+    const before = previous[entry.index];
+    const after = next[entry.index];
+    next[before] = after;
+    previous[after] = before;
+
+    for (const neighbour of [before, after]) {
+      if (neighbour > start && neighbour < end) {
+        // Effective area never decreases, so later removals can't undercut an earlier one
+        area[neighbour] = Math.max(
+          entry.area,
+          triangleArea(points[previous[neighbour]], points[neighbour], points[next[neighbour]])
+        );
+        push(neighbour);
+      }
+    }
+  }
+}
+
+// Returns the points to keep, in their original order
+export function simplifyTrack<T extends SimplifyPoint>(
+  points: T[],
+  config: SimplificationConfig,
+  isAnchor: (point: T) => boolean = () => false
+): T[] {
+  if (points.length <= 2) {
+    return points.slice();
+  }
+
+  const projected = project(points);
+  const keep: boolean[] = points.map((point, index) => index === 0 || index === points.length - 1 || isAnchor(point));
+
+  let runStart = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (!keep[i]) {
+      continue;
+    }
+    if (i - runStart > 1) {
+      if (config.algorithm === "visvalingam") {
+        visvalingam(projected, runStart, i, config.toleranceMeters * config.toleranceMeters, keep);
+      } else {
+        douglasPeucker(projected, runStart, i, config.toleranceMeters, keep);
+      }
+    }
+    runStart = i;
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
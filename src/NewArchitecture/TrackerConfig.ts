@@ -0,0 +1,53 @@
+import type { NativeTrackerConfig } from "./NativeLocationModule";
+
+// Runtime tracking thresholds, shared by the JS tracker and the native module
+export interface TrackerConfig {
+  // Minimum movement before a fix counts as a location change (JS and native distance filter)
+  distanceFilterMeters: number;
+  // Time without movement before the user is reported as idle
+  idleThresholdMs: number;
+  // How often an ongoing idle period is re-reported
+  idleReportIntervalMs: number;
+  // Native only: send a fix at least this often even without movement.
+  // Left undefined, each platform keeps its own default (15s Android, 30s iOS).
+  forceUpdateIntervalMs?: number;
+  // Native only: how often idle-time-only updates are emitted (8s Android, 10s iOS by default)
+  idleUpdateIntervalMs?: number;
+}
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  distanceFilterMeters: 50,
+  idleThresholdMs: 15 * 60 * 1000, // 15 minutes
+  idleReportIntervalMs: 15 * 60 * 1000, // 15 minutes
+};
+
+const MIN_NATIVE_INTERVAL_MS = 1000;
+
+export function resolveTrackerConfig(config?: Partial<TrackerConfig>): TrackerConfig {
+  const resolved = { ...DEFAULT_TRACKER_CONFIG, ...config };
+  return {
+    distanceFilterMeters: Math.max(0, resolved.distanceFilterMeters),
+    idleThresholdMs: Math.max(0, resolved.idleThresholdMs),
+    idleReportIntervalMs: Math.max(0, resolved.idleReportIntervalMs),
+    forceUpdateIntervalMs:
+      resolved.forceUpdateIntervalMs === undefined
+        ? undefined
+        : Math.max(MIN_NATIVE_INTERVAL_MS, resolved.forceUpdateIntervalMs),
+    idleUpdateIntervalMs:
+      resolved.idleUpdateIntervalMs === undefined
+        ? undefined
+        : Math.max(MIN_NATIVE_INTERVAL_MS, resolved.idleUpdateIntervalMs),
+  };
+}
+
+// The subset the native module understands; unset intervals are omitted so native keeps its defaults
+export function toNativeTrackerConfig(config: TrackerConfig): NativeTrackerConfig {
+  const native: NativeTrackerConfig = { distanceFilterMeters: config.distanceFilterMeters };
+  if (config.forceUpdateIntervalMs !== undefined) {
+    native.forceUpdateIntervalMs = config.forceUpdateIntervalMs;
+  }
+  if (config.idleUpdateIntervalMs !== undefined) {
+    native.idleUpdateIntervalMs = config.idleUpdateIntervalMs;
+  }
+  return native;
+}
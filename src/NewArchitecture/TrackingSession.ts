@@ -0,0 +1,185 @@
+import { StorageAdapter } from "./StorageAdapter";
+import { SerialExecutor } from "./SerialExecutor";
+
+// Each startTracking()/stopTracking() pair is recorded as a session. The active session is kept
+// under its own key and rewritten as points arrive, so a session that is still open when a new
+// tracker starts up belonged to a process the OS killed; it is closed with reason "osKilled"
+// at the time its last point was recorded.
+
+export type SessionStopReason =
+  | "user" // stopTracking()
+  | "permissionRevoked"
+  | "error" // native tracking stopped on its own
+  | "osKilled"; // the app was killed while tracking
+
+export interface TrackingSession {
+  id: string; // UUID v4
+  startedAt: string;
+  // Both null while the session is active
+  endedAt: string | null;
+  stopReason: SessionStopReason | null;
+  // Why native tracking stopped, for stopReason "error"
+  stopDetail?: string;
+  // Free-form data from the app (shift ID, vehicle, ...). Uploaded points carry only the session
+  // ID; the app reports the metadata to its backend if it needs it there.
+  metadata: Record<string, unknown>;
+  pointCount: number;
+  lastPointAt: string | null;
+}
+
+export interface SessionConfig {
+  // Finished sessions kept in storage; the oldest are dropped first
+  maxSessions: number;
+}
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  maxSessions: 100,
+};
+
+const ACTIVE_SESSION_KEY = "tracking_session_active";
+const SESSIONS_KEY = "tracking_sessions";
+
+// RFC 4122 version 4. Hermes has no crypto.randomUUID, so fall back to `random` there.
+export function createSessionId(random: () => number = Math.random): string {
+  const cryptoApi = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (typeof cryptoApi?.randomUUID === "function") {
+    return cryptoApi.randomUUID();
+  }
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const digit = Math.floor(random() * 16);
+    return (char === "x" ? digit : 8 + (digit % 4)).toString(16);
+  });
+}
+
+export class SessionStore {
+  private active: TrackingSession | null | undefined = undefined; // undefined until loaded
+  private readonly serial = new SerialExecutor(() => {
+    // Re-read the active session after a failed write
+    this.active = undefined;
+  });
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly config: SessionConfig = DEFAULT_SESSION_CONFIG
+  ) {}
+
+  // Closes a session left open by a previous process; null if there was none
+  recoverInterrupted(): Promise<TrackingSession | null> {
+    return this.serial.run(async () => {
+      const active = await this.loadActive();
+      if (!active) {
+        return null;
+      }
+      return this.finish(active, "osKilled", undefined, active.lastPointAt ?? active.startedAt);
+    });
+  }
+
+  // The session a previous process left open, without closing it; null if there is none
+  current(): Promise<TrackingSession | null> {
+    return this.serial.run(() => this.loadActive());
+  }
+
+  start(metadata: Record<string, unknown> = {}, startedAt: Date = new Date()): Promise<TrackingSession> {
+    return this.serial.run(async () => {
+      const previous = await this.loadActive();
+      if (previous) {
+        await this.finish(previous, "osKilled", undefined, previous.lastPointAt ?? previous.startedAt);
+      }
+
+      const session: TrackingSession = {
+        id: createSessionId(),
+        startedAt: startedAt.toISOString(),
+        endedAt: null,
+        stopReason: null,
+        metadata: { ...metadata },
+        pointCount: 0,
+        lastPointAt: null,
+      };
+      await this.saveActive(session);
+      return session;
+    });
+  }
+
+  // Null if no session was active
+  end(reason: SessionStopReason, detail?: string, endedAt: Date = new Date()): Promise<TrackingSession | null> {
+    return this.serial.run(async () => {
+      const active = await this.loadActive();
+      return active ? this.finish(active, reason, detail, endedAt.toISOString()) : null;
+    });
+  }
+
+  // Merges into the active session's metadata; null if no session is active
+  updateMetadata(metadata: Record<string, unknown>): Promise<TrackingSession | null> {
+    return this.serial.run(async () => {
+      const active = await this.loadActive();
+      if (!active) {
+        return null;
+      }
+      const session = { ...active, metadata: { ...active.metadata, ...metadata } };
+      await this.saveActive(session);
+      return session;
+    });
+  }
+
+  recordPoint(timestamp: string): Promise<void> {
+    return this.serial.run(async () => {
+      const active = await this.loadActive();
+      if (active) {
+        await this.saveActive({ ...active, pointCount: active.pointCount + 1, lastPointAt: timestamp });
+      }
+    });
+  }
+
+  // Finished sessions oldest first, then the active one
+  list(): Promise<TrackingSession[]> {
+    return this.serial.run(async () => {
+      const active = await this.loadActive();
+      const finished = await this.loadFinished();
+      return active ? [...finished, active] : finished;
+    });
+  }
+
+  get(id: string): Promise<TrackingSession | null> {
+    return this.list().then((sessions) => sessions.find((session) => session.id === id) ?? null);
+  }
+
+  private async finish(
+    active: TrackingSession,
+    reason: SessionStopReason,
+    detail: string | undefined,
+    endedAt: string
+  ): Promise<TrackingSession> {
+    const session: TrackingSession = {
+      ...active,
+      endedAt,
+      stopReason: reason,
+      ...(detail !== undefined ? { stopDetail: detail } : {}),
+    };
+    const finished = [...(await this.loadFinished()), session];
+    await this.storage.setItem(
+      SESSIONS_KEY,
+      JSON.stringify(finished.slice(Math.max(0, finished.length - this.config.maxSessions)))
+    );
+    await this.storage.removeItem(ACTIVE_SESSION_KEY);
+    this.active = null;
+    return session;
+  }
+
+  private async loadActive(): Promise<TrackingSession | null> {
+    if (this.active === undefined) {
+      const stored = await this.storage.getItem(ACTIVE_SESSION_KEY);
+      this.active = stored ? JSON.parse(stored) : null;
+    }
+    return this.active ?? null;
+  }
+
+  private async loadFinished(): Promise<TrackingSession[]> {
+    const stored = await this.storage.getItem(SESSIONS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private async saveActive(session: TrackingSession): Promise<void> {
+    await this.storage.setItem(ACTIVE_SESSION_KEY, JSON.stringify(session));
+    this.active = session;
+  }
+}
@@ -0,0 +1,373 @@
+import { LocationQueue, DEFAULT_CHUNK_SIZE } from "./LocationQueue";
+import { Logger, defaultLogger } from "./Logger";
+import { StorageAdapter } from "./StorageAdapter";
+import { SerialExecutor } from "./SerialExecutor";
+import { haversine } from "./GeoUtils";
+
+// Turns the fix stream into a timeline of Stops (places the user stayed within
+// `stopRadiusMeters` for at least `minStopDurationMs`) and the Trips between them.
+//
+// Fixes are clustered around a candidate centroid. Once a cluster has lasted long enough it
+// becomes a Stop, backdated to the first fix in the cluster; any open Trip ends at that
+// moment. The first fix outside the Stop's radius is a departure and starts a new Trip.
+
+export interface SegmentationConfig {
+  stopRadiusMeters: number;
+  minStopDurationMs: number;
+  // Completed segments kept in the timeline; the oldest are dropped first. Age is measured
+  // from the end of the segment to the latest fix.
+  maxSegments: number;
+  maxAgeMs: number;
+}
+
+// Same thresholds as DEFAULT_TRACKER_CONFIG (distanceFilterMeters and idleThresholdMs)
+export const DEFAULT_SEGMENTATION_CONFIG: SegmentationConfig = {
+  stopRadiusMeters: 50,
+  minStopDurationMs: 15 * 60 * 1000, // 15 minutes
+  maxSegments: 1000,
+  maxAgeMs: 90 * 24 * 60 * 60 * 1000, // 90 days, same as the odometer's maxDays
+};
+
+export interface Stop {
+  kind: "stop";
+  id: string;
+  arrivalTime: string;
+  departureTime: string | null; // null while the user is still there
+  latitude: number; // centroid of the fixes recorded at the stop
+  longitude: number;
+  pointCount: number;
+}
+
+export interface Trip {
+  kind: "trip";
+  id: string;
+  startTime: string;
+  endTime: string | null; // null while the trip is in progress
+  startLatitude: number;
+  startLongitude: number;
+  endLatitude: number;
+  endLongitude: number;
+  distanceMeters: number;
+  durationMs: number;
+  averageSpeed: number; // m/s
+  fromStopId: string | null;
+  toStopId: string | null;
+}
+
+export type TimelineSegment = Stop | Trip;
+
+export type SegmentEvent =
+  | { type: "tripStart"; trip: Trip }
+  | { type: "tripEnd"; trip: Trip }
+  | { type: "arrival"; stop: Stop }
+  | { type: "departure"; stop: Stop };
+
+export interface SegmentFix {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+}
+
+interface Candidate {
+  startTime: number;
+  startLatitude: number;
+  startLongitude: number;
+  latitude: number;
+  longitude: number;
+  pointCount: number;
+  lastTime: number;
+  // Trip distance before the first fix of the cluster, so a trip that ends here doesn't
+  // include the jitter recorded while the user was already stationary
+  tripDistanceAtStart: number;
+}
+
+interface SegmenterState {
+  currentStop: Stop | null;
+  currentTrip: Trip | null;
+  candidate: Candidate | null;
+  lastFix: { latitude: number; longitude: number; time: number } | null;
+}
+
+const INITIAL_STATE: SegmenterState = {
+  currentStop: null,
+  currentTrip: null,
+  candidate: null,
+  lastFix: null,
+};
+
+const TIMELINE_QUEUE_NAME = "trip_timeline";
+const TIMELINE_PAGE_SIZE = 100;
+const SEGMENTER_STATE_KEY = "trip_segmenter_state";
+
+function createSegmentId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export class TripSegmenter {
+  private state: SegmenterState | null = null;
+  private timeline: LocationQueue<TimelineSegment>;
+  // Fixes are processed one at a time so persisted state never goes backwards
+  private readonly serial = new SerialExecutor(() => {
+    // Re-read the persisted state after a failed write
+    this.state = null;
+  });
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly config: SegmentationConfig = DEFAULT_SEGMENTATION_CONFIG,
+    private readonly logger: Logger = defaultLogger
+  ) {
+    this.timeline = new LocationQueue<TimelineSegment>(storage, TIMELINE_QUEUE_NAME, DEFAULT_CHUNK_SIZE, logger);
+  }
+
+  process(fix: SegmentFix): Promise<SegmentEvent[]> {
+    return this.serial.run(() => this.processUnlocked(fix));
+  }
+
+  // Completed segments in time order, followed by the open stop or trip if there is one.
+  // `limit` and `offset` page through that whole list.
+  getTimeline(limit: number = Infinity, offset: number = 0): Promise<TimelineSegment[]> {
+    return this.serial.run(async () => {
+      const state = await this.loadState();
+      const size = await this.timeline.size();
+      const completed = await this.timeline.peek(Math.min(limit, Math.max(0, size - offset)), offset);
+      const openOffset = Math.max(0, offset - size);
+      const open = [state.currentStop, state.currentTrip]
+        .filter((segment): segment is Stop | Trip => segment !== null)
+        .slice(openOffset, openOffset + limit - completed.length);
+      return [...completed, ...open];
+    });
+  }
+
+  getCurrentStop(): Promise<Stop | null> {
+    return this.serial.run(async () => (await this.loadState()).currentStop);
+  }
+
+  getCurrentTrip(): Promise<Trip | null> {
+    return this.serial.run(async () => (await this.loadState()).currentTrip);
+  }
+
+  clear(): Promise<void> {
+    return this.serial.run(async () => {
+      this.state = { ...INITIAL_STATE };
+      await this.timeline.clear();
+      await this.storage.removeItem(SEGMENTER_STATE_KEY);
+    });
+  }
+
+  private async processUnlocked(fix: SegmentFix): Promise<SegmentEvent[]> {
+    const time = Date.parse(fix.timestamp);
+    if (isNaN(time)) {
+      return [];
+    }
+
+    const state = await this.loadState();
+    const events: SegmentEvent[] = [];
+
+    if (state.lastFix && time < state.lastFix.time) {
+      this.logger.warn("Segments", "Ignoring out-of-order fix at", fix.timestamp);
+      return [];
+    }
+
+    if (state.currentTrip && state.lastFix) {
+      this.extendTrip(state.currentTrip, fix, time, state.lastFix);
+    }
+    state.lastFix = { latitude: fix.latitude, longitude: fix.longitude, time };
+
+    if (state.currentStop) {
+      const stop = state.currentStop;
+      if (haversine(stop.latitude, stop.longitude, fix.latitude, fix.longitude) <= this.config.stopRadiusMeters) {
+        this.addToCentroid(stop, fix);
+      } else {
+        await this.depart(state, fix, time, events);
+      }
+    } else {
+      await this.updateCandidate(state, fix, time, events);
+    }
+
+    await this.saveState(state);
+    return events;
+  }
+
+  private async updateCandidate(
+    state: SegmenterState,
+    fix: SegmentFix,
+    time: number,
+    events: SegmentEvent[]
+  ): Promise<void> {
+    const candidate = state.candidate;
+
+    if (!candidate || haversine(candidate.latitude, candidate.longitude, fix.latitude, fix.longitude) > this.config.stopRadiusMeters) {
+      // Left the cluster before it became a stop: that movement is a trip
+      if (candidate && !state.currentTrip) {
+        state.currentTrip = this.createTrip(candidate.startLatitude, candidate.startLongitude, candidate.startTime, null);
+        this.extendTrip(state.currentTrip, fix, time, {
+          latitude: candidate.startLatitude,
+          longitude: candidate.startLongitude,
+          time: candidate.startTime,
+        });
+        events.push({ type: "tripStart", trip: { ...state.currentTrip } });
+      }
+
+      state.candidate = {
+        startTime: time,
+        startLatitude: fix.latitude,
+        startLongitude: fix.longitude,
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        pointCount: 1,
+        lastTime: time,
+        tripDistanceAtStart: state.currentTrip?.distanceMeters ?? 0,
+      };
+      return;
+    }
+
+    candidate.latitude += (fix.latitude - candidate.latitude) / (candidate.pointCount + 1);
+    candidate.longitude += (fix.longitude - candidate.longitude) / (candidate.pointCount + 1);
+    candidate.pointCount++;
+    candidate.lastTime = time;
+
+    if (time - candidate.startTime >= this.config.minStopDurationMs) {
+      await this.arrive(state, candidate, events);
+    }
+  }
+
+  private async arrive(state: SegmenterState, candidate: Candidate, events: SegmentEvent[]): Promise<void> {
+    const stop: Stop = {
+      kind: "stop",
+      id: createSegmentId("stop"),
+      arrivalTime: new Date(candidate.startTime).toISOString(),
+      departureTime: null,
+      latitude: candidate.latitude,
+      longitude: candidate.longitude,
+      pointCount: candidate.pointCount,
+    };
+
+    if (state.currentTrip) {
+      const trip = state.currentTrip;
+      trip.endTime = stop.arrivalTime;
+      trip.endLatitude = candidate.startLatitude;
+      trip.endLongitude = candidate.startLongitude;
+      trip.distanceMeters = candidate.tripDistanceAtStart;
+      trip.durationMs = candidate.startTime - Date.parse(trip.startTime);
+      trip.averageSpeed = trip.durationMs > 0 ? trip.distanceMeters / (trip.durationMs / 1000) : 0;
+      trip.toStopId = stop.id;
+
+      await this.appendSegment(trip, candidate.lastTime);
+      state.currentTrip = null;
+      events.push({ type: "tripEnd", trip });
+      this.logger.info("Segments", "Trip ended:", { distance: trip.distanceMeters.toFixed(0) + "m", durationMs: trip.durationMs });
+    }
+
+    state.currentStop = stop;
+    state.candidate = null;
+    events.push({ type: "arrival", stop: { ...stop } });
+    this.logger.info("Segments", "Arrived at stop:", { id: stop.id, arrivalTime: stop.arrivalTime });
+  }
+
+  private async depart(state: SegmenterState, fix: SegmentFix, time: number, events: SegmentEvent[]): Promise<void> {
+    const stop = state.currentStop!;
+    stop.departureTime = fix.timestamp;
+
+    await this.appendSegment(stop, time);
+    state.currentStop = null;
+    events.push({ type: "departure", stop });
+    this.logger.info("Segments", "Departed stop:", { id: stop.id, departureTime: stop.departureTime });
+
+    const trip = this.createTrip(stop.latitude, stop.longitude, time, stop.id);
+    this.extendTrip(trip, fix, time, { latitude: stop.latitude, longitude: stop.longitude, time });
+    state.currentTrip = trip;
+    state.candidate = {
+      startTime: time,
+      startLatitude: fix.latitude,
+      startLongitude: fix.longitude,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      pointCount: 1,
+      lastTime: time,
+      tripDistanceAtStart: trip.distanceMeters,
+    };
+    events.push({ type: "tripStart", trip: { ...trip } });
+  }
+
+  // Adds a completed segment, then drops the oldest ones until the timeline is within the
+  // retention limits
+  private async appendSegment(segment: TimelineSegment, now: number): Promise<void> {
+    const count = await this.timeline.append([segment]);
+    const cutoff = now - this.config.maxAgeMs;
+    let excess = Math.max(0, count - this.config.maxSegments);
+
+    while (true) {
+      const head = await this.timeline.peek(TIMELINE_PAGE_SIZE);
+      const expired: string[] = [];
+      for (const oldest of head) {
+        const end = oldest.kind === "stop" ? oldest.departureTime : oldest.endTime;
+        if (excess <= 0 && Date.parse(end!) >= cutoff) {
+          break;
+        }
+        expired.push(oldest.id);
+        excess--;
+      }
+
+      if (expired.length === 0) {
+        return;
+      }
+      await this.timeline.remove(expired);
+      if (expired.length < head.length) {
+        return;
+      }
+    }
+  }
+
+  private createTrip(latitude: number, longitude: number, time: number, fromStopId: string | null): Trip {
+    return {
+      kind: "trip",
+      id: createSegmentId("trip"),
+      startTime: new Date(time).toISOString(),
+      endTime: null,
+      startLatitude: latitude,
+      startLongitude: longitude,
+      endLatitude: latitude,
+      endLongitude: longitude,
+      distanceMeters: 0,
+      durationMs: 0,
+      averageSpeed: 0,
+      fromStopId,
+      toStopId: null,
+    };
+  }
+
+  private extendTrip(
+    trip: Trip,
+    fix: SegmentFix,
+    time: number,
+    previous: { latitude: number; longitude: number; time: number }
+  ): void {
+    trip.distanceMeters += haversine(previous.latitude, previous.longitude, fix.latitude, fix.longitude);
+    trip.endLatitude = fix.latitude;
+    trip.endLongitude = fix.longitude;
+    trip.durationMs = time - Date.parse(trip.startTime);
+    trip.averageSpeed = trip.durationMs > 0 ? trip.distanceMeters / (trip.durationMs / 1000) : 0;
+  }
+
+  private addToCentroid(stop: Stop, fix: SegmentFix): void {
+    stop.pointCount++;
+    stop.latitude += (fix.latitude - stop.latitude) / stop.pointCount;
+    stop.longitude += (fix.longitude - stop.longitude) / stop.pointCount;
+  }
+
+  private async loadState(): Promise<SegmenterState> {
+    if (this.state) {
+      return this.state;
+    }
+
+    const stored = await this.storage.getItem(SEGMENTER_STATE_KEY);
+    this.state = stored ? { ...INITIAL_STATE, ...JSON.parse(stored) } : { ...INITIAL_STATE };
+    return this.state!;
+  }
+
+  private async saveState(state: SegmenterState): Promise<void> {
+    this.state = state;
+    await this.storage.setItem(SEGMENTER_STATE_KEY, JSON.stringify(state));
+  }
+}
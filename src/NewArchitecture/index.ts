@@ -1,21 +1,66 @@
 // New Architecture Location Tracking Module
 // React Native 0.76.4+ Bridgeless Architecture Implementation
 
-import LocationModule from './LocationModule';
+import LocationModule from './NativeLocationModule';
 import { useLocationTracking } from './useLocationTracking';
 import LocationTrackingDemo from './LocationTrackingDemo';
 
 export { LocationModule, useLocationTracking, LocationTrackingDemo };
+export {
+  LocationProvider,
+  useLocationTracker,
+  useLocationSelector,
+  useLastLocation,
+  useIsTracking,
+  useSyncStatus,
+  useIdleState,
+  usePermissionState,
+  useTravelStats,
+} from './LocationProvider';
+export { decodeLocationEvent, EVENT_PROTOCOL_VERSION } from './LocationProtocol';
+export { normalizeLocation, validateLocation, LocationValidationError } from './LocationModel';
+export type { LocationUpdate, LocationData, LocationValidationCode } from './LocationModel';
+export { Logger, defaultLogger } from './Logger';
+export type { LogLevel, LogEntry, LoggerConfig } from './Logger';
+export {
+  decodePermission,
+  decodeAccuracyAuthorization,
+  isPermissionGranted,
+  nextPermissionAction,
+} from './LocationPermissions';
+export type {
+  LocationPermissionState,
+  PermissionStatus,
+  PermissionAccuracy,
+  PermissionAction,
+  AccuracyAuthorization,
+} from './LocationPermissions';
+export { SessionStore, createSessionId, DEFAULT_SESSION_CONFIG } from './TrackingSession';
+export type { TrackingSession, SessionStopReason, SessionConfig } from './TrackingSession';
+export type { TrackingResume } from './LocationTracker';
+export { Odometer, emptyTravelStats, DEFAULT_ODOMETER_CONFIG } from './Odometer';
+export type { TravelStats, DailyTravelStats, TravelStatsSummary, OdometerConfig } from './Odometer';
 
 // Type exports
 export type {
-  LocationData,
   LocationError,
   PermissionResult,
+  TrackingStartResult,
+  NativeTrackerConfig,
+  NativeHealthMetrics,
   Spec
-} from './LocationModule';
+} from './NativeLocationModule';
 
-export type { UseLocationTrackingReturn } from './useLocationTracking';
+export type { UseLocationTrackingReturn, UseLocationTrackingOptions } from './useLocationTracking';
+export type { LocationProviderProps, LocationState, IdleState, SyncStatus } from './LocationProvider';
+export type {
+  LocationEvent,
+  LocationEventKind,
+  FixEvent,
+  IdleEvent,
+  HeartbeatEvent,
+  StatusEvent
+} from './LocationProtocol';
 
 // Constants
 export const NEW_ARCHITECTURE_VERSION = '1.0.0';